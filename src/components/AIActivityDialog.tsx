@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ChevronDown, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useLocale } from '@/contexts/LocaleContext';
+import { auditMessageText, fetchAIActivity, type AIActivity, type AIAuditRecord } from '@/lib/aiAudit';
+
+interface AIActivityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function outputText(output: AIAuditRecord['output']): string | null {
+  if (output === null) return null;
+  return typeof output === 'string' ? output : JSON.stringify(output, null, 2);
+}
+
+function ActivityRecord({ record }: { record: AIAuditRecord }) {
+  const { t, dateLocale } = useLocale();
+  const [expanded, setExpanded] = useState(false);
+  const output = outputText(record.output);
+  const failed = record.outcome !== 'success' && record.outcome !== 'cancelled';
+
+  return (
+    <li className="rounded-xl border border-border/50 bg-secondary/30">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        aria-expanded={expanded}
+        className="w-full flex items-start justify-between gap-3 p-3 text-left"
+      >
+        <div className="min-w-0 space-y-1">
+          <p className="text-sm font-medium text-foreground">
+            {t(`activity.fn.${record.functionName}`)}
+            <span className="text-muted-foreground font-normal">
+              {' '}· {format(new Date(record.createdAt), 'MMM d, yyyy p', { locale: dateLocale })}
+            </span>
+          </p>
+          <p className="text-xs text-muted-foreground truncate">
+            {record.model} · {t('activity.prompt', { version: record.promptVersion })}
+            {record.totalTokens !== null && ` · ${t('activity.tokens', { count: record.totalTokens })}`}
+            {` · ${t('activity.latency', { seconds: (record.latencyMs / 1000).toFixed(1) })}`}
+            {record.attempts > 1 && ` · ${t('activity.attempts', { count: record.attempts })}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <Badge
+            variant="outline"
+            className={cn(
+              failed
+                ? "border-destructive/40 text-destructive"
+                : record.outcome === 'cancelled'
+                  ? "border-health-orange/40 text-health-orange"
+                  : "border-health-green/40 text-health-green"
+            )}
+          >
+            {failed ? t('activity.outcome.failed', { reason: record.outcome }) : t(`activity.outcome.${record.outcome as 'success' | 'cancelled'}`)}
+          </Badge>
+          <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", expanded && "rotate-180")} />
+        </div>
+      </button>
+
+      <AnimatePresence initial={false}>
+        {expanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="px-3 pb-3 space-y-3 text-xs">
+              <div className="space-y-2">
+                <h4 className="font-semibold text-foreground">{t('activity.sent')}</h4>
+                {record.input.map((message, index) => (
+                  <div key={index} className="p-2 rounded-lg bg-background/60 border border-border/40">
+                    <p className="text-muted-foreground mb-1">{t(`activity.role.${message.role}`)}</p>
+                    <p className="text-foreground whitespace-pre-wrap break-words">
+                      {auditMessageText(message, t('activity.photo'))}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <h4 className="font-semibold text-foreground">{t('activity.received')}</h4>
+                {output !== null ? (
+                  <p className="p-2 rounded-lg bg-background/60 border border-border/40 text-foreground whitespace-pre-wrap break-words">
+                    {output}
+                  </p>
+                ) : (
+                  <p className="text-muted-foreground italic">{t('activity.noOutput')}</p>
+                )}
+              </div>
+              <p className="text-muted-foreground break-all">
+                {t('activity.hash')}: <span className="font-mono">{record.inputHash}</span>
+              </p>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </li>
+  );
+}
+
+// Every AI call made on the user's behalf: what was sent, what came back, and what it cost
+export function AIActivityDialog({ open, onOpenChange }: AIActivityDialogProps) {
+  const { t } = useLocale();
+  const [activity, setActivity] = useState<AIActivity | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setActivity(null);
+    fetchAIActivity().then(setActivity);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display">{t('activity.title')}</DialogTitle>
+          <DialogDescription>
+            {t('activity.description')}
+            {activity?.retentionDays && ` ${t('activity.retention', { days: activity.retentionDays })}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!activity ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : activity.records.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">{t('activity.empty')}</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <ul className="space-y-2">
+              {activity.records.map((record) => (
+                <ActivityRecord key={record.id} record={record} />
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+import { AlertTriangle, CalendarClock, ListChecks, Stethoscope } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useLocale } from '@/contexts/LocaleContext';
+import {
+  SELF_CARE_TIMEFRAMES,
+  type FollowUpWindow,
+  type SelfCareStep,
+  type Specialist,
+} from '@/lib/symptomAnalyzer';
+
+interface AnalysisGuidanceProps {
+  warningSigns?: string[] | null;
+  specialist?: Specialist | null;
+  followUpWindow?: FollowUpWindow | null;
+  selfCare?: SelfCareStep[] | null;
+  // Tighter spacing for the history list
+  compact?: boolean;
+  className?: string;
+}
+
+// What to do next: warning signs, who to see and by when, and a self-care plan by timeframe.
+// Renders nothing for analyses made before these fields existed.
+export function AnalysisGuidance({
+  warningSigns,
+  specialist,
+  followUpWindow,
+  selfCare,
+  compact,
+  className,
+}: AnalysisGuidanceProps) {
+  const { t } = useLocale();
+  const plan = SELF_CARE_TIMEFRAMES
+    .map((timeframe) => ({
+      timeframe,
+      steps: (selfCare ?? []).filter((entry) => entry.timeframe === timeframe).flatMap((entry) => entry.steps),
+    }))
+    .filter((entry) => entry.steps.length > 0);
+
+  if (!warningSigns?.length && !specialist && !followUpWindow && plan.length === 0) return null;
+
+  const heading = cn(
+    "font-semibold text-foreground flex items-center gap-2",
+    compact ? "text-sm mb-2" : "font-display text-lg mb-3"
+  );
+  const icon = compact ? "h-4 w-4" : "h-5 w-5";
+
+  return (
+    <div className={cn(compact ? "space-y-4" : "space-y-6", className)}>
+      {warningSigns && warningSigns.length > 0 && (
+        <div className={cn("rounded-xl border border-destructive/30 bg-destructive/5", compact ? "p-3" : "p-5")}>
+          <h3 className={heading}>
+            <AlertTriangle className={cn(icon, "text-destructive")} />
+            {t('guidance.warningSigns')}
+          </h3>
+          <ul className="space-y-1.5 text-sm text-muted-foreground list-disc pl-5">
+            {warningSigns.map((sign, index) => (
+              <li key={index}>{sign}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(specialist || followUpWindow) && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {specialist && (
+            <div className={cn("rounded-xl bg-secondary/40 border border-border/50", compact ? "p-3" : "p-4")}>
+              <h3 className={heading}>
+                <Stethoscope className={cn(icon, "text-primary")} />
+                {t('guidance.specialist')}
+              </h3>
+              <p className="text-sm font-medium text-foreground">{specialist.type}</p>
+              <p className="text-sm text-muted-foreground mt-1">{specialist.reason}</p>
+            </div>
+          )}
+          {followUpWindow && (
+            <div className={cn("rounded-xl bg-secondary/40 border border-border/50", compact ? "p-3" : "p-4")}>
+              <h3 className={heading}>
+                <CalendarClock className={cn(icon, "text-health-orange")} />
+                {t('guidance.followUpTitle')}
+              </h3>
+              <p className="text-sm text-muted-foreground">
+                {t('guidance.followUp', {
+                  window: t(
+                    followUpWindow.amount === 1 ? `guidance.unit.${followUpWindow.unit}.one` : `guidance.unit.${followUpWindow.unit}`,
+                    { count: followUpWindow.amount }
+                  ),
+                })}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {plan.length > 0 && (
+        <div>
+          <h3 className={heading}>
+            <ListChecks className={cn(icon, "text-health-green")} />
+            {t('guidance.selfCare')}
+          </h3>
+          <ol className="space-y-3">
+            {plan.map(({ timeframe, steps }) => (
+              <li key={timeframe} className="flex gap-3">
+                <span className="text-xs font-medium px-2.5 py-1 h-fit rounded-full bg-health-green/15 text-health-green whitespace-nowrap">
+                  {t(`guidance.timeframe.${timeframe}`)}
+                </span>
+                <ul className="space-y-1 text-sm text-muted-foreground">
+                  {steps.map((step, index) => (
+                    <li key={index}>{step}</li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
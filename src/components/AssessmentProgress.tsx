@@ -0,0 +1,65 @@
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Check, FastForward } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useLocale } from '@/contexts/LocaleContext';
+import { COVERAGE_DIMENSIONS, type AssessmentCoverage } from '@/lib/symptomFollowup';
+
+interface AssessmentProgressProps {
+  coverage: AssessmentCoverage;
+  onSkip: () => void;
+  disabled?: boolean;
+}
+
+export function AssessmentProgress({ coverage, onSkip, disabled }: AssessmentProgressProps) {
+  const { t } = useLocale();
+  const covered = new Set(coverage.covered);
+  const total = COVERAGE_DIMENSIONS.length;
+
+  return (
+    <motion.div
+      className="p-4 rounded-xl bg-secondary/40 border border-border/50 space-y-3"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="font-medium text-foreground">{t('coverage.title')}</span>
+        <span className="text-xs text-muted-foreground">
+          {t('coverage.count', { covered: covered.size, total })}
+        </span>
+      </div>
+      <Progress value={(covered.size / total) * 100} className="h-2" />
+      <ul className="flex flex-wrap gap-1.5">
+        {COVERAGE_DIMENSIONS.map((dimension) => (
+          <li
+            key={dimension}
+            className={cn(
+              "inline-flex items-center gap-1 text-xs px-2.5 py-1 rounded-full transition-colors",
+              covered.has(dimension) ? "bg-primary/15 text-primary" : "bg-muted text-muted-foreground"
+            )}
+          >
+            {covered.has(dimension) && <Check className="h-3 w-3" />}
+            {t(`coverage.${dimension}`)}
+          </li>
+        ))}
+      </ul>
+      {coverage.minimumMet && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 pt-1">
+          <p className="text-xs text-muted-foreground">{t('coverage.skipHint')}</p>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={onSkip}
+            disabled={disabled}
+            className="rounded-lg flex-shrink-0"
+          >
+            <FastForward className="h-4 w-4 mr-1.5" />
+            {t('coverage.skip')}
+          </Button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useLocale } from '@/contexts/LocaleContext';
+import {
+  BODY_MAP_INTENSITY,
+  BODY_MAP_VIEWBOX,
+  BODY_REGIONS,
+  markKey,
+  type BodyMapMark,
+  type BodyRegion,
+  type BodyView,
+} from '@/lib/bodyMap';
+
+// Stronger intensity -> more opaque red
+function intensityFill(intensity: number): string {
+  const opacity = 0.25 + (0.75 * (intensity - BODY_MAP_INTENSITY.min)) / (BODY_MAP_INTENSITY.max - BODY_MAP_INTENSITY.min);
+  return `hsl(var(--destructive) / ${opacity.toFixed(2)})`;
+}
+
+function RegionShape({ region, className, style, onClick, title }: {
+  region: BodyRegion;
+  className?: string;
+  style?: React.CSSProperties;
+  onClick?: () => void;
+  title: string;
+}) {
+  const { shape } = region;
+  const props = { className, style, onClick };
+  return shape.type === 'ellipse' ? (
+    <ellipse cx={shape.cx} cy={shape.cy} rx={shape.rx} ry={shape.ry} {...props}>
+      <title>{title}</title>
+    </ellipse>
+  ) : (
+    <rect x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={shape.radius ?? 0} {...props}>
+      <title>{title}</title>
+    </rect>
+  );
+}
+
+interface BodyMapFigureProps {
+  view: BodyView;
+  marks: BodyMapMark[];
+  onRegionClick?: (region: BodyRegion) => void;
+  className?: string;
+}
+
+export function BodyMapFigure({ view, marks, onRegionClick, className }: BodyMapFigureProps) {
+  const { t } = useLocale();
+  const marked = new Map(marks.filter(mark => mark.view === view).map(mark => [mark.region, mark]));
+
+  return (
+    <svg
+      viewBox={`0 0 ${BODY_MAP_VIEWBOX.width} ${BODY_MAP_VIEWBOX.height}`}
+      className={cn("h-auto", className)}
+      role="img"
+      aria-label={t(view === 'front' ? 'bodyMap.front' : 'bodyMap.back')}
+    >
+      {BODY_REGIONS[view].map((region) => {
+        const mark = marked.get(region.id);
+        return (
+          <RegionShape
+            key={region.id}
+            region={region}
+            title={t(`bodyRegion.${region.id}`)}
+            onClick={onRegionClick ? () => onRegionClick(region) : undefined}
+            style={mark ? { fill: intensityFill(mark.intensity) } : undefined}
+            className={cn(
+              "stroke-border transition-colors",
+              !mark && "fill-muted",
+              onRegionClick && "cursor-pointer hover:stroke-primary",
+              onRegionClick && !mark && "hover:fill-primary/20"
+            )}
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+interface BodyMapPickerProps {
+  value: BodyMapMark[];
+  onChange: (marks: BodyMapMark[]) => void;
+  disabled?: boolean;
+}
+
+export function BodyMapPicker({ value, onChange, disabled }: BodyMapPickerProps) {
+  const { t } = useLocale();
+  const [view, setView] = useState<BodyView>('front');
+
+  const toggleRegion = (region: BodyRegion) => {
+    if (disabled) return;
+    const key = markKey({ region: region.id, view });
+    if (value.some(mark => markKey(mark) === key)) {
+      onChange(value.filter(mark => markKey(mark) !== key));
+    } else {
+      onChange([...value, { region: region.id, view, intensity: BODY_MAP_INTENSITY.default }]);
+    }
+  };
+
+  const setIntensity = (target: BodyMapMark, intensity: number) => {
+    onChange(value.map(mark => markKey(mark) === markKey(target) ? { ...mark, intensity } : mark));
+  };
+
+  return (
+    <motion.div
+      className="p-4 rounded-xl bg-secondary/40 border border-border/50 space-y-3"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium text-foreground">{t('bodyMap.title')}</p>
+          <p className="text-xs text-muted-foreground">{t('bodyMap.hint')}</p>
+        </div>
+        <div className="flex rounded-lg bg-card p-1 border border-border/50">
+          {(['front', 'back'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={cn(
+                "px-3 py-1 text-xs rounded-md transition-colors",
+                view === option ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {t(option === 'front' ? 'bodyMap.front' : 'bodyMap.back')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <BodyMapFigure
+          view={view}
+          marks={value}
+          onRegionClick={toggleRegion}
+          className="w-32 mx-auto sm:mx-0 flex-shrink-0"
+        />
+        <div className="flex-1 space-y-3">
+          {value.length === 0 && (
+            <p className="text-xs text-muted-foreground">{t('bodyMap.empty')}</p>
+          )}
+          {value.map((mark) => {
+            const label = t(`bodyRegion.${mark.region}`);
+            return (
+              <div key={markKey(mark)} className="space-y-1.5">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-foreground">
+                    {label}
+                    <span className="ml-1 text-xs text-muted-foreground">
+                      ({t(mark.view === 'front' ? 'bodyMap.front' : 'bodyMap.back')})
+                    </span>
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <span className="w-10 text-right font-display font-bold text-primary">
+                      {mark.intensity}/{BODY_MAP_INTENSITY.max}
+                    </span>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 rounded-lg"
+                      title={t('bodyMap.remove', { region: label })}
+                      onClick={() => onChange(value.filter(other => markKey(other) !== markKey(mark)))}
+                      disabled={disabled}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+                <Slider
+                  min={BODY_MAP_INTENSITY.min}
+                  max={BODY_MAP_INTENSITY.max}
+                  step={1}
+                  value={[mark.intensity]}
+                  onValueChange={([intensity]) => setIntensity(mark, intensity)}
+                  disabled={disabled}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+// Read-only front and back figures with the marked regions listed underneath
+export function BodyMapSummary({ marks, className }: { marks: BodyMapMark[]; className?: string }) {
+  const { t } = useLocale();
+
+  return (
+    <div className={cn("flex items-start gap-4", className)}>
+      <div className="flex gap-2 flex-shrink-0">
+        <BodyMapFigure view="front" marks={marks} className="w-16" />
+        <BodyMapFigure view="back" marks={marks} className="w-16" />
+      </div>
+      <ul className="flex flex-wrap gap-1.5">
+        {marks.map((mark) => (
+          <li
+            key={markKey(mark)}
+            className="text-xs px-2.5 py-1 rounded-full bg-destructive/10 text-foreground"
+          >
+            {t(`bodyRegion.${mark.region}`)} · {mark.intensity}/{BODY_MAP_INTENSITY.max}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
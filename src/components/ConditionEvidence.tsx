@@ -0,0 +1,74 @@
+import { Fragment } from 'react';
+import { format } from 'date-fns';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useLocale } from '@/contexts/LocaleContext';
+import type { Evidence } from '@/lib/symptomAnalyzer';
+
+// Wraps every case-insensitive occurrence of `quote` in a <mark>
+function Highlighted({ text, quote }: { text: string; quote?: string }) {
+  if (!quote) return <>{text}</>;
+  const escaped = quote.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const parts = text.split(new RegExp(`(${escaped})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.toLowerCase() === quote.toLowerCase() ? (
+          <mark key={index} className="bg-health-orange/25 text-foreground rounded px-0.5">{part}</mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+interface ConditionEvidenceProps {
+  evidence: Evidence[];
+  className?: string;
+}
+
+// The excerpts a condition was suggested on, supporting ones first
+export function ConditionEvidence({ evidence, className }: ConditionEvidenceProps) {
+  const { t } = useLocale();
+  const ordered = [...evidence].sort((a, b) => (a.stance === b.stance ? 0 : a.stance === 'supports' ? -1 : 1));
+
+  if (ordered.length === 0) {
+    return <p className={cn("text-xs text-muted-foreground italic", className)}>{t('evidence.none')}</p>;
+  }
+
+  return (
+    <ul className={cn("space-y-2", className)}>
+      {ordered.map((item) => {
+        const supports = item.stance === 'supports';
+        const context = item.kind === 'history' && item.label
+          ? format(new Date(item.label), 'MMM d, yyyy')
+          : item.label;
+        return (
+          <li
+            key={`${item.source}:${item.stance}`}
+            className={cn(
+              "text-sm p-3 rounded-lg border-l-4",
+              supports ? "bg-health-green/5 border-health-green/60" : "bg-health-orange/5 border-health-orange/60"
+            )}
+          >
+            <div className="flex items-center gap-1.5 text-xs font-medium mb-1 min-w-0">
+              {supports
+                ? <ThumbsUp className="h-3 w-3 text-health-green" />
+                : <ThumbsDown className="h-3 w-3 text-health-orange" />}
+              <span className={supports ? "text-health-green" : "text-health-orange"}>
+                {t(supports ? 'evidence.supports' : 'evidence.against')}
+              </span>
+              <span className="text-muted-foreground font-normal truncate">
+                · {t(`evidence.kind.${item.kind}`)}{context && ` · ${context}`}
+              </span>
+            </div>
+            <p className="text-foreground">
+              <Highlighted text={item.excerpt} quote={item.quote} />
+            </p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
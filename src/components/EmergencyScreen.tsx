@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, Hospital, Loader2, Navigation, Phone, HeartHandshake } from 'lucide-react';
+import { toast } from 'sonner';
+import type { RedFlag } from '@/lib/symptomAnalyzer';
+import { getEmergencyContacts } from '@/lib/emergencyNumbers';
+import { findNearestEmergencyRooms, type Hospital as HospitalType } from '@/lib/hospitalFinder';
+import { useLocale } from '@/contexts/LocaleContext';
+import { isTranslationKey } from '@/i18n';
+
+interface EmergencyScreenProps {
+  redFlag: RedFlag;
+}
+
+export function EmergencyScreen({ redFlag }: EmergencyScreenProps) {
+  const { t } = useLocale();
+  const contacts = getEmergencyContacts();
+  const [emergencyRooms, setEmergencyRooms] = useState<HospitalType[]>([]);
+  const [isLocating, setIsLocating] = useState(false);
+
+  // The server's English text is the fallback for rules added after this build
+  const ruleText = (field: 'label' | 'advice') => {
+    const key = `emergency.rule.${redFlag.ruleId}.${field}`;
+    return isTranslationKey(key) ? t(key) : redFlag[field];
+  };
+
+  const handleFindEmergencyRooms = async () => {
+    setIsLocating(true);
+    try {
+      const result = await findNearestEmergencyRooms();
+      setEmergencyRooms(result.slice(0, 3));
+      if (result.length === 0) {
+        toast.info(t('emergency.noHospitals'));
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('home.hospitalsFailed'));
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <Card className="mb-8 border-2 border-destructive/50 shadow-2xl bg-gradient-to-br from-destructive/10 via-card to-card overflow-hidden">
+      <CardHeader>
+        <div className="flex items-center gap-4">
+          <motion.div
+            className="w-16 h-16 rounded-2xl bg-destructive flex items-center justify-center shadow-xl shadow-destructive/30"
+            animate={{ scale: [1, 1.08, 1] }}
+            transition={{ duration: 1.5, repeat: Infinity }}
+          >
+            {redFlag.response === 'crisis' ? (
+              <HeartHandshake className="h-8 w-8 text-destructive-foreground" />
+            ) : (
+              <AlertTriangle className="h-8 w-8 text-destructive-foreground" />
+            )}
+          </motion.div>
+          <div>
+            <CardTitle className="font-display text-2xl sm:text-3xl text-destructive">
+              {redFlag.response === 'crisis' ? t('emergency.crisisTitle') : t('emergency.title')}
+            </CardTitle>
+            <CardDescription className="text-base">{ruleText('label')}</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-foreground leading-relaxed">{ruleText('advice')}</p>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button asChild size="lg" variant="destructive" className="flex-1 text-lg shadow-xl shadow-destructive/30">
+            <a href={`tel:${contacts.emergency}`}>
+              <Phone className="mr-2 h-5 w-5" />
+              {t('emergency.call', { number: contacts.emergency })}
+            </a>
+          </Button>
+          {redFlag.response === 'crisis' && contacts.crisis && (
+            <Button asChild size="lg" variant="outline" className="flex-1 border-destructive/40">
+              <a href={`tel:${contacts.crisis.number.replace(/\s/g, '')}`}>
+                <HeartHandshake className="mr-2 h-5 w-5" />
+                {contacts.crisis.name} ({contacts.crisis.number})
+              </a>
+            </Button>
+          )}
+          {redFlag.response === 'emergency' && (
+            <Button
+              size="lg"
+              variant="outline"
+              className="flex-1 border-destructive/40"
+              onClick={handleFindEmergencyRooms}
+              disabled={isLocating}
+            >
+              {isLocating ? (
+                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              ) : (
+                <Navigation className="mr-2 h-5 w-5" />
+              )}
+              {t('emergency.nearestRoom')}
+            </Button>
+          )}
+        </div>
+
+        <AnimatePresence>
+          {emergencyRooms.length > 0 && (
+            <motion.div
+              className="space-y-2"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+            >
+              {emergencyRooms.map((hospital, index) => (
+                <a
+                  key={index}
+                  href={`https://www.google.com/maps/dir/?api=1&destination=${hospital.lat},${hospital.lng}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-3 p-4 rounded-xl bg-card border border-border/50 hover:border-destructive/40 transition-colors"
+                >
+                  <Hospital className="h-6 w-6 text-destructive flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-foreground">{hospital.name}</p>
+                    <p className="text-sm text-muted-foreground truncate">{hospital.address}</p>
+                  </div>
+                  <span className="text-sm font-semibold text-destructive">{hospital.distance}</span>
+                </a>
+              ))}
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        <p className="text-xs text-muted-foreground">
+          {t('emergency.footer')}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
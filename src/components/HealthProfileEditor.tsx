@@ -0,0 +1,390 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Activity, Loader2, Pill, Plus, ShieldAlert, X, type LucideIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import {
+  ALLERGY_SEVERITIES,
+  SEXES,
+  addAllergy,
+  addCondition,
+  addMedication,
+  describeAllergy,
+  describeCondition,
+  describeMedication,
+  fetchHealthRecords,
+  removeHealthRecord,
+  type AllergySeverity,
+  type Demographics,
+  type HealthRecords,
+  type HealthRecordTable,
+  type Sex,
+} from '@/lib/healthProfile';
+
+// Select values can't be empty strings, so "not specified" gets a sentinel
+const UNSET = 'unset';
+
+interface RecordListProps<T extends { id: string }> {
+  title: string;
+  icon: LucideIcon;
+  items: T[];
+  describe: (item: T) => string;
+  onRemove: (item: T) => void;
+  children: ReactNode;
+}
+
+function RecordList<T extends { id: string }>({ title, icon: Icon, items, describe, onRemove, children }: RecordListProps<T>) {
+  const { t } = useLocale();
+
+  return (
+    <section className="space-y-2">
+      <h4 className="text-sm font-semibold text-foreground flex items-center gap-2">
+        <Icon className="h-4 w-4 text-primary" />
+        {title}
+      </h4>
+      {items.length === 0 ? (
+        <p className="text-xs text-muted-foreground italic">{t('health.none')}</p>
+      ) : (
+        <ul className="flex flex-wrap gap-2">
+          <AnimatePresence initial={false}>
+            {items.map((item) => (
+              <motion.li
+                key={item.id}
+                className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-secondary/60 border border-border/50 text-sm"
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.9 }}
+              >
+                <span className="text-foreground">{describe(item)}</span>
+                <button
+                  type="button"
+                  onClick={() => onRemove(item)}
+                  title={t('health.remove', { name: describe(item) })}
+                  className="p-1 rounded-full text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </motion.li>
+            ))}
+          </AnimatePresence>
+        </ul>
+      )}
+      {children}
+    </section>
+  );
+}
+
+interface HealthProfileEditorProps {
+  // null edits the account holder's own details
+  dependentId: string | null;
+  // null when there's no profile row to keep them on yet
+  demographics: Demographics | null;
+  // Throws when the change couldn't be saved
+  onSaveDemographics: (changes: Demographics) => Promise<void>;
+  // Called after a condition, medication or allergy is added or removed
+  onRecordsChange?: () => void;
+}
+
+// Sex, height and weight plus the diagnosed conditions, medications and allergies the
+// assistant takes into account for one person
+export function HealthProfileEditor({ dependentId, demographics, onSaveDemographics, onRecordsChange }: HealthProfileEditorProps) {
+  const { user } = useAuth();
+  const { t } = useLocale();
+  const [records, setRecords] = useState<HealthRecords | null>(null);
+  const [sex, setSex] = useState<string>(UNSET);
+  const [height, setHeight] = useState('');
+  const [weight, setWeight] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [conditionName, setConditionName] = useState('');
+  const [conditionYear, setConditionYear] = useState('');
+  const [medicationName, setMedicationName] = useState('');
+  const [dose, setDose] = useState('');
+  const [frequency, setFrequency] = useState('');
+  const [startedOn, setStartedOn] = useState('');
+  const [allergen, setAllergen] = useState('');
+  const [reaction, setReaction] = useState('');
+  const [severity, setSeverity] = useState<string>(UNSET);
+
+  useEffect(() => {
+    setRecords(null);
+    fetchHealthRecords(dependentId).then(setRecords);
+  }, [dependentId]);
+
+  useEffect(() => {
+    setSex(demographics?.sex ?? UNSET);
+    setHeight(demographics?.height_cm?.toString() ?? '');
+    setWeight(demographics?.weight_kg?.toString() ?? '');
+  }, [demographics?.sex, demographics?.height_cm, demographics?.weight_kg]);
+
+  const handleSaveDemographics = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const heightCm = height.trim() ? Number(height) : null;
+    const weightKg = weight.trim() ? Number(weight) : null;
+    if (heightCm !== null && !(heightCm > 0 && heightCm < 300)) {
+      toast.error(t('health.invalidHeight'));
+      return;
+    }
+    if (weightKg !== null && !(weightKg > 0 && weightKg < 700)) {
+      toast.error(t('health.invalidWeight'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSaveDemographics({ sex: sex === UNSET ? null : sex as Sex, height_cm: heightCm, weight_kg: weightKg });
+      toast.success(t('health.saved'));
+    } catch (error) {
+      console.error('Failed to save demographics:', error);
+      toast.error(t('health.saveFailed'));
+    }
+    setIsSaving(false);
+  };
+
+  // Adds a record and clears its form; the form's fields stay filled in if it fails
+  const add = async <K extends keyof HealthRecords>(key: K, create: () => Promise<HealthRecords[K][number]>, reset: () => void) => {
+    try {
+      const created = await create();
+      setRecords((prev) => prev && { ...prev, [key]: [...prev[key], created] });
+      reset();
+      onRecordsChange?.();
+    } catch (error) {
+      console.error('Failed to add health record:', error);
+      toast.error(t('health.addFailed'));
+    }
+  };
+
+  const remove = async (key: keyof HealthRecords, table: HealthRecordTable, id: string) => {
+    try {
+      await removeHealthRecord(table, id);
+      setRecords((prev) => prev && { ...prev, [key]: prev[key].filter((item) => item.id !== id) });
+      onRecordsChange?.();
+    } catch (error) {
+      console.error('Failed to remove health record:', error);
+      toast.error(t('health.removeFailed'));
+    }
+  };
+
+  const handleAddCondition = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !conditionName.trim()) return;
+    const year = parseInt(conditionYear);
+    add('conditions', () => addCondition(user.id, dependentId, {
+      name: conditionName.trim(),
+      diagnosed_year: year >= 1900 && year <= 2100 ? year : null,
+    }), () => {
+      setConditionName('');
+      setConditionYear('');
+    });
+  };
+
+  const handleAddMedication = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !medicationName.trim()) return;
+    add('medications', () => addMedication(user.id, dependentId, {
+      name: medicationName.trim(),
+      dose: dose.trim() || null,
+      frequency: frequency.trim() || null,
+      started_on: startedOn || null,
+    }), () => {
+      setMedicationName('');
+      setDose('');
+      setFrequency('');
+      setStartedOn('');
+    });
+  };
+
+  const handleAddAllergy = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !allergen.trim()) return;
+    add('allergies', () => addAllergy(user.id, dependentId, {
+      allergen: allergen.trim(),
+      reaction: reaction.trim() || null,
+      severity: severity === UNSET ? null : severity as AllergySeverity,
+    }), () => {
+      setAllergen('');
+      setReaction('');
+      setSeverity(UNSET);
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {demographics && (
+        <form onSubmit={handleSaveDemographics} className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>{t('health.sex')}</Label>
+              <Select value={sex} onValueChange={setSex}>
+                <SelectTrigger className="rounded-lg">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNSET}>{t('health.sexUnset')}</SelectItem>
+                  {SEXES.map((value) => (
+                    <SelectItem key={value} value={value}>{t(`health.sex.${value}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="health-height">{t('health.height')}</Label>
+              <Input
+                id="health-height"
+                type="number"
+                min={1}
+                max={299}
+                step="0.1"
+                value={height}
+                onChange={(e) => setHeight(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="health-weight">{t('health.weight')}</Label>
+              <Input
+                id="health-weight"
+                type="number"
+                min={1}
+                max={699}
+                step="0.1"
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={isSaving} className="rounded-lg">
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('health.saveDetails')}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {!records ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <RecordList
+            title={t('health.conditions')}
+            icon={Activity}
+            items={records.conditions}
+            describe={describeCondition}
+            onRemove={(item) => remove('conditions', 'diagnosed_conditions', item.id)}
+          >
+            <form onSubmit={handleAddCondition} className="flex flex-wrap gap-2">
+              <Input
+                placeholder={t('health.conditionName')}
+                aria-label={t('health.conditionName')}
+                value={conditionName}
+                onChange={(e) => setConditionName(e.target.value)}
+                className="flex-1 min-w-[10rem]"
+              />
+              <Input
+                type="number"
+                min={1900}
+                max={2100}
+                placeholder={t('health.conditionYear')}
+                aria-label={t('health.conditionYear')}
+                value={conditionYear}
+                onChange={(e) => setConditionYear(e.target.value)}
+                className="w-36"
+              />
+              <Button type="submit" variant="outline" size="icon" title={t('health.add')} disabled={!conditionName.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+          </RecordList>
+
+          <RecordList
+            title={t('health.medications')}
+            icon={Pill}
+            items={records.medications}
+            describe={describeMedication}
+            onRemove={(item) => remove('medications', 'medications', item.id)}
+          >
+            <form onSubmit={handleAddMedication} className="flex flex-wrap gap-2">
+              <Input
+                placeholder={t('health.medicationName')}
+                aria-label={t('health.medicationName')}
+                value={medicationName}
+                onChange={(e) => setMedicationName(e.target.value)}
+                className="flex-1 min-w-[10rem]"
+              />
+              <Input
+                placeholder={t('health.dose')}
+                aria-label={t('health.dose')}
+                value={dose}
+                onChange={(e) => setDose(e.target.value)}
+                className="w-28"
+              />
+              <Input
+                placeholder={t('health.frequency')}
+                aria-label={t('health.frequency')}
+                value={frequency}
+                onChange={(e) => setFrequency(e.target.value)}
+                className="w-36"
+              />
+              <Input
+                type="date"
+                title={t('health.startedOn')}
+                aria-label={t('health.startedOn')}
+                value={startedOn}
+                onChange={(e) => setStartedOn(e.target.value)}
+                className="w-40"
+              />
+              <Button type="submit" variant="outline" size="icon" title={t('health.add')} disabled={!medicationName.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+          </RecordList>
+
+          <RecordList
+            title={t('health.allergies')}
+            icon={ShieldAlert}
+            items={records.allergies}
+            describe={describeAllergy}
+            onRemove={(item) => remove('allergies', 'allergies', item.id)}
+          >
+            <form onSubmit={handleAddAllergy} className="flex flex-wrap gap-2">
+              <Input
+                placeholder={t('health.allergen')}
+                aria-label={t('health.allergen')}
+                value={allergen}
+                onChange={(e) => setAllergen(e.target.value)}
+                className="flex-1 min-w-[10rem]"
+              />
+              <Input
+                placeholder={t('health.reaction')}
+                aria-label={t('health.reaction')}
+                value={reaction}
+                onChange={(e) => setReaction(e.target.value)}
+                className="w-36"
+              />
+              <Select value={severity} onValueChange={setSeverity}>
+                <SelectTrigger className="w-36" aria-label={t('health.severity')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNSET}>{t('health.severity')}</SelectItem>
+                  {ALLERGY_SEVERITIES.map((value) => (
+                    <SelectItem key={value} value={value}>{t(`health.severity.${value}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" variant="outline" size="icon" title={t('health.add')} disabled={!allergen.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+          </RecordList>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { Globe } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLocale } from '@/contexts/LocaleContext';
+import { LOCALE_NAMES, SUPPORTED_LOCALES, isLocale } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+interface LanguageSelectProps {
+  className?: string;
+}
+
+export function LanguageSelect({ className }: LanguageSelectProps) {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <Select value={locale} onValueChange={(value) => isLocale(value) && setLocale(value)}>
+      <SelectTrigger
+        className={cn("w-auto gap-2 rounded-xl border-border/50 bg-card/60", className)}
+        aria-label={t('language.label')}
+      >
+        <Globe className="h-4 w-4 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_LOCALES.map((code) => (
+          <SelectItem key={code} value={code}>
+            {LOCALE_NAMES[code]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowRight, CheckCircle2, Clock, ClipboardList, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface UncuredEntry {
+  id: string;
+  symptoms: string;
+  urgency_level: string;
+  created_at: string;
+}
+
+interface OngoingSymptomsCheckProps {
+  // Only the chosen subject's entries are offered: a dependent, or the user themselves when null
+  dependentId: string | null;
+  onConfirm: (ongoingSymptoms: string[]) => void;
+  onHistoryChange?: () => void;
+}
+
+export function OngoingSymptomsCheck({ dependentId, onConfirm, onHistoryChange }: OngoingSymptomsCheckProps) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<UncuredEntry[]>([]);
+  const [ongoingIds, setOngoingIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [curingId, setCuringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchUncured = async () => {
+      let query = supabase
+        .from('symptom_history')
+        .select('id, symptoms, urgency_level, created_at')
+        .eq('user_id', user.id)
+        .or('is_cured.is.null,is_cured.eq.false');
+      query = dependentId ? query.eq('dependent_id', dependentId) : query.is('dependent_id', null);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) {
+        console.error('Error fetching uncured symptoms:', error);
+      }
+      if (error || !data || data.length === 0) {
+        onConfirm([]);
+        return;
+      }
+      setEntries(data);
+      setOngoingIds(new Set(data.map(entry => entry.id)));
+      setLoading(false);
+    };
+
+    fetchUncured();
+  }, [user, dependentId, onConfirm]);
+
+  const toggleOngoing = (id: string) => {
+    setOngoingIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleMarkCured = async (id: string) => {
+    setCuringId(id);
+    const { error } = await supabase
+      .from('symptom_history')
+      .update({ is_cured: true, cured_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to update status');
+    } else {
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+      onHistoryChange?.();
+      toast.success('Marked as cured! 🎉');
+    }
+    setCuringId(null);
+  };
+
+  const handleContinue = () => {
+    onConfirm(entries.filter(entry => ongoingIds.has(entry.id)).map(entry => entry.symptoms));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="rounded-2xl bg-gradient-to-br from-primary/5 via-accent/40 to-health-blue/10 p-6 border border-primary/20 shadow-lg space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      <div className="flex items-center gap-4">
+        <div className="w-14 h-14 rounded-2xl bg-gradient-primary flex items-center justify-center shadow-xl shadow-primary/30">
+          <ClipboardList className="h-7 w-7 text-primary-foreground" />
+        </div>
+        <div>
+          <h3 className="font-display font-bold text-lg text-foreground">Before we start</h3>
+          <p className="text-sm text-muted-foreground">Are any of these earlier symptoms still ongoing?</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <AnimatePresence>
+          {entries.map((entry) => (
+            <motion.div
+              key={entry.id}
+              className="flex items-start gap-3 p-4 rounded-xl bg-card/70 border border-border/50"
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20, height: 0 }}
+            >
+              <Checkbox
+                id={`ongoing-${entry.id}`}
+                checked={ongoingIds.has(entry.id)}
+                onCheckedChange={() => toggleOngoing(entry.id)}
+                className="mt-0.5"
+              />
+              <label htmlFor={`ongoing-${entry.id}`} className="flex-1 min-w-0 cursor-pointer">
+                <p className="text-sm text-foreground line-clamp-2">{entry.symptoms}</p>
+                <span className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                  <Clock className="h-3 w-3" />
+                  {format(new Date(entry.created_at), 'MMM d, yyyy')} · {entry.urgency_level}
+                </span>
+              </label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleMarkCured(entry.id)}
+                disabled={curingId === entry.id}
+                className="rounded-lg text-muted-foreground hover:text-health-green hover:bg-health-green/10"
+              >
+                {curingId === entry.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <>
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Cured
+                  </>
+                )}
+              </Button>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Ticked symptoms will be treated as still active in this assessment.
+      </p>
+
+      <Button onClick={handleContinue} className="w-full rounded-xl bg-gradient-primary hover:opacity-90 shadow-xl shadow-primary/30">
+        Continue to assessment
+        <ArrowRight className="h-4 w-4 ml-2" />
+      </Button>
+    </motion.div>
+  );
+}
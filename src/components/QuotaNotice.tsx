@@ -0,0 +1,56 @@
+import { format, isToday } from 'date-fns';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useLocale } from '@/contexts/LocaleContext';
+import { tightestWindow, type AIQuota } from '@/lib/aiQuota';
+
+// Most follow-up questions an assessment asks (MAX_QUESTIONS in supabase/functions/_shared/coverage.ts)
+const QUESTIONS_PER_ASSESSMENT = 10;
+
+interface QuotaNoticeProps {
+  quota: AIQuota;
+  className?: string;
+}
+
+// What's left of the user's plan before they start an assessment, with a warning when an
+// assessment could run out of questions or analyses partway through
+export function QuotaNotice({ quota, className }: QuotaNoticeProps) {
+  const { t, dateLocale } = useLocale();
+  const analyses = tightestWindow(quota, 'analyze-symptoms');
+  const questions = tightestWindow(quota, 'symptom-followup');
+  if (!analyses && !questions) return null;
+
+  const resetTime = (date: Date) => format(date, isToday(date) ? 'p' : 'MMM d, p', { locale: dateLocale });
+
+  let warning: string | null = null;
+  if (analyses && analyses.remaining === 0) {
+    warning = t('quota.noAnalyses', { time: resetTime(analyses.resetsAt) });
+  } else if (questions && questions.remaining < QUESTIONS_PER_ASSESSMENT) {
+    warning = questions.remaining === 0
+      ? t('quota.noQuestions', { time: resetTime(questions.resetsAt) })
+      : t('quota.fewQuestions', { count: questions.remaining, max: QUESTIONS_PER_ASSESSMENT, time: resetTime(questions.resetsAt) });
+  }
+
+  return (
+    <div
+      className={cn(
+        "flex items-start gap-3 p-3 rounded-xl border text-sm",
+        warning ? "bg-health-orange/10 border-health-orange/30" : "bg-secondary/40 border-border/50",
+        className
+      )}
+    >
+      {warning
+        ? <AlertTriangle className="h-4 w-4 mt-0.5 text-health-orange flex-shrink-0" />
+        : <Gauge className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />}
+      <div className="space-y-0.5">
+        {analyses && (
+          <p className="text-foreground">
+            {t('quota.analysesLeft', { count: analyses.remaining, max: analyses.maxRequests })}
+            <span className="text-muted-foreground"> · {t('quota.resets', { time: resetTime(analyses.resetsAt) })}</span>
+          </p>
+        )}
+        {warning && <p className="text-muted-foreground">{warning}</p>}
+      </div>
+    </div>
+  );
+}
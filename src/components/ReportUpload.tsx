@@ -8,12 +8,14 @@ import { toast } from 'sonner';
 interface ReportUploadProps {
   onAnalysis: (analysis: ReportAnalysis) => void;
   disabled?: boolean;
+  // Locale the findings and explanations should be written in
+  language?: string;
 }
 
 const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
 const MAX_SIZE = 10 * 1024 * 1024; // 10MB
 
-export function ReportUpload({ onAnalysis, disabled }: ReportUploadProps) {
+export function ReportUpload({ onAnalysis, disabled, language }: ReportUploadProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -59,7 +61,7 @@ export function ReportUpload({ onAnalysis, disabled }: ReportUploadProps) {
 
     setIsAnalyzing(true);
     try {
-      const analysis = await analyzeReport(selectedFile);
+      const analysis = await analyzeReport(selectedFile, language);
       onAnalysis(analysis);
       toast.success('Report analyzed successfully!');
     } catch (error: any) {
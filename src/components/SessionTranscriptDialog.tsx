@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Bot, History, Loader2, User } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { fetchSession, fetchSessionRevisions, type SessionRevision, type SymptomSession } from '@/lib/symptomSessions';
+
+interface SessionTranscriptDialogProps {
+  sessionId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SessionTranscriptDialog({ sessionId, onOpenChange }: SessionTranscriptDialogProps) {
+  const [session, setSession] = useState<SymptomSession | null>(null);
+  const [revisions, setRevisions] = useState<SessionRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    setLoading(true);
+    setSession(null);
+    setRevisions([]);
+    Promise.all([fetchSession(sessionId), fetchSessionRevisions(sessionId)]).then(([result, history]) => {
+      setSession(result);
+      setRevisions(history);
+      setLoading(false);
+    });
+  }, [sessionId]);
+
+  return (
+    <Dialog open={Boolean(sessionId)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display">Assessment Conversation</DialogTitle>
+          <DialogDescription>
+            {session
+              ? `Started ${format(new Date(session.createdAt), 'MMM d, yyyy h:mm a')}`
+              : 'Everything the assistant asked and how you answered'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !session ? (
+          <p className="text-sm text-muted-foreground text-center py-8">This conversation is no longer available.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <div className="space-y-3">
+              {session.messages.map((message, index) => (
+                <div
+                  key={index}
+                  className={cn('flex gap-2', message.role === 'user' ? 'justify-end' : 'justify-start')}
+                >
+                  {message.role === 'assistant' && <Bot className="h-5 w-5 text-primary mt-2 flex-shrink-0" />}
+                  <div
+                    className={cn(
+                      'max-w-[80%] p-3 rounded-xl text-sm leading-relaxed',
+                      message.role === 'user'
+                        ? 'bg-primary text-primary-foreground rounded-br-sm'
+                        : 'bg-secondary/60 rounded-bl-sm'
+                    )}
+                  >
+                    {message.content}
+                  </div>
+                  {message.role === 'user' && <User className="h-5 w-5 text-muted-foreground mt-2 flex-shrink-0" />}
+                </div>
+              ))}
+            </div>
+
+            {revisions.length > 0 && (
+              <div className="mt-6 pt-4 border-t border-border/50 space-y-2">
+                <h4 className="text-sm font-semibold text-foreground flex items-center gap-2">
+                  <History className="h-4 w-4 text-muted-foreground" />
+                  Changed answers
+                </h4>
+                {revisions.map((revision) => (
+                  <div key={revision.id} className="text-xs p-3 rounded-lg bg-secondary/40 space-y-1">
+                    <p className="text-muted-foreground">
+                      {format(new Date(revision.createdAt), 'MMM d, h:mm a')} ·{' '}
+                      {revision.action === 'edit' ? 'Answer edited' : 'Answer retracted'}
+                      {revision.removedMessages.length > 1 && ` (${revision.removedMessages.length - 1} later messages discarded)`}
+                    </p>
+                    <p className="text-foreground line-through decoration-muted-foreground/60">
+                      {revision.removedMessages[0]?.content}
+                    </p>
+                    {revision.replacement && <p className="text-foreground">{revision.replacement}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Send, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AnswerFormat, StructuredAnswer } from '@/lib/symptomFollowup';
+
+interface StructuredAnswerInputProps {
+  format: AnswerFormat;
+  onAnswer: (answer: StructuredAnswer) => void;
+  disabled?: boolean;
+}
+
+export function StructuredAnswerInput({ format, onAnswer, disabled }: StructuredAnswerInputProps) {
+  const range = format.range ?? { min: 1, max: 10 };
+  const units = format.units ?? ['hours', 'days', 'weeks', 'months'];
+  const [scaleValue, setScaleValue] = useState(Math.round((range.min + range.max) / 2));
+  const [selected, setSelected] = useState<string[]>([]);
+  const [amount, setAmount] = useState('');
+  const [unit, setUnit] = useState(units[0]);
+
+  const toggleOption = (option: string) => {
+    setSelected(prev => prev.includes(option) ? prev.filter(o => o !== option) : [...prev, option]);
+  };
+
+  const durationAmount = Number(amount);
+  const isValidDuration = amount.trim() !== '' && Number.isFinite(durationAmount) && durationAmount > 0;
+
+  return (
+    <motion.div
+      className="p-4 rounded-xl bg-secondary/40 border border-border/50 space-y-3"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+    >
+      {format.kind === 'scale' && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-4">
+            <Slider
+              min={range.min}
+              max={range.max}
+              step={1}
+              value={[scaleValue]}
+              onValueChange={([value]) => setScaleValue(value)}
+              disabled={disabled}
+            />
+            <span className="w-12 text-center font-display font-bold text-lg text-primary">{scaleValue}</span>
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{range.minLabel ?? range.min}</span>
+            <span>{range.maxLabel ?? range.max}</span>
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            className="rounded-lg"
+            disabled={disabled}
+            onClick={() => onAnswer({ kind: 'scale', value: scaleValue, range: { min: range.min, max: range.max } })}
+          >
+            <Send className="h-4 w-4 mr-2" />
+            Send {scaleValue}/{range.max}
+          </Button>
+        </div>
+      )}
+
+      {format.kind === 'yes_no' && (
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1 rounded-lg"
+            disabled={disabled}
+            onClick={() => onAnswer({ kind: 'yes_no', value: true })}
+          >
+            <Check className="h-4 w-4 mr-2" />
+            Yes
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1 rounded-lg"
+            disabled={disabled}
+            onClick={() => onAnswer({ kind: 'yes_no', value: false })}
+          >
+            <X className="h-4 w-4 mr-2" />
+            No
+          </Button>
+        </div>
+      )}
+
+      {format.kind === 'single_choice' && (
+        <div className="flex flex-wrap gap-2">
+          {format.options?.map((option) => (
+            <Button
+              key={option}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="rounded-full"
+              disabled={disabled}
+              onClick={() => onAnswer({ kind: 'single_choice', value: [option] })}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {format.kind === 'multi_choice' && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {format.options?.map((option) => (
+              <Button
+                key={option}
+                type="button"
+                variant="outline"
+                size="sm"
+                className={cn(
+                  'rounded-full',
+                  selected.includes(option) && 'bg-primary text-primary-foreground border-primary hover:bg-primary/90 hover:text-primary-foreground'
+                )}
+                disabled={disabled}
+                onClick={() => toggleOption(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            className="rounded-lg"
+            disabled={disabled}
+            onClick={() => onAnswer({ kind: 'multi_choice', value: selected })}
+          >
+            <Send className="h-4 w-4 mr-2" />
+            {selected.length > 0 ? `Send ${selected.length} selected` : 'None of these'}
+          </Button>
+        </div>
+      )}
+
+      {format.kind === 'duration' && (
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min={1}
+            placeholder="e.g. 3"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="w-24 rounded-lg"
+            disabled={disabled}
+          />
+          <Select value={unit} onValueChange={setUnit} disabled={disabled}>
+            <SelectTrigger className="w-32 rounded-lg">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {units.map((u) => (
+                <SelectItem key={u} value={u}>{u}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            size="sm"
+            className="h-10 rounded-lg"
+            disabled={disabled || !isValidDuration}
+            onClick={() => onAnswer({ kind: 'duration', value: { amount: durationAmount, unit } })}
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">Or type your own answer below</p>
+    </motion.div>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ChevronRight, HeartPulse, Loader2, Trash2, User, UserPlus, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { HealthProfileEditor } from '@/components/HealthProfileEditor';
+import { createDependent, deleteDependent, fetchDependents, updateDependent, type Dependent } from '@/lib/dependents';
+import { demographicsOf, profileAge, type Demographics } from '@/lib/healthProfile';
+
+interface SubjectSelectorProps {
+  // null means the assessment is for the signed-in user themselves
+  onSelect: (dependentId: string | null) => void;
+}
+
+export function SubjectSelector({ onSelect }: SubjectSelectorProps) {
+  const { user } = useAuth();
+  const { profile, updateProfile } = useProfile();
+  const ownAge = profile ? profileAge(profile) : null;
+  const { t } = useLocale();
+  const [dependents, setDependents] = useState<Dependent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingRemoval, setPendingRemoval] = useState<Dependent | null>(null);
+  // Whose health details are open for editing; null for the account holder
+  const [editingHealth, setEditingHealth] = useState<{ dependentId: string | null } | null>(null);
+  const [fullName, setFullName] = useState('');
+  const [age, setAge] = useState('');
+  const [relationship, setRelationship] = useState('');
+  const [healthIssues, setHealthIssues] = useState('');
+
+  useEffect(() => {
+    fetchDependents().then((data) => {
+      setDependents(data);
+      setLoading(false);
+    });
+  }, [user]);
+
+  const resetForm = () => {
+    setFullName('');
+    setAge('');
+    setRelationship('');
+    setHealthIssues('');
+    setIsAdding(false);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!fullName.trim()) {
+      toast.error(t('subject.nameRequired'));
+      return;
+    }
+
+    const ageNum = parseInt(age);
+    if (isNaN(ageNum) || ageNum < 0 || ageNum > 150) {
+      toast.error(t('auth.invalidAge'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const dependent = await createDependent(user.id, {
+        full_name: fullName.trim(),
+        age: ageNum,
+        relationship: relationship.trim() || null,
+        health_issues: healthIssues.trim() || null,
+      });
+      setDependents(prev => [...prev, dependent]);
+      toast.success(t('subject.added', { name: dependent.full_name }));
+      resetForm();
+    } catch (error) {
+      console.error('Failed to add dependent:', error);
+      toast.error(t('subject.addFailed'));
+    }
+    setIsSaving(false);
+  };
+
+  const handleRemove = async () => {
+    if (!pendingRemoval) return;
+    const dependent = pendingRemoval;
+    setPendingRemoval(null);
+    try {
+      await deleteDependent(dependent.id);
+      setDependents(prev => prev.filter(other => other.id !== dependent.id));
+      toast.success(t('subject.removed', { name: dependent.full_name }));
+    } catch (error) {
+      console.error('Failed to remove dependent:', error);
+      toast.error(t('subject.removeFailed'));
+    }
+  };
+
+  const handleSaveDemographics = async (changes: Demographics) => {
+    if (!editingHealth) return;
+    const { dependentId } = editingHealth;
+    if (dependentId) {
+      const updated = await updateDependent(dependentId, changes);
+      setDependents(prev => prev.map(other => other.id === updated.id ? updated : other));
+    } else {
+      const { error } = await updateProfile(changes);
+      if (error) throw error;
+    }
+  };
+
+  const editingDependent = editingHealth?.dependentId
+    ? dependents.find(dependent => dependent.id === editingHealth.dependentId) ?? null
+    : null;
+  const editingDemographics = editingHealth?.dependentId
+    ? editingDependent && demographicsOf(editingDependent)
+    : profile && demographicsOf(profile);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="rounded-2xl bg-gradient-to-br from-primary/5 via-accent/40 to-health-blue/10 p-6 border border-primary/20 shadow-lg space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      <div className="flex items-center gap-4">
+        <div className="w-14 h-14 rounded-2xl bg-gradient-primary flex items-center justify-center shadow-xl shadow-primary/30">
+          <Users className="h-7 w-7 text-primary-foreground" />
+        </div>
+        <div>
+          <h3 className="font-display font-bold text-lg text-foreground">{t('subject.title')}</h3>
+          <p className="text-sm text-muted-foreground">{t('subject.subtitle')}</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 p-2 pr-3 rounded-xl bg-card/70 border border-border/50 hover:border-primary/50 hover:bg-card transition-colors">
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            className="flex-1 min-w-0 flex items-center gap-3 p-2 text-left"
+          >
+            <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center flex-shrink-0">
+              <User className="h-5 w-5 text-primary" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-foreground">{t('subject.myself')}</p>
+              {profile && (
+                <p className="text-xs text-muted-foreground truncate">
+                  {profile.full_name}{ownAge !== null && ` · ${t('subject.years', { age: ownAge })}`}
+                </p>
+              )}
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          </button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            title={t('health.edit')}
+            onClick={() => setEditingHealth({ dependentId: null })}
+            className="h-8 w-8 rounded-lg text-muted-foreground hover:text-primary hover:bg-primary/10"
+          >
+            <HeartPulse className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <AnimatePresence>
+          {dependents.map((dependent) => (
+            <motion.div
+              key={dependent.id}
+              className="flex items-center gap-2 p-2 pr-3 rounded-xl bg-card/70 border border-border/50 hover:border-primary/50 hover:bg-card transition-colors"
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20, height: 0 }}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(dependent.id)}
+                className="flex-1 min-w-0 flex items-center gap-3 p-2 text-left"
+              >
+                <div className="w-10 h-10 rounded-xl bg-health-blue/10 flex items-center justify-center flex-shrink-0">
+                  <User className="h-5 w-5 text-health-blue" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{dependent.full_name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[dependent.relationship, t('subject.years', { age: dependent.age })].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              </button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                title={t('health.editFor', { name: dependent.full_name })}
+                onClick={() => setEditingHealth({ dependentId: dependent.id })}
+                className="h-8 w-8 rounded-lg text-muted-foreground hover:text-primary hover:bg-primary/10"
+              >
+                <HeartPulse className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                title={t('subject.remove', { name: dependent.full_name })}
+                onClick={() => setPendingRemoval(dependent)}
+                className="h-8 w-8 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+
+      <AnimatePresence mode="wait">
+        {isAdding ? (
+          <motion.form
+            key="form"
+            onSubmit={handleAdd}
+            className="space-y-3 p-4 rounded-xl bg-card/70 border border-border/50"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="dependent-name">{t('subject.name')}</Label>
+                <Input
+                  id="dependent-name"
+                  value={fullName}
+                  onChange={(e) => setFullName(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dependent-age">{t('subject.age')}</Label>
+                <Input
+                  id="dependent-age"
+                  type="number"
+                  min={0}
+                  max={150}
+                  value={age}
+                  onChange={(e) => setAge(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dependent-relationship">{t('subject.relationship')}</Label>
+              <Input
+                id="dependent-relationship"
+                placeholder={t('subject.relationshipPlaceholder')}
+                value={relationship}
+                onChange={(e) => setRelationship(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dependent-health">{t('subject.healthIssues')}</Label>
+              <Textarea
+                id="dependent-health"
+                placeholder={t('auth.healthIssuesPlaceholder')}
+                value={healthIssues}
+                onChange={(e) => setHealthIssues(e.target.value)}
+                rows={2}
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="ghost" onClick={resetForm} disabled={isSaving} className="rounded-lg">
+                {t('subject.cancel')}
+              </Button>
+              <Button type="submit" disabled={isSaving} className="rounded-lg">
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t('subject.save')}
+              </Button>
+            </div>
+          </motion.form>
+        ) : (
+          <motion.div key="add" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsAdding(true)}
+              className="w-full rounded-xl border-dashed"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              {t('subject.add')}
+            </Button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <Dialog open={editingHealth !== null} onOpenChange={(open) => !open && setEditingHealth(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-display">
+              {editingDependent ? t('health.editFor', { name: editingDependent.full_name }) : t('health.edit')}
+            </DialogTitle>
+            <DialogDescription>{t('health.description')}</DialogDescription>
+          </DialogHeader>
+          {editingHealth && (
+            <ScrollArea className="max-h-[65vh] pr-4">
+              <HealthProfileEditor
+                dependentId={editingHealth.dependentId}
+                demographics={editingDemographics}
+                onSaveDemographics={handleSaveDemographics}
+              />
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingRemoval !== null} onOpenChange={(open) => !open && setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('subject.removeTitle', { name: pendingRemoval?.full_name ?? '' })}</AlertDialogTitle>
+            <AlertDialogDescription>{t('subject.removeBody')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('subject.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t('subject.remove', { name: pendingRemoval?.full_name ?? '' })}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </motion.div>
+  );
+}
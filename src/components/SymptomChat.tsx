@@ -2,29 +2,106 @@ import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Loader2, Send, User, Bot, Sparkles, Heart, MessageCircle } from 'lucide-react';
+import { Loader2, Send, Square, User, Bot, Sparkles, Heart, MessageCircle, Mic, Volume2, VolumeX, PersonStanding, MapPin, Pencil, Undo2, ImagePlus, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { useSpeechRecognition, useSpeechSynthesis } from '@/hooks/use-speech';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { formatAnswerText, streamFollowupQuestion, type StructuredAnswer } from '@/lib/symptomFollowup';
+import type { AnalysisResult, ConversationMessage } from '@/lib/symptomAnalyzer';
+import { StructuredAnswerInput } from '@/components/StructuredAnswerInput';
+import { OngoingSymptomsCheck } from '@/components/OngoingSymptomsCheck';
+import { SubjectSelector } from '@/components/SubjectSelector';
+import { AssessmentProgress } from '@/components/AssessmentProgress';
+import { BodyMapPicker } from '@/components/BodyMap';
+import { PhotoThumbnails } from '@/components/SymptomPhotos';
+import type { BodyMapMark } from '@/lib/bodyMap';
+import { PHOTO_LIMITS, compressImage, deleteSymptomPhotos, uploadSymptomPhoto } from '@/lib/symptomPhotos';
+import { createSession, recordSessionRevision, saveSessionMessages, type SymptomSession } from '@/lib/symptomSessions';
+import { AIServiceError } from '@/lib/aiErrors';
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
+type Message = ConversationMessage;
+
+// A photo already uploaded and waiting to be sent with the next message
+interface PhotoDraft {
+  path: string;
+  previewUrl: string;
+}
+
+interface SendOptions {
+  answer?: StructuredAnswer;
+  // Earlier turns to continue from; defaults to the whole conversation
+  base?: Message[];
+  // Attachments to use instead of the pending ones (used when editing a turn)
+  bodyMap?: BodyMapMark[];
+  photos?: string[];
+  edited?: boolean;
+  // The conversation to put back if the user cancels; defaults to base. Cancelling an edit
+  // brings back the answer it replaced and the turns after it.
+  restore?: Message[];
+  // Runs once the turn has gone through without being cancelled
+  onSent?: () => void;
 }
 
 interface SymptomChatProps {
-  onComplete: (conversationHistory: Message[]) => void;
+  onComplete: (
+    conversationHistory: Message[],
+    ongoingSymptoms: string[],
+    sessionId: string | null,
+    dependentId: string | null,
+    screenedResult?: AnalysisResult
+  ) => void;
   isAnalyzing: boolean;
+  onHistoryChange?: () => void;
+  initialSession?: SymptomSession;
+  onSessionCreated?: (sessionId: string) => void;
 }
 
-const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/symptom-followup`;
-
-export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
+export function SymptomChat({ onComplete, isAnalyzing, onHistoryChange, initialSession, onSessionCreated }: SymptomChatProps) {
   const { user } = useAuth();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<Message[]>(initialSession?.messages ?? []);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [hasStarted, setHasStarted] = useState(false);
+  const [hasStarted, setHasStarted] = useState(Boolean(initialSession));
+  const [streamingReply, setStreamingReply] = useState('');
+  // Who the assessment is for: a dependent's id, null for the user themselves, undefined until chosen
+  const [dependentId, setDependentId] = useState<string | null | undefined>(initialSession ? initialSession.dependentId : undefined);
+  // Earlier uncured symptoms the user confirmed as still ongoing; null until confirmed
+  const [ongoingSymptoms, setOngoingSymptoms] = useState<string[] | null>(initialSession?.ongoingSymptoms ?? null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const sessionIdRef = useRef<string | null>(initialSession?.id ?? null);
+  // Regions marked for the next message; cleared once they are sent
+  const [bodyMapMarks, setBodyMapMarks] = useState<BodyMapMark[]>([]);
+  const [showBodyMap, setShowBodyMap] = useState(false);
+  const [photoDrafts, setPhotoDrafts] = useState<PhotoDraft[]>([]);
+  const [isAttachingPhoto, setIsAttachingPhoto] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  // Index of the user turn being edited in place, and its draft text
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editText, setEditText] = useState('');
+  const { profile, updateProfile } = useProfile();
+  const { locale, speechLang, dateLocale, t } = useLocale();
+  const readAloud = profile?.read_questions_aloud ?? false;
+  // Text already in the box when dictation started; the transcript is appended to it
+  const dictationBaseRef = useRef('');
+  // Assistant turns up to this index have already been read aloud (or predate this view)
+  const spokenCountRef = useRef(messages.length);
+
+  const speech = useSpeechSynthesis(speechLang);
+  const dictation = useSpeechRecognition({
+    lang: speechLang,
+    onTranscript: (transcript) => {
+      const base = dictationBaseRef.current;
+      setInput(base ? `${base} ${transcript}` : transcript);
+    },
+    onError: (error) => {
+      toast.error(error === 'not-allowed' ? t('chat.micDenied') : t('chat.voiceStopped'));
+    },
+  });
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -32,63 +109,258 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingReply]);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    if (messages.length <= spokenCountRef.current) {
+      spokenCountRef.current = messages.length;
+      return;
+    }
+    const lastMessage = messages[messages.length - 1];
+    spokenCountRef.current = messages.length;
+    if (readAloud && lastMessage.role === 'assistant') {
+      speech.speak(lastMessage.content);
+    }
+  }, [messages, readAloud, speech]);
+
+  const startDictation = () => {
+    if (isLoading || isAnalyzing) return;
+    speech.cancel();
+    dictationBaseRef.current = input.trim();
+    dictation.start();
+  };
 
-  const sendMessage = async (userMessage: string) => {
-    if (!userMessage.trim() || isLoading) return;
+  const toggleReadAloud = async () => {
+    const next = !readAloud;
+    if (!next) speech.cancel();
+    const { error } = await updateProfile({ read_questions_aloud: next });
+    if (error) {
+      toast.error(t('chat.preferenceFailed'));
+    }
+  };
+
+  // Persisting is best-effort: a failed save must never interrupt the assessment itself
+  const ensureSession = async () => {
+    if (sessionIdRef.current || !user) return;
+    try {
+      sessionIdRef.current = await createSession(user.id, ongoingSymptoms ?? [], dependentId ?? null);
+      onSessionCreated?.(sessionIdRef.current);
+    } catch (error) {
+      console.error('Failed to create session:', error);
+    }
+  };
+
+  const persistMessages = (next: Message[]) => {
+    if (!sessionIdRef.current) return;
+    saveSessionMessages(sessionIdRef.current, next).catch((error) => {
+      console.error('Failed to save session turn:', error);
+      toast.error(t('chat.saveFailed'));
+    });
+  };
+
+  const handlePhotoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (!user || files.length === 0) return;
+
+    const slots = PHOTO_LIMITS.perMessage - photoDrafts.length;
+    if (files.length > slots) {
+      toast.error(t('photos.limit', { count: PHOTO_LIMITS.perMessage }));
+    }
+
+    setIsAttachingPhoto(true);
+    for (const file of files.slice(0, Math.max(0, slots))) {
+      try {
+        const image = await compressImage(file);
+        const path = await uploadSymptomPhoto(user.id, image);
+        setPhotoDrafts(prev => [...prev, { path, previewUrl: URL.createObjectURL(image) }]);
+      } catch (error) {
+        console.error('Failed to attach photo:', error);
+        toast.error(t('photos.failed'));
+      }
+    }
+    setIsAttachingPhoto(false);
+  };
+
+  const removePhotoDraft = (draft: PhotoDraft) => {
+    URL.revokeObjectURL(draft.previewUrl);
+    setPhotoDrafts(prev => prev.filter(other => other.path !== draft.path));
+    deleteSymptomPhotos([draft.path]);
+  };
+
+  const sendMessage = async (text: string, options: SendOptions = {}) => {
+    const { answer, base = messages, edited, restore = base, onSent } = options;
+    const fromPanel = options.bodyMap === undefined;
+    const attachedMarks = options.bodyMap ?? bodyMapMarks;
+    const attachedDrafts = fromPanel ? photoDrafts : [];
+    const attachedPhotos = options.photos ?? attachedDrafts.map(draft => draft.path);
+    // A message can be just the body map or a photo; the attachments carry the detail
+    const userMessage = text.trim()
+      || (attachedMarks.length > 0 ? t('bodyMap.attached') : '')
+      || (attachedPhotos.length > 0 ? t('photos.attached') : '');
+    if (!userMessage || isLoading || isAttachingPhoto) return;
 
     const newUserMessage: Message = { role: 'user', content: userMessage };
-    const updatedMessages = [...messages, newUserMessage];
+    if (answer) newUserMessage.answer = answer;
+    if (attachedMarks.length > 0) newUserMessage.bodyMap = attachedMarks;
+    if (attachedPhotos.length > 0) newUserMessage.photos = attachedPhotos;
+    if (edited) newUserMessage.edited = true;
+    const updatedMessages = [...base, newUserMessage];
     setMessages(updatedMessages);
-    setInput('');
+    if (fromPanel) {
+      setInput('');
+      setBodyMapMarks([]);
+      setShowBodyMap(false);
+      setPhotoDrafts([]);
+    }
     setIsLoading(true);
     setHasStarted(true);
 
-    try {
-      const response = await fetch(CHAT_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({ 
-          messages: updatedMessages,
-          userId: user?.id 
-        }),
-      });
+    await ensureSession();
+    persistMessages(updatedMessages);
 
-      if (!response.ok) {
-        throw new Error('Failed to get response');
-      }
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-      const data = await response.json();
+    try {
+      const data = await streamFollowupQuestion({
+        messages: updatedMessages,
+        dependentId,
+        uncuredSymptoms: ongoingSymptoms ?? [],
+        language: locale,
+        signal: controller.signal,
+        onDelta: (text) => setStreamingReply(prev => prev + text),
+      });
       
-      if (data.isComplete) {
+      if (data.redFlag) {
+        const warningMessage: Message = { role: 'assistant', content: data.question };
+        const finalMessages = [...updatedMessages, warningMessage];
+        setMessages(finalMessages);
+        persistMessages(finalMessages);
+        onComplete(finalMessages, ongoingSymptoms ?? [], sessionIdRef.current, dependentId ?? null, data.analysis);
+      } else if (data.isComplete) {
         if (data.question && data.question.trim()) {
           const finalMessage: Message = { role: 'assistant', content: data.question };
           const finalMessages = [...updatedMessages, finalMessage];
           setMessages(finalMessages);
+          persistMessages(finalMessages);
           setTimeout(() => {
-            onComplete(finalMessages);
+            onComplete(finalMessages, ongoingSymptoms ?? [], sessionIdRef.current, dependentId ?? null);
           }, 1000);
         } else {
-          onComplete(updatedMessages);
+          onComplete(updatedMessages, ongoingSymptoms ?? [], sessionIdRef.current, dependentId ?? null);
         }
       } else {
-        const assistantMessage: Message = { role: 'assistant', content: data.question };
-        setMessages([...updatedMessages, assistantMessage]);
+        const assistantMessage: Message = { role: 'assistant', content: data.question, format: data.format };
+        if (data.coverage) assistantMessage.coverage = data.coverage;
+        if (data.promptVersion) assistantMessage.promptVersion = data.promptVersion;
+        const nextMessages = [...updatedMessages, assistantMessage];
+        setMessages(nextMessages);
+        persistMessages(nextMessages);
       }
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Cancelled by the user: drop the unanswered turn and give them their text back
+        setMessages(restore);
+        persistMessages(restore);
+        if (!answer && !edited) setInput(text);
+        if (fromPanel) {
+          setBodyMapMarks(attachedMarks);
+          setPhotoDrafts(attachedDrafts);
+        }
+        setHasStarted(restore.length > 0);
+        return;
+      }
       console.error('Chat error:', error);
       setMessages([...updatedMessages, { 
         role: 'assistant', 
-        content: 'Sorry, I encountered an error. Please try again.' 
+        content: error instanceof AIServiceError && error.code === 'unauthorized'
+          ? t('auth.sessionExpired')
+          : error instanceof AIServiceError && error.code === 'usage_limit'
+          ? t('quota.reached', { time: format(Date.now() + (error.retryAfter ?? 0) * 1000, 'p', { locale: dateLocale }) })
+          : t('chat.error')
       }]);
     } finally {
+      if (!controller.signal.aborted) onSent?.();
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      setStreamingReply('');
       setIsLoading(false);
     }
   };
 
+  const cancelMessage = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleStructuredAnswer = (answer: StructuredAnswer) => {
+    sendMessage(formatAnswerText(answer), { answer });
+  };
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setEditText(messages[index].content);
+  };
+
+  // Editing or retracting a turn drops everything after it; the dropped turns are logged
+  // against the session so the original answers stay auditable. An edit is only logged once its
+  // replacement has gone through: cancelling it puts the original turns back.
+  const reviseAnswer = (index: number, replacement: string | null) => {
+    if (isLoading || isAnalyzing) return;
+    const original = messages[index];
+    setEditingIndex(null);
+    if (replacement !== null && (!replacement.trim() || replacement.trim() === original.content)) return;
+
+    const base = messages.slice(0, index);
+    const sessionId = sessionIdRef.current;
+    const recordRevision = () => {
+      if (!sessionId || !user) return;
+      recordSessionRevision(sessionId, user.id, {
+        messageIndex: index,
+        action: replacement === null ? 'retract' : 'edit',
+        removedMessages: messages.slice(index),
+        replacement,
+      });
+    };
+    speech.cancel();
+
+    if (replacement === null) {
+      // Back to the question that turn answered (or to the start if it was the first)
+      recordRevision();
+      setMessages(base);
+      persistMessages(base);
+      setHasStarted(base.length > 0);
+      return;
+    }
+    sendMessage(replacement, {
+      base,
+      bodyMap: original.bodyMap ?? [],
+      photos: original.photos ?? [],
+      edited: true,
+      restore: messages,
+      onSent: recordRevision,
+    });
+  };
+
+  // Skipping leaves the last question unanswered, so it isn't part of what gets analysed
+  const skipToAnalysis = () => {
+    if (isLoading || isAnalyzing) return;
+    speech.cancel();
+    const answered = messages[messages.length - 1]?.role === 'assistant' ? messages.slice(0, -1) : messages;
+    onComplete(answered, ongoingSymptoms ?? [], sessionIdRef.current, dependentId ?? null);
+  };
+
+  const lastMessage = messages[messages.length - 1];
+  const coverage = [...messages].reverse().find(message => message.role === 'assistant' && message.coverage)?.coverage;
+  const pendingFormat = lastMessage?.role === 'assistant' && lastMessage.format?.kind !== 'text'
+    ? lastMessage.format
+    : undefined;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     sendMessage(input);
@@ -101,6 +373,26 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
     }
   };
 
+  // Photos are numbered across the whole conversation, matching how they're cited in the analysis
+  const firstPhotoNumbers = messages.reduce<number[]>((numbers, message, index) => {
+    const previous = index === 0 ? 1 : numbers[index - 1] + (messages[index - 1].photos?.length ?? 0);
+    return [...numbers, previous];
+  }, []);
+
+  if (user && dependentId === undefined) {
+    return <SubjectSelector onSelect={setDependentId} />;
+  }
+
+  if (user && ongoingSymptoms === null) {
+    return (
+      <OngoingSymptomsCheck
+        dependentId={dependentId}
+        onConfirm={setOngoingSymptoms}
+        onHistoryChange={onHistoryChange}
+      />
+    );
+  }
+
   return (
     <div className="space-y-4">
       {/* Welcome Message */}
@@ -138,8 +430,8 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
                   <Heart className="h-7 w-7 text-primary-foreground" />
                 </motion.div>
                 <div>
-                  <h3 className="font-display font-bold text-lg text-foreground">Welcome to Your Health Assessment</h3>
-                  <p className="text-sm text-muted-foreground">I'm here to help understand your symptoms</p>
+                  <h3 className="font-display font-bold text-lg text-foreground">{t('chat.welcomeTitle')}</h3>
+                  <p className="text-sm text-muted-foreground">{t('chat.welcomeSubtitle')}</p>
                 </div>
               </motion.div>
               <motion.p 
@@ -148,8 +440,7 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
                 animate={{ opacity: 1 }}
                 transition={{ delay: 0.3 }}
               >
-                Tell me what's bothering you in as much detail as you can. I'll ask a few personalized follow-up questions 
-                based on your health profile and history, then provide a comprehensive analysis.
+                {t('chat.welcomeBody')}
               </motion.p>
             </div>
           </motion.div>
@@ -169,7 +460,7 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
               <motion.div
                 key={index}
                 className={cn(
-                  "flex gap-3",
+                  "group flex gap-3",
                   message.role === 'user' ? 'justify-end' : 'justify-start'
                 )}
                 initial={{ opacity: 0, y: 20, scale: 0.95 }}
@@ -186,17 +477,98 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
                     <Bot className="h-5 w-5 text-primary-foreground" />
                   </motion.div>
                 )}
-                <motion.div
-                  className={cn(
-                    "max-w-[80%] p-4 rounded-2xl text-sm leading-relaxed shadow-lg",
-                    message.role === 'user'
-                      ? 'bg-gradient-to-br from-primary to-primary/80 text-primary-foreground rounded-br-md'
-                      : 'bg-card border border-border/50 rounded-bl-md backdrop-blur-sm'
-                  )}
-                  whileHover={{ scale: 1.01 }}
-                >
-                  {message.content}
-                </motion.div>
+                {message.role === 'user' && editingIndex !== index && !isLoading && !isAnalyzing && (
+                  <div className="flex flex-col gap-1 self-center sm:opacity-0 sm:group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 rounded-lg text-muted-foreground"
+                      title={t('chat.editAnswer')}
+                      onClick={() => startEditing(index)}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 rounded-lg text-muted-foreground"
+                      title={t('chat.retractAnswer')}
+                      onClick={() => reviseAnswer(index, null)}
+                    >
+                      <Undo2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                )}
+                {editingIndex === index ? (
+                  <div className="max-w-[80%] w-full space-y-2">
+                    <Textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          reviseAnswer(index, editText);
+                        } else if (e.key === 'Escape') {
+                          setEditingIndex(null);
+                        }
+                      }}
+                      className="min-h-[80px] resize-none rounded-xl text-sm bg-card"
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" size="sm" variant="ghost" className="rounded-lg" onClick={() => setEditingIndex(null)}>
+                        {t('chat.cancelEdit')}
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        className="rounded-lg"
+                        onClick={() => reviseAnswer(index, editText)}
+                        disabled={!editText.trim()}
+                      >
+                        {t('chat.saveEdit')}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <motion.div
+                    className={cn(
+                      "max-w-[80%] p-4 rounded-2xl text-sm leading-relaxed shadow-lg",
+                      message.role === 'user'
+                        ? 'bg-gradient-to-br from-primary to-primary/80 text-primary-foreground rounded-br-md'
+                        : 'bg-card border border-border/50 rounded-bl-md backdrop-blur-sm'
+                    )}
+                    whileHover={{ scale: 1.01 }}
+                  >
+                    {message.content}
+                    {message.bodyMap && message.bodyMap.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {message.bodyMap.map((mark) => (
+                          <span
+                            key={`${mark.view}:${mark.region}`}
+                            className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-primary-foreground/20"
+                          >
+                            <MapPin className="h-3 w-3" />
+                            {t(`bodyRegion.${mark.region}`)} · {mark.intensity}/10
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {message.photos && message.photos.length > 0 && (
+                      <PhotoThumbnails
+                        paths={message.photos}
+                        firstNumber={firstPhotoNumbers[index]}
+                        className="mt-2"
+                        thumbnailClassName="w-16 h-16 border-primary-foreground/30"
+                      />
+                    )}
+                    {message.edited && (
+                      <span className="block mt-1 text-[10px] uppercase tracking-wide opacity-70">{t('chat.edited')}</span>
+                    )}
+                  </motion.div>
+                )}
                 {message.role === 'user' && (
                   <motion.div 
                     className="w-10 h-10 rounded-xl bg-gradient-to-br from-muted to-muted/70 flex items-center justify-center flex-shrink-0 shadow-md"
@@ -210,9 +582,26 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
               </motion.div>
             ))}
             
+            {/* Partial reply while the question streams in */}
+            {streamingReply && (
+              <div className="flex gap-3 justify-start">
+                <div className="w-10 h-10 rounded-xl bg-gradient-primary flex items-center justify-center flex-shrink-0 shadow-lg shadow-primary/25">
+                  <Bot className="h-5 w-5 text-primary-foreground" />
+                </div>
+                <div className="max-w-[80%] p-4 rounded-2xl rounded-bl-md text-sm leading-relaxed shadow-lg bg-card border border-border/50 backdrop-blur-sm">
+                  {streamingReply}
+                  <motion.span
+                    className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-primary/60"
+                    animate={{ opacity: [1, 0, 1] }}
+                    transition={{ duration: 1, repeat: Infinity }}
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Loading indicator */}
             <AnimatePresence>
-              {isLoading && (
+              {isLoading && !streamingReply && (
                 <motion.div 
                   className="flex gap-3 justify-start"
                   initial={{ opacity: 0, y: 20 }}
@@ -245,7 +634,7 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
                           />
                         ))}
                       </div>
-                      <span className="text-xs text-muted-foreground">Thinking...</span>
+                      <span className="text-xs text-muted-foreground">{t('chat.thinking')}</span>
                     </div>
                   </div>
                 </motion.div>
@@ -275,9 +664,9 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
                   >
                     <div className="flex items-center gap-3">
                       <Loader2 className="h-5 w-5 animate-spin text-health-green" />
-                      <span className="text-sm text-foreground font-medium">Analyzing your symptoms...</span>
+                      <span className="text-sm text-foreground font-medium">{t('chat.analyzing')}</span>
                     </div>
-                    <p className="text-xs text-muted-foreground mt-1">Creating a personalized health assessment</p>
+                    <p className="text-xs text-muted-foreground mt-1">{t('chat.analyzingDetail')}</p>
                   </motion.div>
                 </motion.div>
               )}
@@ -287,6 +676,11 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
         )}
       </AnimatePresence>
 
+      {/* Coverage of the assessment so far */}
+      {coverage && !isAnalyzing && (
+        <AssessmentProgress coverage={coverage} onSkip={skipToAnalysis} disabled={isLoading} />
+      )}
+
       {/* Input Form */}
       <motion.form 
         onSubmit={handleSubmit} 
@@ -295,37 +689,165 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 0.2 }}
       >
+        <AnimatePresence>
+          {showBodyMap && !isAnalyzing && (
+            <BodyMapPicker value={bodyMapMarks} onChange={setBodyMapMarks} disabled={isLoading} />
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {pendingFormat && !isLoading && !isAnalyzing && (
+            <StructuredAnswerInput
+              key={messages.length}
+              format={pendingFormat}
+              onAnswer={handleStructuredAnswer}
+            />
+          )}
+        </AnimatePresence>
+
+        {photoDrafts.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {photoDrafts.map((draft) => (
+              <div key={draft.path} className="relative">
+                <img
+                  src={draft.previewUrl}
+                  alt=""
+                  className="h-16 w-16 rounded-lg object-cover border border-border/50 shadow-sm"
+                />
+                <button
+                  type="button"
+                  title={t('photos.remove')}
+                  onClick={() => removePhotoDraft(draft)}
+                  className="absolute -top-1.5 -right-1.5 h-5 w-5 rounded-full bg-foreground/80 text-background flex items-center justify-center hover:bg-foreground"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="relative group">
           <motion.div
             className="absolute inset-0 bg-gradient-to-r from-primary/20 via-health-blue/20 to-health-green/20 rounded-xl blur-xl opacity-0 group-focus-within:opacity-100 transition-opacity duration-500"
           />
           <Textarea
-            placeholder={hasStarted 
-              ? "Type your answer..." 
-              : "Describe your symptoms... (e.g., 'I have a headache and slight fever for 2 days')"
+            placeholder={dictation.isListening
+              ? t('chat.placeholderListening')
+              : hasStarted 
+              ? t('chat.placeholderAnswer')
+              : t('chat.placeholderStart')
             }
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            className="min-h-[110px] resize-none pr-16 rounded-xl border-border/50 bg-card/80 backdrop-blur-sm focus:border-primary/50 focus:ring-2 focus:ring-primary/20 transition-all placeholder:text-muted-foreground/60 relative shadow-lg"
+            className="min-h-[110px] resize-none pr-52 rounded-xl border-border/50 bg-card/80 backdrop-blur-sm focus:border-primary/50 focus:ring-2 focus:ring-primary/20 transition-all placeholder:text-muted-foreground/60 relative shadow-lg"
             disabled={isLoading || isAnalyzing}
           />
+          {user && (
+            <>
+              <input
+                ref={photoInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={handlePhotoSelect}
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                title={isAttachingPhoto ? t('photos.uploading') : t('photos.attach')}
+                onClick={() => photoInputRef.current?.click()}
+                disabled={isAnalyzing || isAttachingPhoto || photoDrafts.length >= PHOTO_LIMITS.perMessage}
+                className={cn(
+                  "absolute bottom-4 right-40 rounded-xl h-10 w-10 transition-all",
+                  photoDrafts.length > 0
+                    ? "text-primary bg-primary/10 hover:bg-primary/15"
+                    : "text-muted-foreground hover:text-primary"
+                )}
+              >
+                {isAttachingPhoto ? <Loader2 className="h-5 w-5 animate-spin" /> : <ImagePlus className="h-5 w-5" />}
+              </Button>
+            </>
+          )}
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            title={t('bodyMap.toggle')}
+            aria-pressed={showBodyMap}
+            onClick={() => setShowBodyMap(prev => !prev)}
+            disabled={isAnalyzing}
+            className={cn(
+              "absolute bottom-4 right-28 rounded-xl h-10 w-10 transition-all",
+              showBodyMap || bodyMapMarks.length > 0
+                ? "text-primary bg-primary/10 hover:bg-primary/15"
+                : "text-muted-foreground hover:text-primary"
+            )}
+          >
+            <PersonStanding className="h-5 w-5" />
+            {bodyMapMarks.length > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4">
+                {bodyMapMarks.length}
+              </span>
+            )}
+          </Button>
+          {dictation.isSupported && (
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              title={t('chat.holdToTalk')}
+              aria-pressed={dictation.isListening}
+              onPointerDown={startDictation}
+              onPointerUp={dictation.stop}
+              onPointerLeave={dictation.stop}
+              onKeyDown={(e) => {
+                if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+                  e.preventDefault();
+                  startDictation();
+                }
+              }}
+              onKeyUp={(e) => {
+                if (e.key === ' ' || e.key === 'Enter') dictation.stop();
+              }}
+              disabled={isLoading || isAnalyzing}
+              className={cn(
+                "absolute bottom-4 right-16 rounded-xl h-10 w-10 touch-none select-none transition-all",
+                dictation.isListening
+                  ? "bg-destructive text-destructive-foreground hover:bg-destructive hover:text-destructive-foreground animate-pulse"
+                  : "text-muted-foreground hover:text-primary"
+              )}
+            >
+              <Mic className="h-5 w-5" />
+            </Button>
+          )}
           <motion.div
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
           >
-            <Button 
-              type="submit"
-              size="icon"
-              disabled={isLoading || isAnalyzing || !input.trim()}
-              className="absolute bottom-4 right-4 rounded-xl bg-gradient-primary hover:opacity-90 shadow-xl shadow-primary/30 transition-all disabled:opacity-50 h-10 w-10"
-            >
-              {isLoading ? (
-                <Loader2 className="h-5 w-5 animate-spin" />
-              ) : (
+            {isLoading ? (
+              <Button 
+                type="button"
+                size="icon"
+                onClick={cancelMessage}
+                title={t('chat.stop')}
+                className="absolute bottom-4 right-4 rounded-xl bg-gradient-primary hover:opacity-90 shadow-xl shadow-primary/30 transition-all h-10 w-10"
+              >
+                <Square className="h-4 w-4 fill-current" />
+              </Button>
+            ) : (
+              <Button 
+                type="submit"
+                size="icon"
+                disabled={isAnalyzing || isAttachingPhoto || (!input.trim() && bodyMapMarks.length === 0 && photoDrafts.length === 0)}
+                className="absolute bottom-4 right-4 rounded-xl bg-gradient-primary hover:opacity-90 shadow-xl shadow-primary/30 transition-all disabled:opacity-50 h-10 w-10"
+              >
                 <Send className="h-5 w-5" />
-              )}
-            </Button>
+              </Button>
+            )}
           </motion.div>
         </div>
         
@@ -341,12 +863,24 @@ export function SymptomChat({ onComplete, isAnalyzing }: SymptomChatProps) {
           >
             <Sparkles className="h-4 w-4 text-primary" />
           </motion.div>
-          <span>
+          <span className="flex-1">
             {hasStarted 
-              ? 'Answer the questions for a comprehensive analysis' 
-              : 'Your health profile helps personalize the assessment'
+              ? t('chat.hintStarted')
+              : t('chat.hintStart')
             }
           </span>
+          {speech.isSupported && profile && (
+            <button
+              type="button"
+              onClick={toggleReadAloud}
+              className="flex items-center gap-1.5 hover:text-primary transition-colors"
+              aria-pressed={readAloud}
+              title={readAloud ? t('chat.readAloudOff') : t('chat.readAloudOn')}
+            >
+              {readAloud ? <Volume2 className="h-4 w-4 text-primary" /> : <VolumeX className="h-4 w-4" />}
+              <span className="hidden sm:inline">{readAloud ? t('chat.readingAloud') : t('chat.readAloud')}</span>
+            </button>
+          )}
         </motion.div>
       </motion.form>
     </div>
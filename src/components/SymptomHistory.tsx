@@ -5,10 +5,18 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { History, Trash2, ChevronDown, ChevronUp, Loader2, CheckCircle2, XCircle, Clock } from 'lucide-react';
+import { History, Trash2, ChevronDown, ChevronUp, Loader2, CheckCircle2, XCircle, Clock, MessageSquareText, AlertTriangle, Users } from 'lucide-react';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
-import type { Condition } from '@/lib/symptomAnalyzer';
+import type { Condition, FollowUpWindow, SelfCareStep, Specialist } from '@/lib/symptomAnalyzer';
+import { SessionTranscriptDialog } from '@/components/SessionTranscriptDialog';
+import { AnalysisGuidance } from '@/components/AnalysisGuidance';
+import { ConditionEvidence } from '@/components/ConditionEvidence';
+import { BodyMapSummary } from '@/components/BodyMap';
+import { useLocale } from '@/contexts/LocaleContext';
+import type { BodyMapMark } from '@/lib/bodyMap';
+import { PhotoThumbnails } from '@/components/SymptomPhotos';
+import { deleteSymptomPhotos } from '@/lib/symptomPhotos';
 
 export interface SymptomHistoryHandle {
   refresh: () => void;
@@ -23,15 +31,27 @@ interface SymptomHistoryEntry {
   created_at: string;
   is_cured: boolean;
   cured_at: string | null;
+  session_id: string | null;
+  red_flag_rule: string | null;
+  body_map: BodyMapMark[] | null;
+  photo_paths: string[] | null;
+  warning_signs: string[] | null;
+  specialist: Specialist | null;
+  follow_up_window: FollowUpWindow | null;
+  self_care: SelfCareStep[] | null;
+  // Name of the dependent the assessment was for; null when it was the user's own
+  dependent_name: string | null;
 }
 
 export const SymptomHistory = forwardRef<SymptomHistoryHandle>((_, ref) => {
   const { user } = useAuth();
+  const { t } = useLocale();
   const [history, setHistory] = useState<SymptomHistoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [togglingCuredId, setTogglingCuredId] = useState<string | null>(null);
+  const [transcriptSessionId, setTranscriptSessionId] = useState<string | null>(null);
 
   useImperativeHandle(ref, () => ({
     refresh: fetchHistory,
@@ -47,7 +67,7 @@ export const SymptomHistory = forwardRef<SymptomHistoryHandle>((_, ref) => {
     setLoading(true);
     const { data, error } = await supabase
       .from('symptom_history')
-      .select('*')
+      .select('*, dependents(full_name)')
       .order('created_at', { ascending: false })
       .limit(20);
 
@@ -55,12 +75,18 @@ export const SymptomHistory = forwardRef<SymptomHistoryHandle>((_, ref) => {
       console.error('Error fetching history:', error);
       toast.error('Failed to load symptom history');
     } else {
-      setHistory((data || []).map(item => ({
+      setHistory((data || []).map(({ dependents, ...item }) => ({
         ...item,
         possible_conditions: item.possible_conditions as unknown as Condition[],
         recommendations: item.recommendations as unknown as string[],
+        body_map: item.body_map as unknown as BodyMapMark[] | null,
+        warning_signs: item.warning_signs as unknown as string[] | null,
+        specialist: item.specialist as unknown as Specialist | null,
+        follow_up_window: item.follow_up_window as unknown as FollowUpWindow | null,
+        self_care: item.self_care as unknown as SelfCareStep[] | null,
         is_cured: item.is_cured || false,
         cured_at: item.cured_at || null,
+        dependent_name: dependents?.full_name ?? null,
       })));
     }
     setLoading(false);
@@ -89,7 +115,8 @@ export const SymptomHistory = forwardRef<SymptomHistoryHandle>((_, ref) => {
     setTogglingCuredId(null);
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (entry: SymptomHistoryEntry) => {
+    const { id } = entry;
     setDeletingId(id);
     const { error } = await supabase
       .from('symptom_history')
@@ -100,6 +127,7 @@ export const SymptomHistory = forwardRef<SymptomHistoryHandle>((_, ref) => {
       toast.error('Failed to delete entry');
     } else {
       setHistory(prev => prev.filter(h => h.id !== id));
+      deleteSymptomPhotos(entry.photo_paths ?? []);
       toast.success('Entry deleted');
     }
     setDeletingId(null);
@@ -240,6 +268,21 @@ export const SymptomHistory = forwardRef<SymptomHistoryHandle>((_, ref) => {
                         }`}>
                           {entry.urgency_level}
                         </span>
+                        {entry.red_flag_rule && (
+                          <span
+                            className="text-xs font-medium px-2.5 py-1 rounded-full bg-destructive/20 text-destructive flex items-center gap-1"
+                            title={`Red-flag rule: ${entry.red_flag_rule}`}
+                          >
+                            <AlertTriangle className="h-3 w-3" />
+                            Red flag
+                          </span>
+                        )}
+                        {entry.dependent_name && (
+                          <span className="text-xs font-medium px-2.5 py-1 rounded-full bg-health-blue/20 text-health-blue flex items-center gap-1">
+                            <Users className="h-3 w-3" />
+                            {t('subject.historyFor', { name: entry.dependent_name })}
+                          </span>
+                        )}
                         <span className="text-xs text-muted-foreground flex items-center gap-1">
                           <Clock className="h-3 w-3" />
                           {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
@@ -287,7 +330,7 @@ export const SymptomHistory = forwardRef<SymptomHistoryHandle>((_, ref) => {
                         <Button
                           variant="ghost"
                           size="icon"
-                          onClick={() => handleDelete(entry.id)}
+                          onClick={() => handleDelete(entry)}
                           disabled={deletingId === entry.id}
                           className="h-9 w-9 rounded-lg hover:bg-destructive/10 hover:text-destructive"
                         >
@@ -310,6 +353,24 @@ export const SymptomHistory = forwardRef<SymptomHistoryHandle>((_, ref) => {
                         exit={{ opacity: 0, height: 0 }}
                         transition={{ duration: 0.3 }}
                       >
+                        {entry.body_map && entry.body_map.length > 0 && (
+                          <div>
+                            <h4 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                              <span className="w-1 h-4 bg-destructive/60 rounded-full" />
+                              {t('bodyMap.location')}
+                            </h4>
+                            <BodyMapSummary marks={entry.body_map} />
+                          </div>
+                        )}
+                        {entry.photo_paths && entry.photo_paths.length > 0 && (
+                          <div>
+                            <h4 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                              <span className="w-1 h-4 bg-health-purple/60 rounded-full" />
+                              {t('photos.title')}
+                            </h4>
+                            <PhotoThumbnails paths={entry.photo_paths} />
+                          </div>
+                        )}
                         <div>
                           <h4 className="text-sm font-semibold mb-3 flex items-center gap-2">
                             <span className="w-1 h-4 bg-gradient-primary rounded-full" />
@@ -334,7 +395,29 @@ export const SymptomHistory = forwardRef<SymptomHistoryHandle>((_, ref) => {
                                 }`}>
                                   {condition.likelihood}
                                 </span>
+                                {condition.coding && (
+                                  <span
+                                    className="ml-2 text-xs font-mono px-2 py-0.5 rounded-full border border-border text-muted-foreground"
+                                    title={[
+                                      condition.coding.display,
+                                      condition.coding.snomed && t('coding.snomed', { code: condition.coding.snomed }),
+                                    ].filter(Boolean).join(' · ')}
+                                  >
+                                    {t('coding.icd10', { code: condition.coding.icd10 })}
+                                  </span>
+                                )}
+                                {condition.coding === null && (
+                                  <span
+                                    className="ml-2 text-xs px-2 py-0.5 rounded-full border border-dashed border-border text-muted-foreground"
+                                    title={t('coding.unmatchedHint')}
+                                  >
+                                    {t('coding.unmatched')}
+                                  </span>
+                                )}
                                 <p className="text-muted-foreground mt-1">{condition.description}</p>
+                                {condition.evidence && condition.evidence.length > 0 && (
+                                  <ConditionEvidence evidence={condition.evidence} className="mt-3" />
+                                )}
                               </motion.div>
                             ))}
                           </div>
@@ -363,6 +446,24 @@ export const SymptomHistory = forwardRef<SymptomHistoryHandle>((_, ref) => {
                             ))}
                           </ul>
                         </div>
+                        <AnalysisGuidance
+                          warningSigns={entry.warning_signs}
+                          specialist={entry.specialist}
+                          followUpWindow={entry.follow_up_window}
+                          selfCare={entry.self_care}
+                          compact
+                        />
+                        {entry.session_id && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setTranscriptSessionId(entry.session_id)}
+                            className="rounded-lg"
+                          >
+                            <MessageSquareText className="h-4 w-4 mr-2" />
+                            View full conversation
+                          </Button>
+                        )}
                         {entry.is_cured && entry.cured_at && (
                           <motion.div 
                             className="text-xs text-health-green flex items-center gap-2 bg-health-green/10 p-3 rounded-lg"
@@ -382,6 +483,10 @@ export const SymptomHistory = forwardRef<SymptomHistoryHandle>((_, ref) => {
           </div>
         </ScrollArea>
       </CardContent>
+      <SessionTranscriptDialog
+        sessionId={transcriptSessionId}
+        onOpenChange={(open) => !open && setTranscriptSessionId(null)}
+      />
     </Card>
   );
 });
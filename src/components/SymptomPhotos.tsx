@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { ImageOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useLocale } from '@/contexts/LocaleContext';
+import { fetchPhotoUrls } from '@/lib/symptomPhotos';
+
+interface PhotoThumbnailsProps {
+  paths: string[];
+  // Photos are numbered across the whole conversation, matching how the assistant cites them
+  firstNumber?: number;
+  className?: string;
+  thumbnailClassName?: string;
+}
+
+// Thumbnails of privately stored photos; each opens full size in a new tab
+export function PhotoThumbnails({ paths, firstNumber = 1, className, thumbnailClassName }: PhotoThumbnailsProps) {
+  const { t } = useLocale();
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const key = paths.join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPhotoUrls(key ? key.split('|') : []).then((result) => {
+      if (!cancelled) setUrls(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)}>
+      {paths.map((path, index) => {
+        const label = t('photos.photoNumber', { number: firstNumber + index });
+        const thumbnailClass = cn("w-20 h-20 rounded-lg object-cover border border-border/50", thumbnailClassName);
+        return urls[path] ? (
+          <a key={path} href={urls[path]} target="_blank" rel="noreferrer" title={label}>
+            <img src={urls[path]} alt={label} className={thumbnailClass} loading="lazy" />
+          </a>
+        ) : (
+          <div key={path} className={cn(thumbnailClass, "flex items-center justify-center bg-muted")} title={label}>
+            <ImageOff className="h-4 w-4 text-muted-foreground" />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
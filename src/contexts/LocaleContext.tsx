@@ -0,0 +1,85 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import type { Locale as DateLocale } from 'date-fns';
+import { useProfile } from '@/contexts/ProfileContext';
+import {
+  DATE_LOCALES,
+  detectBrowserLocale,
+  isLocale,
+  speechLanguage,
+  translate,
+  type Locale,
+  type TranslationKey,
+} from '@/i18n';
+
+const STORAGE_KEY = 'healthcheck-locale';
+
+interface LocaleContextType {
+  locale: Locale;
+  dateLocale: DateLocale;
+  // BCP 47 tag for the Web Speech APIs, e.g. "hi-IN"
+  speechLang: string;
+  setLocale: (locale: Locale) => Promise<void>;
+  t: (key: TranslationKey, values?: Record<string, string | number>) => string;
+}
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+function storedLocale(): Locale {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return isLocale(saved) ? saved : detectBrowserLocale();
+}
+
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const { profile, updateProfile } = useProfile();
+  const [locale, setLocaleState] = useState<Locale>(storedLocale);
+
+  // Once signed in, the preference saved on the profile wins over this browser's
+  useEffect(() => {
+    if (isLocale(profile?.locale)) {
+      setLocaleState(profile.locale);
+      localStorage.setItem(STORAGE_KEY, profile.locale);
+    }
+  }, [profile?.locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = async (next: Locale) => {
+    setLocaleState(next);
+    localStorage.setItem(STORAGE_KEY, next);
+    if (profile) {
+      const { error } = await updateProfile({ locale: next });
+      if (error) {
+        console.error('Failed to save language preference:', error);
+      }
+    }
+  };
+
+  const t = useCallback(
+    (key: TranslationKey, values?: Record<string, string | number>) => translate(locale, key, values),
+    [locale]
+  );
+
+  return (
+    <LocaleContext.Provider
+      value={{
+        locale,
+        dateLocale: DATE_LOCALES[locale],
+        speechLang: speechLanguage(locale),
+        setLocale,
+        t,
+      }}
+    >
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+export function useLocale() {
+  const context = useContext(LocaleContext);
+  if (context === undefined) {
+    throw new Error('useLocale must be used within a LocaleProvider');
+  }
+  return context;
+}
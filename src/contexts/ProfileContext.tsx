@@ -0,0 +1,99 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type Profile = Tables<'profiles'>;
+
+interface ProfileContextType {
+  profile: Profile | null;
+  loading: boolean;
+  // For accounts whose profile row was never saved at signup
+  createProfile: (values: Omit<TablesInsert<'profiles'>, 'user_id'>) => Promise<{ error: Error | null }>;
+  updateProfile: (changes: TablesUpdate<'profiles'>) => Promise<{ error: Error | null }>;
+  refreshProfile: () => Promise<void>;
+}
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+export function ProfileProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Which user the current profile belongs to, so a newly signed-in user isn't briefly shown
+  // as having no profile before their row has been fetched
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+
+  const refreshProfile = useCallback(async () => {
+    if (!user) {
+      setProfile(null);
+      setLoadedFor(null);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+    }
+    setProfile(data ?? null);
+    setLoadedFor(user.id);
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    refreshProfile();
+  }, [refreshProfile]);
+
+  const createProfile = async (values: Omit<TablesInsert<'profiles'>, 'user_id'>) => {
+    if (!user) return { error: new Error('Not signed in') };
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .insert({ ...values, user_id: user.id })
+      .select('*')
+      .single();
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+    setProfile(data);
+    return { error: null };
+  };
+
+  const updateProfile = async (changes: TablesUpdate<'profiles'>) => {
+    if (!user) return { error: new Error('Not signed in') };
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(changes)
+      .eq('user_id', user.id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+    if (data) setProfile(data);
+    return { error: null };
+  };
+
+  return (
+    <ProfileContext.Provider value={{ profile, loading: loading || (user !== null && loadedFor !== user.id), createProfile, updateProfile, refreshProfile }}>
+      {children}
+    </ProfileContext.Provider>
+  );
+}
+
+export function useProfile() {
+  const context = useContext(ProfileContext);
+  if (context === undefined) {
+    throw new Error('useProfile must be used within a ProfileProvider');
+  }
+  return context;
+}
@@ -0,0 +1,126 @@
+import * as React from "react";
+
+// The Web Speech API is not in TypeScript's DOM lib yet, so describe the parts we use
+interface SpeechRecognitionAlternativeLike {
+  transcript: string;
+}
+
+interface SpeechRecognitionResultLike {
+  isFinal: boolean;
+  0: SpeechRecognitionAlternativeLike;
+}
+
+interface SpeechRecognitionEventLike {
+  resultIndex: number;
+  results: ArrayLike<SpeechRecognitionResultLike>;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+function getRecognitionConstructor(): SpeechRecognitionConstructor | undefined {
+  if (typeof window === "undefined") return undefined;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+}
+
+interface UseSpeechRecognitionOptions {
+  lang?: string;
+  // Called with the full transcript so far (final and interim) while the user speaks
+  onTranscript: (transcript: string) => void;
+  onError?: (error: string) => void;
+}
+
+export function useSpeechRecognition({ lang, onTranscript, onError }: UseSpeechRecognitionOptions) {
+  const [isListening, setIsListening] = React.useState(false);
+  const recognitionRef = React.useRef<SpeechRecognitionLike | null>(null);
+  const callbacksRef = React.useRef({ onTranscript, onError });
+  callbacksRef.current = { onTranscript, onError };
+
+  const isSupported = Boolean(getRecognitionConstructor());
+
+  const start = React.useCallback(() => {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition || recognitionRef.current) return;
+
+    const recognition = new Recognition();
+    recognition.lang = lang ?? navigator.language;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    let finalTranscript = "";
+    recognition.onresult = (event) => {
+      let interimTranscript = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          finalTranscript += result[0].transcript;
+        } else {
+          interimTranscript += result[0].transcript;
+        }
+      }
+      callbacksRef.current.onTranscript((finalTranscript + interimTranscript).trim());
+    };
+    recognition.onerror = (event) => {
+      if (event.error !== "aborted" && event.error !== "no-speech") {
+        callbacksRef.current.onError?.(event.error);
+      }
+    };
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setIsListening(false);
+    };
+
+    recognitionRef.current = recognition;
+    setIsListening(true);
+    recognition.start();
+  }, [lang]);
+
+  const stop = React.useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  React.useEffect(() => {
+    return () => recognitionRef.current?.abort();
+  }, []);
+
+  return { isSupported, isListening, start, stop };
+}
+
+export function useSpeechSynthesis(lang?: string) {
+  const isSupported = typeof window !== "undefined" && "speechSynthesis" in window;
+
+  const speak = React.useCallback(
+    (text: string) => {
+      if (!isSupported || !text.trim()) return;
+      window.speechSynthesis.cancel();
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang ?? navigator.language;
+      utterance.rate = 0.95;
+      window.speechSynthesis.speak(utterance);
+    },
+    [isSupported, lang],
+  );
+
+  const cancel = React.useCallback(() => {
+    if (isSupported) window.speechSynthesis.cancel();
+  }, [isSupported]);
+
+  React.useEffect(() => cancel, [cancel]);
+
+  return { isSupported, speak, cancel };
+}
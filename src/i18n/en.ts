@@ -0,0 +1,344 @@
+// English is the source dictionary: every other locale must provide the same keys
+export const en = {
+  'language.label': 'Language',
+
+  'auth.tagline': 'Your intelligent health companion. Analyze symptoms, get insights, and find nearby healthcare facilities.',
+  'auth.personalizedTitle': 'Personalized Analysis',
+  'auth.personalizedBody': 'AI considers your health profile',
+  'auth.secureTitle': 'Secure & Private',
+  'auth.secureBody': 'Your health data stays protected',
+  'auth.welcome': 'Welcome',
+  'auth.subtitle': 'Sign in to access your health dashboard',
+  'auth.signIn': 'Sign In',
+  'auth.signUp': 'Sign Up',
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.signingIn': 'Signing in...',
+  'auth.fullName': 'Full Name *',
+  'auth.fullNamePlaceholder': 'John Doe',
+  'auth.dateOfBirth': 'Date of Birth *',
+  'auth.healthIssues': 'Existing Health Issues (optional)',
+  'auth.healthIssuesPlaceholder': 'e.g., Diabetes, Hypertension, Asthma, Allergies...',
+  'auth.healthIssuesHint': 'This helps us provide more accurate health recommendations',
+  'auth.creatingAccount': 'Creating account...',
+  'auth.createAccount': 'Create Account',
+  'auth.welcomeBack': 'Welcome back!',
+  'auth.nameRequired': 'Please enter your full name',
+  'auth.invalidAge': 'Please enter a valid age',
+  'auth.invalidDateOfBirth': 'Please enter a valid date of birth',
+  'auth.confirmEmail': 'Account created! Check {email} for a link to confirm your address.',
+  'auth.accountCreated': 'Account created successfully!',
+  'auth.sessionExpired': 'Your session has expired. Please sign in again.',
+
+  'home.tagline': 'Your Personal Health Assistant',
+  'home.signedOut': 'Signed out successfully',
+  'home.assistantTitle': 'Health Assistant',
+  'home.assistantDescription': 'Describe symptoms or upload a report for AI analysis',
+  'home.typeSymptoms': 'Type Symptoms',
+  'home.typeShort': 'Type',
+  'home.uploadReport': 'Upload Report',
+  'home.uploadShort': 'Upload',
+  'home.unfinishedTitle': 'You have an unfinished assessment',
+  'home.lastUpdated': 'Last updated {date}',
+  'home.resume': 'Resume',
+  'home.discard': 'Discard',
+  'home.emergencyToast': 'Your symptoms may need emergency care',
+  'home.analysisComplete': 'Analysis complete!',
+  'home.analysisFailed': 'Failed to analyze symptoms. Please try again.',
+  'home.analysisIncomplete': 'The analysis came back incomplete. Please try again.',
+  'home.resultsTitle': 'Analysis Results',
+  'home.resultsDescription': 'Based on your described symptoms',
+  'home.possibleConditions': 'Possible Conditions',
+  'home.recommendations': 'Recommendations',
+  'home.urgencyLevel': 'Urgency Level: {level}',
+  'home.disclaimerTitle': 'Disclaimer:',
+  'home.disclaimer': 'This AI analysis is for informational purposes only and should not replace professional medical advice. Always consult a healthcare provider for proper diagnosis and treatment.',
+  'home.hospitalsTitle': 'Nearby Hospitals',
+  'home.hospitalsDescription': 'Find healthcare facilities near your location',
+  'home.findingHospitals': 'Finding hospitals...',
+  'home.findHospitals': 'Find Nearby Hospitals',
+  'home.noHospitals': 'No hospitals found nearby',
+  'home.hospitalsFound': 'Found {count} nearby hospitals',
+  'home.hospitalsFailed': 'Failed to find hospitals',
+
+  // Display labels for the canonical enum values returned by the analysis
+  'likelihood.High': 'High likelihood',
+  'likelihood.Medium': 'Medium likelihood',
+  'likelihood.Low': 'Low likelihood',
+  'urgency.Emergency': 'Emergency',
+  'urgency.Urgent': 'Urgent',
+  'urgency.Non-urgent': 'Non-urgent',
+  'urgencyAdvice.Emergency': 'Please seek immediate medical attention!',
+  'urgencyAdvice.Urgent': 'Consider seeing a doctor within 24-48 hours.',
+  'urgencyAdvice.Non-urgent': 'Monitor your symptoms and rest. See a doctor if symptoms worsen.',
+
+  // Emergency screen; rule texts are keyed by the server's red-flag ruleId
+  'emergency.title': 'This may be a medical emergency',
+  'emergency.crisisTitle': 'Please reach out for support now',
+  'emergency.call': 'Call {number}',
+  'emergency.nearestRoom': 'Nearest emergency room',
+  'emergency.noHospitals': 'No hospitals found nearby. Call emergency services.',
+  'emergency.footer': 'This warning was triggered by what you described, before any AI analysis. If you are unsure, it is always safer to call.',
+  'emergency.rule.chest_pain_radiating.label': 'Chest pain spreading to the arm, jaw, neck or back',
+  'emergency.rule.chest_pain_radiating.advice': 'Chest pain that spreads to your arm, jaw, neck or back can be a sign of a heart attack. Call emergency services now. Do not drive yourself.',
+  'emergency.rule.stroke_fast.label': 'Possible stroke (face, arm or speech changes)',
+  'emergency.rule.stroke_fast.advice': 'Face drooping, arm weakness or speech difficulty can be signs of a stroke. Call emergency services immediately and note the time the symptoms started.',
+  'emergency.rule.anaphylaxis.label': 'Possible severe allergic reaction',
+  'emergency.rule.anaphylaxis.advice': 'Swelling of the throat, tongue or lips with trouble breathing after an allergen can be anaphylaxis. Use an epinephrine auto-injector if you have one and call emergency services now.',
+  'emergency.rule.anaphylaxis_named.label': 'Anaphylaxis',
+  'emergency.rule.anaphylaxis_named.advice': 'Anaphylaxis is life-threatening. Use an epinephrine auto-injector if you have one and call emergency services now.',
+  'emergency.rule.severe_breathing.label': 'Severe difficulty breathing',
+  'emergency.rule.severe_breathing.advice': 'Severe difficulty breathing needs immediate medical help. Call emergency services now.',
+  'emergency.rule.severe_bleeding.label': 'Severe or uncontrolled bleeding',
+  'emergency.rule.severe_bleeding.advice': 'Heavy or uncontrolled bleeding needs emergency care. Apply firm pressure to any wound and call emergency services now.',
+  'emergency.rule.loss_of_consciousness.label': 'Loss of consciousness or seizure',
+  'emergency.rule.loss_of_consciousness.advice': 'Fainting, unresponsiveness or a seizure should be assessed urgently. Call emergency services, especially if this is the first time or it lasted more than a few minutes.',
+  'emergency.rule.suicidal_ideation.label': 'Thoughts of suicide or self-harm',
+  'emergency.rule.suicidal_ideation.advice': "You don't have to go through this alone. Please reach out to a crisis line or emergency services right now - talking to someone can help.",
+
+  'chat.welcomeTitle': 'Welcome to Your Health Assessment',
+  'chat.welcomeSubtitle': "I'm here to help understand your symptoms",
+  'chat.welcomeBody': "Tell me what's bothering you in as much detail as you can. I'll ask a few personalized follow-up questions based on your health profile and history, then provide a comprehensive analysis.",
+  'chat.thinking': 'Thinking...',
+  'chat.analyzing': 'Analyzing your symptoms...',
+  'chat.analyzingDetail': 'Creating a personalized health assessment',
+  'chat.placeholderListening': 'Listening... release to stop',
+  'chat.placeholderAnswer': 'Type your answer...',
+  'chat.placeholderStart': "Describe your symptoms... (e.g., 'I have a headache and slight fever for 2 days')",
+  'chat.holdToTalk': 'Hold to talk',
+  'chat.stop': 'Stop',
+  'chat.hintStarted': 'Answer the questions for a comprehensive analysis',
+  'chat.hintStart': 'Your health profile helps personalize the assessment',
+  'chat.readAloud': 'Read aloud',
+  'chat.readingAloud': 'Reading aloud',
+  'chat.readAloudOn': 'Read questions aloud',
+  'chat.readAloudOff': 'Stop reading questions aloud',
+  'chat.error': 'Sorry, I encountered an error. Please try again.',
+  'chat.micDenied': 'Microphone access was denied',
+  'chat.voiceStopped': 'Voice input stopped unexpectedly',
+  'chat.preferenceFailed': 'Failed to save your preference',
+  'chat.saveFailed': "Your answers couldn't be saved. You can keep going, but this assessment may not resume later.",
+  'chat.editAnswer': 'Edit this answer',
+  'chat.retractAnswer': 'Retract this answer',
+  'chat.saveEdit': 'Update answer',
+  'chat.cancelEdit': 'Cancel',
+  'chat.edited': 'Edited',
+
+  'coverage.title': 'Assessment progress',
+  'coverage.count': '{covered} of {total} covered',
+  'coverage.skip': 'Skip to analysis',
+  'coverage.skipHint': "That's enough for an analysis. Answering more makes it more accurate.",
+  'coverage.onset': 'Onset',
+  'coverage.duration': 'Duration',
+  'coverage.severity': 'Severity',
+  'coverage.progression': 'Progression',
+  'coverage.associated_symptoms': 'Other symptoms',
+  'coverage.triggers': 'Triggers',
+  'coverage.treatments': 'Treatments tried',
+  'coverage.impact': 'Daily impact',
+
+  'subject.title': 'Who is this assessment for?',
+  'subject.subtitle': 'Check symptoms for yourself or someone you care for',
+  'subject.myself': 'Myself',
+  'subject.years': '{age} years old',
+  'subject.add': 'Add someone',
+  'subject.name': 'Full name *',
+  'subject.age': 'Age *',
+  'subject.relationship': 'Relationship',
+  'subject.relationshipPlaceholder': 'e.g. daughter, father',
+  'subject.healthIssues': 'Existing health issues (optional)',
+  'subject.save': 'Save',
+  'subject.cancel': 'Cancel',
+  'subject.nameRequired': 'Please enter their full name',
+  'subject.added': '{name} added',
+  'subject.addFailed': 'Failed to add this person',
+  'subject.remove': 'Remove {name}',
+  'subject.removeTitle': 'Remove {name}?',
+  'subject.removeBody': "Their symptom history will be deleted too. This can't be undone.",
+  'subject.removed': '{name} removed',
+  'subject.removeFailed': 'Failed to remove this person',
+  'subject.historyFor': 'For {name}',
+
+  'bodyMap.title': 'Where do you feel it?',
+  'bodyMap.hint': 'Tap the affected areas, then set how strong each one feels.',
+  'bodyMap.front': 'Front',
+  'bodyMap.back': 'Back',
+  'bodyMap.toggle': 'Mark on body map',
+  'bodyMap.remove': 'Remove {region}',
+  'bodyMap.empty': 'No areas marked yet',
+  'bodyMap.attached': "Here's where I feel it",
+  'bodyMap.location': 'Where it was felt',
+
+  // Body-map region names, keyed by BodyRegionId
+  'bodyRegion.head': 'Head',
+  'bodyRegion.neck': 'Neck',
+  'bodyRegion.left_shoulder': 'Left shoulder',
+  'bodyRegion.right_shoulder': 'Right shoulder',
+  'bodyRegion.left_chest': 'Left chest',
+  'bodyRegion.right_chest': 'Right chest',
+  'bodyRegion.upper_abdomen': 'Upper abdomen',
+  'bodyRegion.lower_left_abdomen': 'Lower left abdomen',
+  'bodyRegion.lower_right_abdomen': 'Lower right abdomen',
+  'bodyRegion.pelvis': 'Pelvis and groin',
+  'bodyRegion.left_shoulder_blade': 'Left shoulder blade',
+  'bodyRegion.right_shoulder_blade': 'Right shoulder blade',
+  'bodyRegion.middle_back': 'Middle back',
+  'bodyRegion.lower_back': 'Lower back',
+  'bodyRegion.buttocks': 'Buttocks',
+  'bodyRegion.left_upper_arm': 'Left upper arm',
+  'bodyRegion.right_upper_arm': 'Right upper arm',
+  'bodyRegion.left_forearm': 'Left forearm',
+  'bodyRegion.right_forearm': 'Right forearm',
+  'bodyRegion.left_hand': 'Left hand',
+  'bodyRegion.right_hand': 'Right hand',
+  'bodyRegion.left_thigh': 'Left thigh',
+  'bodyRegion.right_thigh': 'Right thigh',
+  'bodyRegion.left_knee': 'Left knee',
+  'bodyRegion.right_knee': 'Right knee',
+  'bodyRegion.left_lower_leg': 'Left lower leg',
+  'bodyRegion.right_lower_leg': 'Right lower leg',
+  'bodyRegion.left_foot': 'Left foot',
+  'bodyRegion.right_foot': 'Right foot',
+
+  'photos.attach': 'Attach a photo',
+  'photos.attached': "Here's a photo of it",
+  'photos.remove': 'Remove photo',
+  'photos.limit': 'You can attach up to {count} photos per message',
+  'photos.failed': "Couldn't attach that image",
+  'photos.uploading': 'Attaching photo...',
+  'photos.title': 'Photos',
+  'photos.photoNumber': 'Photo {number}',
+
+  'guidance.warningSigns': 'Get help straight away if you notice',
+  'guidance.specialist': 'Who to see',
+  'guidance.followUpTitle': 'When to see a doctor',
+  'guidance.followUp': "See a doctor if you're not feeling better within {window}.",
+  'guidance.selfCare': 'Self-care plan',
+  'guidance.timeframe.now': 'Right now',
+  'guidance.timeframe.next_24_hours': 'Next 24 hours',
+  'guidance.timeframe.next_few_days': 'Next few days',
+  'guidance.timeframe.ongoing': 'Ongoing',
+  'guidance.unit.hours': '{count} hours',
+  'guidance.unit.hours.one': '{count} hour',
+  'guidance.unit.days': '{count} days',
+  'guidance.unit.days.one': '{count} day',
+  'guidance.unit.weeks': '{count} weeks',
+  'guidance.unit.weeks.one': '{count} week',
+
+  'evidence.show': 'Why this was suggested',
+  'evidence.hide': 'Hide evidence',
+  'evidence.supports': 'Supports',
+  'evidence.against': 'Argues against',
+  'evidence.kind.turn': 'Your answer',
+  'evidence.kind.profile': 'Profile',
+  'evidence.kind.history': 'Past assessment',
+  'evidence.kind.ongoing': 'Ongoing symptom',
+  'evidence.none': 'No specific evidence was cited',
+
+  'coding.icd10': 'ICD-10 {code}',
+  'coding.snomed': 'SNOMED CT {code}',
+  'coding.unmatched': 'Uncoded',
+  'coding.unmatchedHint': 'No standard code matched this name; it has been flagged for review',
+
+  'quota.analysesLeft': '{count} of {max} assessments left',
+  'quota.resets': 'resets at {time}',
+  'quota.fewQuestions': 'Only {count} follow-up questions left until {time}. An assessment can take up to {max}, so it may stop early.',
+  'quota.noQuestions': "You've used all your follow-up questions until {time}.",
+  'quota.noAnalyses': "You've used all your assessments until {time}.",
+  'quota.reached': "You've reached your usage limit. You can continue after {time}.",
+
+  'activity.open': 'AI activity',
+  'activity.title': 'AI activity',
+  'activity.description': 'Every request sent to the AI on your behalf, most recent first.',
+  'activity.retention': 'Records are kept for {days} days.',
+  'activity.empty': 'No AI requests have been made for you yet.',
+  'activity.fn.symptom-followup': 'Follow-up question',
+  'activity.fn.analyze-symptoms': 'Symptom analysis',
+  'activity.fn.analyze-report': 'Report analysis',
+  'activity.outcome.success': 'Completed',
+  'activity.outcome.cancelled': 'Stopped early',
+  'activity.outcome.failed': 'Failed ({reason})',
+  'activity.prompt': 'prompt {version}',
+  'activity.tokens': '{count} tokens',
+  'activity.latency': '{seconds}s',
+  'activity.attempts': '{count} attempts',
+  'activity.sent': 'Sent',
+  'activity.received': 'Received',
+  'activity.noOutput': 'No response was received',
+  'activity.role.system': 'Instructions',
+  'activity.role.user': 'Your details',
+  'activity.role.assistant': 'Assistant',
+  'activity.photo': 'photo',
+  'activity.hash': 'Input fingerprint',
+
+  'health.edit': 'My health details',
+  'health.editFor': 'Health details for {name}',
+  'health.description': 'Conditions, medications, allergies and body measurements are shared with the assistant so its suggestions take them into account.',
+  'health.sex': 'Sex',
+  'health.sex.female': 'Female',
+  'health.sex.male': 'Male',
+  'health.sex.intersex': 'Intersex',
+  'health.sexUnset': 'Not specified',
+  'health.height': 'Height (cm)',
+  'health.weight': 'Weight (kg)',
+  'health.saveDetails': 'Save details',
+  'health.saved': 'Health details saved',
+  'health.saveFailed': 'Could not save health details',
+  'health.invalidHeight': 'Please enter a height between 1 and 299 cm',
+  'health.invalidWeight': 'Please enter a weight between 1 and 699 kg',
+  'health.conditions': 'Diagnosed conditions',
+  'health.conditionName': 'Condition, e.g. asthma',
+  'health.conditionYear': 'Year diagnosed',
+  'health.medications': 'Current medications',
+  'health.medicationName': 'Medication',
+  'health.dose': 'Dose',
+  'health.frequency': 'How often',
+  'health.startedOn': 'Started on',
+  'health.allergies': 'Allergies',
+  'health.allergen': 'Allergen, e.g. penicillin',
+  'health.reaction': 'Reaction',
+  'health.severity': 'Severity',
+  'health.severity.mild': 'Mild',
+  'health.severity.moderate': 'Moderate',
+  'health.severity.severe': 'Severe',
+  'health.add': 'Add',
+  'health.remove': 'Remove {name}',
+  'health.none': 'None recorded',
+  'health.addFailed': 'Could not add that entry',
+  'health.removeFailed': 'Could not remove that entry',
+
+  'profile.open': 'Profile and account',
+  'profile.back': 'Back',
+  'profile.title': 'Your profile',
+  'profile.subtitle': 'Manage the details the assistant uses and your sign-in settings.',
+  'profile.details': 'Personal details',
+  'profile.detailsDescription': 'Your name, age and any health notes in your own words.',
+  'profile.missing': "Your profile hasn't been saved yet. Fill it in so the assistant can personalize its guidance.",
+  'profile.save': 'Save profile',
+  'profile.complete': 'Save and continue',
+  'profile.completed': 'Profile complete',
+  'profile.completeTitle': 'Finish setting up your profile',
+  'profile.completeSubtitle': 'We need a few details before the assistant can give you personalized guidance.',
+  'profile.signOut': 'Sign out',
+  'profile.saved': 'Profile saved',
+  'profile.saveFailed': 'Could not save your profile',
+  'profile.healthIssuesTooLong': 'Please keep this under 2000 characters',
+  'profile.aiView': 'What the assistant sees',
+  'profile.aiViewDescription': 'This is the patient profile sent along with your symptoms, reports and follow-up questions.',
+  'profile.email': 'Email address',
+  'profile.currentEmail': 'You sign in as {email}.',
+  'profile.newEmail': 'New email address',
+  'profile.changeEmail': 'Change email',
+  'profile.invalidEmail': 'Please enter a valid email address',
+  'profile.sameEmail': 'That is already your email address',
+  'profile.emailConfirmationSent': 'Check {email} for a link to confirm the change',
+  'profile.password': 'Password',
+  'profile.newPassword': 'New password',
+  'profile.confirmPassword': 'Confirm new password',
+  'profile.changePassword': 'Change password',
+  'profile.passwordTooShort': 'Passwords need at least 6 characters',
+  'profile.passwordMismatch': "Passwords don't match",
+  'profile.passwordChanged': 'Password changed',
+};
+
+export type TranslationKey = keyof typeof en;
@@ -0,0 +1,340 @@
+import type { TranslationKey } from './en';
+
+export const es: Record<TranslationKey, string> = {
+  'language.label': 'Idioma',
+
+  'auth.tagline': 'Tu compañero de salud inteligente. Analiza síntomas, obtén información y encuentra centros de salud cercanos.',
+  'auth.personalizedTitle': 'Análisis personalizado',
+  'auth.personalizedBody': 'La IA tiene en cuenta tu perfil de salud',
+  'auth.secureTitle': 'Seguro y privado',
+  'auth.secureBody': 'Tus datos de salud permanecen protegidos',
+  'auth.welcome': 'Bienvenido',
+  'auth.subtitle': 'Inicia sesión para acceder a tu panel de salud',
+  'auth.signIn': 'Iniciar sesión',
+  'auth.signUp': 'Registrarse',
+  'auth.email': 'Correo electrónico',
+  'auth.password': 'Contraseña',
+  'auth.signingIn': 'Iniciando sesión...',
+  'auth.fullName': 'Nombre completo *',
+  'auth.fullNamePlaceholder': 'Juan Pérez',
+  'auth.dateOfBirth': 'Fecha de nacimiento *',
+  'auth.healthIssues': 'Problemas de salud existentes (opcional)',
+  'auth.healthIssuesPlaceholder': 'p. ej., diabetes, hipertensión, asma, alergias...',
+  'auth.healthIssuesHint': 'Esto nos ayuda a darte recomendaciones de salud más precisas',
+  'auth.creatingAccount': 'Creando cuenta...',
+  'auth.createAccount': 'Crear cuenta',
+  'auth.welcomeBack': '¡Bienvenido de nuevo!',
+  'auth.nameRequired': 'Introduce tu nombre completo',
+  'auth.invalidAge': 'Introduce una edad válida',
+  'auth.invalidDateOfBirth': 'Introduce una fecha de nacimiento válida',
+  'auth.confirmEmail': '¡Cuenta creada! Revisa {email} para confirmar tu dirección.',
+  'auth.accountCreated': '¡Cuenta creada correctamente!',
+  'auth.sessionExpired': 'Tu sesión ha caducado. Vuelve a iniciar sesión.',
+
+  'home.tagline': 'Tu asistente personal de salud',
+  'home.signedOut': 'Sesión cerrada correctamente',
+  'home.assistantTitle': 'Asistente de salud',
+  'home.assistantDescription': 'Describe tus síntomas o sube un informe para que la IA lo analice',
+  'home.typeSymptoms': 'Escribir síntomas',
+  'home.typeShort': 'Escribir',
+  'home.uploadReport': 'Subir informe',
+  'home.uploadShort': 'Subir',
+  'home.unfinishedTitle': 'Tienes una evaluación sin terminar',
+  'home.lastUpdated': 'Última actualización {date}',
+  'home.resume': 'Continuar',
+  'home.discard': 'Descartar',
+  'home.emergencyToast': 'Tus síntomas podrían requerir atención de urgencia',
+  'home.analysisComplete': '¡Análisis completado!',
+  'home.analysisFailed': 'No se pudieron analizar los síntomas. Inténtalo de nuevo.',
+  'home.analysisIncomplete': 'El análisis llegó incompleto. Inténtalo de nuevo.',
+  'home.resultsTitle': 'Resultados del análisis',
+  'home.resultsDescription': 'Según los síntomas que describiste',
+  'home.possibleConditions': 'Posibles afecciones',
+  'home.recommendations': 'Recomendaciones',
+  'home.urgencyLevel': 'Nivel de urgencia: {level}',
+  'home.disclaimerTitle': 'Aviso:',
+  'home.disclaimer': 'Este análisis de IA es solo informativo y no sustituye el consejo médico profesional. Consulta siempre a un profesional sanitario para obtener un diagnóstico y tratamiento adecuados.',
+  'home.hospitalsTitle': 'Hospitales cercanos',
+  'home.hospitalsDescription': 'Encuentra centros de salud cerca de tu ubicación',
+  'home.findingHospitals': 'Buscando hospitales...',
+  'home.findHospitals': 'Buscar hospitales cercanos',
+  'home.noHospitals': 'No se encontraron hospitales cercanos',
+  'home.hospitalsFound': 'Se encontraron {count} hospitales cercanos',
+  'home.hospitalsFailed': 'No se pudieron buscar hospitales',
+
+  'likelihood.High': 'Probabilidad alta',
+  'likelihood.Medium': 'Probabilidad media',
+  'likelihood.Low': 'Probabilidad baja',
+  'urgency.Emergency': 'Emergencia',
+  'urgency.Urgent': 'Urgente',
+  'urgency.Non-urgent': 'No urgente',
+  'urgencyAdvice.Emergency': '¡Busca atención médica inmediata!',
+  'urgencyAdvice.Urgent': 'Considera ver a un médico en las próximas 24-48 horas.',
+  'urgencyAdvice.Non-urgent': 'Vigila tus síntomas y descansa. Consulta a un médico si empeoran.',
+
+  'emergency.title': 'Esto puede ser una emergencia médica',
+  'emergency.crisisTitle': 'Por favor, busca apoyo ahora',
+  'emergency.call': 'Llamar al {number}',
+  'emergency.nearestRoom': 'Urgencias más cercanas',
+  'emergency.noHospitals': 'No se encontraron hospitales cercanos. Llama a los servicios de emergencia.',
+  'emergency.footer': 'Este aviso se activó por lo que describiste, antes de cualquier análisis de IA. Si tienes dudas, siempre es más seguro llamar.',
+  'emergency.rule.chest_pain_radiating.label': 'Dolor en el pecho que se extiende al brazo, la mandíbula, el cuello o la espalda',
+  'emergency.rule.chest_pain_radiating.advice': 'El dolor en el pecho que se extiende al brazo, la mandíbula, el cuello o la espalda puede ser señal de un infarto. Llama ahora a los servicios de emergencia. No conduzcas tú mismo.',
+  'emergency.rule.stroke_fast.label': 'Posible ictus (cambios en la cara, el brazo o el habla)',
+  'emergency.rule.stroke_fast.advice': 'La cara caída, la debilidad en un brazo o la dificultad para hablar pueden ser señales de un ictus. Llama de inmediato a los servicios de emergencia y anota la hora en que empezaron los síntomas.',
+  'emergency.rule.anaphylaxis.label': 'Posible reacción alérgica grave',
+  'emergency.rule.anaphylaxis.advice': 'La hinchazón de la garganta, la lengua o los labios con dificultad para respirar tras un alérgeno puede ser anafilaxia. Usa un autoinyector de epinefrina si tienes uno y llama ahora a los servicios de emergencia.',
+  'emergency.rule.anaphylaxis_named.label': 'Anafilaxia',
+  'emergency.rule.anaphylaxis_named.advice': 'La anafilaxia pone en peligro la vida. Usa un autoinyector de epinefrina si tienes uno y llama ahora a los servicios de emergencia.',
+  'emergency.rule.severe_breathing.label': 'Dificultad grave para respirar',
+  'emergency.rule.severe_breathing.advice': 'La dificultad grave para respirar necesita ayuda médica inmediata. Llama ahora a los servicios de emergencia.',
+  'emergency.rule.severe_bleeding.label': 'Sangrado grave o incontrolable',
+  'emergency.rule.severe_bleeding.advice': 'Un sangrado abundante o incontrolable necesita atención de urgencia. Presiona con firmeza cualquier herida y llama ahora a los servicios de emergencia.',
+  'emergency.rule.loss_of_consciousness.label': 'Pérdida de conocimiento o convulsión',
+  'emergency.rule.loss_of_consciousness.advice': 'Un desmayo, no responder o una convulsión deben evaluarse con urgencia. Llama a los servicios de emergencia, sobre todo si es la primera vez o duró más de unos minutos.',
+  'emergency.rule.suicidal_ideation.label': 'Pensamientos de suicidio o de hacerse daño',
+  'emergency.rule.suicidal_ideation.advice': 'No tienes que pasar por esto solo. Por favor, contacta ahora con una línea de crisis o con los servicios de emergencia: hablar con alguien puede ayudar.',
+
+  'chat.welcomeTitle': 'Bienvenido a tu evaluación de salud',
+  'chat.welcomeSubtitle': 'Estoy aquí para ayudarte a entender tus síntomas',
+  'chat.welcomeBody': 'Cuéntame con el mayor detalle posible qué te ocurre. Te haré algunas preguntas personalizadas según tu perfil e historial de salud y después te daré un análisis completo.',
+  'chat.thinking': 'Pensando...',
+  'chat.analyzing': 'Analizando tus síntomas...',
+  'chat.analyzingDetail': 'Creando una evaluación de salud personalizada',
+  'chat.placeholderListening': 'Escuchando... suelta para terminar',
+  'chat.placeholderAnswer': 'Escribe tu respuesta...',
+  'chat.placeholderStart': "Describe tus síntomas... (p. ej., 'Tengo dolor de cabeza y algo de fiebre desde hace 2 días')",
+  'chat.holdToTalk': 'Mantén pulsado para hablar',
+  'chat.stop': 'Detener',
+  'chat.hintStarted': 'Responde a las preguntas para obtener un análisis completo',
+  'chat.hintStart': 'Tu perfil de salud ayuda a personalizar la evaluación',
+  'chat.readAloud': 'Leer en voz alta',
+  'chat.readingAloud': 'Leyendo en voz alta',
+  'chat.readAloudOn': 'Leer las preguntas en voz alta',
+  'chat.readAloudOff': 'Dejar de leer las preguntas en voz alta',
+  'chat.error': 'Lo siento, ha ocurrido un error. Inténtalo de nuevo.',
+  'chat.micDenied': 'Se denegó el acceso al micrófono',
+  'chat.voiceStopped': 'La entrada de voz se detuvo inesperadamente',
+  'chat.preferenceFailed': 'No se pudo guardar tu preferencia',
+  'chat.saveFailed': 'No se pudieron guardar tus respuestas. Puedes continuar, pero es posible que esta evaluación no se pueda retomar más tarde.',
+  'chat.editAnswer': 'Editar esta respuesta',
+  'chat.retractAnswer': 'Retirar esta respuesta',
+  'chat.saveEdit': 'Actualizar respuesta',
+  'chat.cancelEdit': 'Cancelar',
+  'chat.edited': 'Editado',
+
+  'coverage.title': 'Progreso de la evaluación',
+  'coverage.count': '{covered} de {total} cubiertos',
+  'coverage.skip': 'Pasar al análisis',
+  'coverage.skipHint': 'Ya hay suficiente para un análisis. Si respondes más, será más preciso.',
+  'coverage.onset': 'Inicio',
+  'coverage.duration': 'Duración',
+  'coverage.severity': 'Intensidad',
+  'coverage.progression': 'Evolución',
+  'coverage.associated_symptoms': 'Otros síntomas',
+  'coverage.triggers': 'Desencadenantes',
+  'coverage.treatments': 'Tratamientos probados',
+  'coverage.impact': 'Impacto diario',
+
+  'subject.title': '¿Para quién es esta evaluación?',
+  'subject.subtitle': 'Revisa síntomas tuyos o de alguien a quien cuidas',
+  'subject.myself': 'Yo',
+  'subject.years': '{age} años',
+  'subject.add': 'Añadir a alguien',
+  'subject.name': 'Nombre completo *',
+  'subject.age': 'Edad *',
+  'subject.relationship': 'Parentesco',
+  'subject.relationshipPlaceholder': 'p. ej., hija, padre',
+  'subject.healthIssues': 'Problemas de salud existentes (opcional)',
+  'subject.save': 'Guardar',
+  'subject.cancel': 'Cancelar',
+  'subject.nameRequired': 'Introduce su nombre completo',
+  'subject.added': 'Se añadió a {name}',
+  'subject.addFailed': 'No se pudo añadir a esta persona',
+  'subject.remove': 'Quitar a {name}',
+  'subject.removeTitle': '¿Quitar a {name}?',
+  'subject.removeBody': 'También se eliminará su historial de síntomas. Esta acción no se puede deshacer.',
+  'subject.removed': 'Se quitó a {name}',
+  'subject.removeFailed': 'No se pudo quitar a esta persona',
+  'subject.historyFor': 'Para {name}',
+
+  'bodyMap.title': '¿Dónde lo sientes?',
+  'bodyMap.hint': 'Toca las zonas afectadas y luego indica la intensidad de cada una.',
+  'bodyMap.front': 'Delante',
+  'bodyMap.back': 'Detrás',
+  'bodyMap.toggle': 'Marcar en el mapa corporal',
+  'bodyMap.remove': 'Quitar {region}',
+  'bodyMap.empty': 'Aún no has marcado ninguna zona',
+  'bodyMap.attached': 'Aquí es donde lo siento',
+  'bodyMap.location': 'Dónde se sentía',
+
+  'bodyRegion.head': 'Cabeza',
+  'bodyRegion.neck': 'Cuello',
+  'bodyRegion.left_shoulder': 'Hombro izquierdo',
+  'bodyRegion.right_shoulder': 'Hombro derecho',
+  'bodyRegion.left_chest': 'Lado izquierdo del pecho',
+  'bodyRegion.right_chest': 'Lado derecho del pecho',
+  'bodyRegion.upper_abdomen': 'Parte alta del abdomen',
+  'bodyRegion.lower_left_abdomen': 'Parte baja izquierda del abdomen',
+  'bodyRegion.lower_right_abdomen': 'Parte baja derecha del abdomen',
+  'bodyRegion.pelvis': 'Pelvis e ingle',
+  'bodyRegion.left_shoulder_blade': 'Omóplato izquierdo',
+  'bodyRegion.right_shoulder_blade': 'Omóplato derecho',
+  'bodyRegion.middle_back': 'Mitad de la espalda',
+  'bodyRegion.lower_back': 'Parte baja de la espalda',
+  'bodyRegion.buttocks': 'Glúteos',
+  'bodyRegion.left_upper_arm': 'Brazo izquierdo',
+  'bodyRegion.right_upper_arm': 'Brazo derecho',
+  'bodyRegion.left_forearm': 'Antebrazo izquierdo',
+  'bodyRegion.right_forearm': 'Antebrazo derecho',
+  'bodyRegion.left_hand': 'Mano izquierda',
+  'bodyRegion.right_hand': 'Mano derecha',
+  'bodyRegion.left_thigh': 'Muslo izquierdo',
+  'bodyRegion.right_thigh': 'Muslo derecho',
+  'bodyRegion.left_knee': 'Rodilla izquierda',
+  'bodyRegion.right_knee': 'Rodilla derecha',
+  'bodyRegion.left_lower_leg': 'Pierna izquierda',
+  'bodyRegion.right_lower_leg': 'Pierna derecha',
+  'bodyRegion.left_foot': 'Pie izquierdo',
+  'bodyRegion.right_foot': 'Pie derecho',
+
+  'photos.attach': 'Adjuntar una foto',
+  'photos.attached': 'Aquí tienes una foto',
+  'photos.remove': 'Quitar foto',
+  'photos.limit': 'Puedes adjuntar hasta {count} fotos por mensaje',
+  'photos.failed': 'No se pudo adjuntar la imagen',
+  'photos.uploading': 'Adjuntando foto...',
+  'photos.title': 'Fotos',
+  'photos.photoNumber': 'Foto {number}',
+
+  'guidance.warningSigns': 'Busca ayuda de inmediato si notas',
+  'guidance.specialist': 'A quién acudir',
+  'guidance.followUpTitle': 'Cuándo ver a un médico',
+  'guidance.followUp': 'Consulta a un médico si no te sientes mejor en {window}.',
+  'guidance.selfCare': 'Plan de autocuidado',
+  'guidance.timeframe.now': 'Ahora mismo',
+  'guidance.timeframe.next_24_hours': 'Próximas 24 horas',
+  'guidance.timeframe.next_few_days': 'Próximos días',
+  'guidance.timeframe.ongoing': 'De forma continua',
+  'guidance.unit.hours': '{count} horas',
+  'guidance.unit.hours.one': '{count} hora',
+  'guidance.unit.days': '{count} días',
+  'guidance.unit.days.one': '{count} día',
+  'guidance.unit.weeks': '{count} semanas',
+  'guidance.unit.weeks.one': '{count} semana',
+
+  'evidence.show': 'Por qué se sugirió',
+  'evidence.hide': 'Ocultar evidencia',
+  'evidence.supports': 'A favor',
+  'evidence.against': 'En contra',
+  'evidence.kind.turn': 'Tu respuesta',
+  'evidence.kind.profile': 'Perfil',
+  'evidence.kind.history': 'Evaluación anterior',
+  'evidence.kind.ongoing': 'Síntoma continuo',
+  'evidence.none': 'No se citó ninguna evidencia concreta',
+
+  'coding.icd10': 'CIE-10 {code}',
+  'coding.snomed': 'SNOMED CT {code}',
+  'coding.unmatched': 'Sin código',
+  'coding.unmatchedHint': 'Ningún código estándar coincide con este nombre; se ha marcado para revisión',
+
+  'quota.analysesLeft': 'Te quedan {count} de {max} evaluaciones',
+  'quota.resets': 'se renueva a las {time}',
+  'quota.fewQuestions': 'Solo te quedan {count} preguntas de seguimiento hasta las {time}. Una evaluación puede requerir hasta {max}, así que podría terminar antes.',
+  'quota.noQuestions': 'Has usado todas tus preguntas de seguimiento hasta las {time}.',
+  'quota.noAnalyses': 'Has usado todas tus evaluaciones hasta las {time}.',
+  'quota.reached': 'Has alcanzado tu límite de uso. Podrás continuar después de las {time}.',
+
+  'activity.open': 'Actividad de IA',
+  'activity.title': 'Actividad de IA',
+  'activity.description': 'Cada solicitud enviada a la IA en tu nombre, de la más reciente a la más antigua.',
+  'activity.retention': 'Los registros se conservan durante {days} días.',
+  'activity.empty': 'Todavía no se ha hecho ninguna solicitud a la IA en tu nombre.',
+  'activity.fn.symptom-followup': 'Pregunta de seguimiento',
+  'activity.fn.analyze-symptoms': 'Análisis de síntomas',
+  'activity.fn.analyze-report': 'Análisis de informe',
+  'activity.outcome.success': 'Completada',
+  'activity.outcome.cancelled': 'Detenida antes de terminar',
+  'activity.outcome.failed': 'Fallida ({reason})',
+  'activity.prompt': 'prompt {version}',
+  'activity.tokens': '{count} tokens',
+  'activity.latency': '{seconds} s',
+  'activity.attempts': '{count} intentos',
+  'activity.sent': 'Enviado',
+  'activity.received': 'Recibido',
+  'activity.noOutput': 'No se recibió ninguna respuesta',
+  'activity.role.system': 'Instrucciones',
+  'activity.role.user': 'Tus datos',
+  'activity.role.assistant': 'Asistente',
+  'activity.photo': 'foto',
+  'activity.hash': 'Huella de la entrada',
+
+  'health.edit': 'Mis datos de salud',
+  'health.editFor': 'Datos de salud de {name}',
+  'health.description': 'Las afecciones, medicamentos, alergias y medidas corporales se comparten con el asistente para que sus sugerencias las tengan en cuenta.',
+  'health.sex': 'Sexo',
+  'health.sex.female': 'Femenino',
+  'health.sex.male': 'Masculino',
+  'health.sex.intersex': 'Intersexual',
+  'health.sexUnset': 'Sin especificar',
+  'health.height': 'Altura (cm)',
+  'health.weight': 'Peso (kg)',
+  'health.saveDetails': 'Guardar datos',
+  'health.saved': 'Datos de salud guardados',
+  'health.saveFailed': 'No se pudieron guardar los datos de salud',
+  'health.invalidHeight': 'Introduce una altura entre 1 y 299 cm',
+  'health.invalidWeight': 'Introduce un peso entre 1 y 699 kg',
+  'health.conditions': 'Afecciones diagnosticadas',
+  'health.conditionName': 'Afección, p. ej. asma',
+  'health.conditionYear': 'Año del diagnóstico',
+  'health.medications': 'Medicamentos actuales',
+  'health.medicationName': 'Medicamento',
+  'health.dose': 'Dosis',
+  'health.frequency': 'Frecuencia',
+  'health.startedOn': 'Desde',
+  'health.allergies': 'Alergias',
+  'health.allergen': 'Alérgeno, p. ej. penicilina',
+  'health.reaction': 'Reacción',
+  'health.severity': 'Gravedad',
+  'health.severity.mild': 'Leve',
+  'health.severity.moderate': 'Moderada',
+  'health.severity.severe': 'Grave',
+  'health.add': 'Añadir',
+  'health.remove': 'Quitar {name}',
+  'health.none': 'Nada registrado',
+  'health.addFailed': 'No se pudo añadir la entrada',
+  'health.removeFailed': 'No se pudo quitar la entrada',
+
+  'profile.open': 'Perfil y cuenta',
+  'profile.back': 'Volver',
+  'profile.title': 'Tu perfil',
+  'profile.subtitle': 'Gestiona los datos que usa el asistente y tu acceso.',
+  'profile.details': 'Datos personales',
+  'profile.detailsDescription': 'Tu nombre, edad y notas de salud con tus propias palabras.',
+  'profile.missing': 'Tu perfil aún no se ha guardado. Complétalo para que el asistente personalice sus indicaciones.',
+  'profile.save': 'Guardar perfil',
+  'profile.complete': 'Guardar y continuar',
+  'profile.completed': 'Perfil completado',
+  'profile.completeTitle': 'Termina de configurar tu perfil',
+  'profile.completeSubtitle': 'Necesitamos algunos datos para que el asistente pueda darte indicaciones personalizadas.',
+  'profile.signOut': 'Cerrar sesión',
+  'profile.saved': 'Perfil guardado',
+  'profile.saveFailed': 'No se pudo guardar tu perfil',
+  'profile.healthIssuesTooLong': 'Usa menos de 2000 caracteres',
+  'profile.aiView': 'Lo que ve el asistente',
+  'profile.aiViewDescription': 'Este es el perfil del paciente que se envía junto con tus síntomas, informes y preguntas de seguimiento.',
+  'profile.email': 'Correo electrónico',
+  'profile.currentEmail': 'Inicias sesión como {email}.',
+  'profile.newEmail': 'Nuevo correo electrónico',
+  'profile.changeEmail': 'Cambiar correo',
+  'profile.invalidEmail': 'Introduce un correo electrónico válido',
+  'profile.sameEmail': 'Ese ya es tu correo electrónico',
+  'profile.emailConfirmationSent': 'Revisa {email} para confirmar el cambio',
+  'profile.password': 'Contraseña',
+  'profile.newPassword': 'Nueva contraseña',
+  'profile.confirmPassword': 'Confirmar nueva contraseña',
+  'profile.changePassword': 'Cambiar contraseña',
+  'profile.passwordTooShort': 'La contraseña debe tener al menos 6 caracteres',
+  'profile.passwordMismatch': 'Las contraseñas no coinciden',
+  'profile.passwordChanged': 'Contraseña cambiada',
+};
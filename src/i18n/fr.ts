@@ -0,0 +1,340 @@
+import type { TranslationKey } from './en';
+
+export const fr: Record<TranslationKey, string> = {
+  'language.label': 'Langue',
+
+  'auth.tagline': 'Votre compagnon santé intelligent. Analysez vos symptômes, obtenez des conseils et trouvez des établissements de santé à proximité.',
+  'auth.personalizedTitle': 'Analyse personnalisée',
+  'auth.personalizedBody': "L'IA tient compte de votre profil de santé",
+  'auth.secureTitle': 'Sécurisé et confidentiel',
+  'auth.secureBody': 'Vos données de santé restent protégées',
+  'auth.welcome': 'Bienvenue',
+  'auth.subtitle': 'Connectez-vous pour accéder à votre tableau de bord santé',
+  'auth.signIn': 'Se connecter',
+  'auth.signUp': "S'inscrire",
+  'auth.email': 'E-mail',
+  'auth.password': 'Mot de passe',
+  'auth.signingIn': 'Connexion...',
+  'auth.fullName': 'Nom complet *',
+  'auth.fullNamePlaceholder': 'Jean Dupont',
+  'auth.dateOfBirth': 'Date de naissance *',
+  'auth.healthIssues': 'Problèmes de santé existants (facultatif)',
+  'auth.healthIssuesPlaceholder': 'ex. diabète, hypertension, asthme, allergies...',
+  'auth.healthIssuesHint': 'Cela nous aide à vous donner des recommandations plus précises',
+  'auth.creatingAccount': 'Création du compte...',
+  'auth.createAccount': 'Créer un compte',
+  'auth.welcomeBack': 'Bon retour !',
+  'auth.nameRequired': 'Veuillez saisir votre nom complet',
+  'auth.invalidAge': 'Veuillez saisir un âge valide',
+  'auth.invalidDateOfBirth': 'Veuillez saisir une date de naissance valide',
+  'auth.confirmEmail': 'Compte créé ! Consultez {email} pour confirmer votre adresse.',
+  'auth.accountCreated': 'Compte créé avec succès !',
+  'auth.sessionExpired': 'Votre session a expiré. Veuillez vous reconnecter.',
+
+  'home.tagline': 'Votre assistant santé personnel',
+  'home.signedOut': 'Déconnexion réussie',
+  'home.assistantTitle': 'Assistant santé',
+  'home.assistantDescription': "Décrivez vos symptômes ou importez un compte rendu pour une analyse par l'IA",
+  'home.typeSymptoms': 'Saisir les symptômes',
+  'home.typeShort': 'Saisir',
+  'home.uploadReport': 'Importer un compte rendu',
+  'home.uploadShort': 'Importer',
+  'home.unfinishedTitle': "Vous avez une évaluation en cours",
+  'home.lastUpdated': 'Dernière mise à jour {date}',
+  'home.resume': 'Reprendre',
+  'home.discard': 'Abandonner',
+  'home.emergencyToast': 'Vos symptômes peuvent nécessiter des soins urgents',
+  'home.analysisComplete': 'Analyse terminée !',
+  'home.analysisFailed': "Impossible d'analyser les symptômes. Veuillez réessayer.",
+  'home.analysisIncomplete': "L'analyse est incomplète. Veuillez réessayer.",
+  'home.resultsTitle': "Résultats de l'analyse",
+  'home.resultsDescription': 'Selon les symptômes que vous avez décrits',
+  'home.possibleConditions': 'Affections possibles',
+  'home.recommendations': 'Recommandations',
+  'home.urgencyLevel': "Niveau d'urgence : {level}",
+  'home.disclaimerTitle': 'Avertissement :',
+  'home.disclaimer': "Cette analyse par IA est fournie à titre informatif et ne remplace pas un avis médical professionnel. Consultez toujours un professionnel de santé pour un diagnostic et un traitement adaptés.",
+  'home.hospitalsTitle': 'Hôpitaux à proximité',
+  'home.hospitalsDescription': 'Trouvez des établissements de santé près de chez vous',
+  'home.findingHospitals': 'Recherche des hôpitaux...',
+  'home.findHospitals': 'Trouver des hôpitaux à proximité',
+  'home.noHospitals': 'Aucun hôpital trouvé à proximité',
+  'home.hospitalsFound': '{count} hôpitaux trouvés à proximité',
+  'home.hospitalsFailed': 'Impossible de trouver des hôpitaux',
+
+  'likelihood.High': 'Probabilité élevée',
+  'likelihood.Medium': 'Probabilité moyenne',
+  'likelihood.Low': 'Probabilité faible',
+  'urgency.Emergency': 'Urgence vitale',
+  'urgency.Urgent': 'Urgent',
+  'urgency.Non-urgent': 'Non urgent',
+  'urgencyAdvice.Emergency': 'Consultez immédiatement un médecin !',
+  'urgencyAdvice.Urgent': 'Envisagez de consulter un médecin dans les 24 à 48 heures.',
+  'urgencyAdvice.Non-urgent': "Surveillez vos symptômes et reposez-vous. Consultez un médecin s'ils s'aggravent.",
+
+  'emergency.title': "Il peut s'agir d'une urgence médicale",
+  'emergency.crisisTitle': "Merci de demander de l'aide maintenant",
+  'emergency.call': 'Appeler le {number}',
+  'emergency.nearestRoom': 'Urgences les plus proches',
+  'emergency.noHospitals': "Aucun hôpital trouvé à proximité. Appelez les services d'urgence.",
+  'emergency.footer': "Cet avertissement a été déclenché par ce que vous avez décrit, avant toute analyse par l'IA. En cas de doute, il est toujours plus sûr d'appeler.",
+  'emergency.rule.chest_pain_radiating.label': "Douleur thoracique s'étendant au bras, à la mâchoire, au cou ou au dos",
+  'emergency.rule.chest_pain_radiating.advice': "Une douleur thoracique qui s'étend au bras, à la mâchoire, au cou ou au dos peut être le signe d'une crise cardiaque. Appelez les services d'urgence maintenant. Ne conduisez pas vous-même.",
+  'emergency.rule.stroke_fast.label': 'AVC possible (changements du visage, du bras ou de la parole)',
+  'emergency.rule.stroke_fast.advice': "Un visage qui s'affaisse, une faiblesse du bras ou une difficulté à parler peuvent être des signes d'AVC. Appelez immédiatement les services d'urgence et notez l'heure d'apparition des symptômes.",
+  'emergency.rule.anaphylaxis.label': 'Réaction allergique grave possible',
+  'emergency.rule.anaphylaxis.advice': "Un gonflement de la gorge, de la langue ou des lèvres avec une difficulté à respirer après un allergène peut être une anaphylaxie. Utilisez un auto-injecteur d'adrénaline si vous en avez un et appelez les services d'urgence maintenant.",
+  'emergency.rule.anaphylaxis_named.label': 'Anaphylaxie',
+  'emergency.rule.anaphylaxis_named.advice': "L'anaphylaxie met la vie en danger. Utilisez un auto-injecteur d'adrénaline si vous en avez un et appelez les services d'urgence maintenant.",
+  'emergency.rule.severe_breathing.label': 'Difficulté respiratoire grave',
+  'emergency.rule.severe_breathing.advice': "Une difficulté respiratoire grave nécessite une aide médicale immédiate. Appelez les services d'urgence maintenant.",
+  'emergency.rule.severe_bleeding.label': 'Saignement grave ou incontrôlable',
+  'emergency.rule.severe_bleeding.advice': "Un saignement abondant ou incontrôlable nécessite des soins d'urgence. Appuyez fermement sur la plaie et appelez les services d'urgence maintenant.",
+  'emergency.rule.loss_of_consciousness.label': 'Perte de connaissance ou convulsions',
+  'emergency.rule.loss_of_consciousness.advice': "Un évanouissement, une absence de réaction ou des convulsions doivent être évalués en urgence. Appelez les services d'urgence, surtout si c'est la première fois ou si cela a duré plus de quelques minutes.",
+  'emergency.rule.suicidal_ideation.label': "Pensées suicidaires ou d'automutilation",
+  'emergency.rule.suicidal_ideation.advice': "Vous n'avez pas à traverser cela seul. Contactez dès maintenant une ligne d'écoute ou les services d'urgence : parler à quelqu'un peut aider.",
+
+  'chat.welcomeTitle': 'Bienvenue dans votre évaluation de santé',
+  'chat.welcomeSubtitle': 'Je suis là pour vous aider à comprendre vos symptômes',
+  'chat.welcomeBody': "Décrivez ce qui ne va pas avec le plus de détails possible. Je vous poserai quelques questions personnalisées selon votre profil et vos antécédents, puis je vous fournirai une analyse complète.",
+  'chat.thinking': 'Réflexion...',
+  'chat.analyzing': 'Analyse de vos symptômes...',
+  'chat.analyzingDetail': "Création d'une évaluation de santé personnalisée",
+  'chat.placeholderListening': 'Écoute... relâchez pour arrêter',
+  'chat.placeholderAnswer': 'Saisissez votre réponse...',
+  'chat.placeholderStart': "Décrivez vos symptômes... (ex. « J'ai mal à la tête et un peu de fièvre depuis 2 jours »)",
+  'chat.holdToTalk': 'Maintenez pour parler',
+  'chat.stop': 'Arrêter',
+  'chat.hintStarted': 'Répondez aux questions pour obtenir une analyse complète',
+  'chat.hintStart': "Votre profil de santé permet de personnaliser l'évaluation",
+  'chat.readAloud': 'Lecture à voix haute',
+  'chat.readingAloud': 'Lecture en cours',
+  'chat.readAloudOn': 'Lire les questions à voix haute',
+  'chat.readAloudOff': 'Arrêter la lecture des questions',
+  'chat.error': "Désolé, une erreur s'est produite. Veuillez réessayer.",
+  'chat.micDenied': "L'accès au microphone a été refusé",
+  'chat.voiceStopped': "La saisie vocale s'est arrêtée de façon inattendue",
+  'chat.preferenceFailed': "Impossible d'enregistrer votre préférence",
+  'chat.saveFailed': "Vos réponses n'ont pas pu être enregistrées. Vous pouvez continuer, mais cette évaluation ne pourra peut-être pas être reprise plus tard.",
+  'chat.editAnswer': 'Modifier cette réponse',
+  'chat.retractAnswer': 'Retirer cette réponse',
+  'chat.saveEdit': 'Mettre à jour',
+  'chat.cancelEdit': 'Annuler',
+  'chat.edited': 'Modifié',
+
+  'coverage.title': "Progression de l'évaluation",
+  'coverage.count': '{covered} sur {total} abordés',
+  'coverage.skip': "Passer à l'analyse",
+  'coverage.skipHint': "C'est suffisant pour une analyse. Répondre davantage la rendra plus précise.",
+  'coverage.onset': 'Début',
+  'coverage.duration': 'Durée',
+  'coverage.severity': 'Intensité',
+  'coverage.progression': 'Évolution',
+  'coverage.associated_symptoms': 'Autres symptômes',
+  'coverage.triggers': 'Facteurs déclenchants',
+  'coverage.treatments': 'Traitements essayés',
+  'coverage.impact': 'Impact au quotidien',
+
+  'subject.title': 'Pour qui est cette évaluation ?',
+  'subject.subtitle': "Vérifiez vos symptômes ou ceux d'un proche dont vous vous occupez",
+  'subject.myself': 'Moi-même',
+  'subject.years': '{age} ans',
+  'subject.add': 'Ajouter une personne',
+  'subject.name': 'Nom complet *',
+  'subject.age': 'Âge *',
+  'subject.relationship': 'Lien',
+  'subject.relationshipPlaceholder': 'ex. fille, père',
+  'subject.healthIssues': 'Problèmes de santé existants (facultatif)',
+  'subject.save': 'Enregistrer',
+  'subject.cancel': 'Annuler',
+  'subject.nameRequired': 'Veuillez saisir son nom complet',
+  'subject.added': '{name} a été ajouté(e)',
+  'subject.addFailed': "Impossible d'ajouter cette personne",
+  'subject.remove': 'Retirer {name}',
+  'subject.removeTitle': 'Retirer {name} ?',
+  'subject.removeBody': 'Son historique de symptômes sera également supprimé. Cette action est irréversible.',
+  'subject.removed': '{name} a été retiré(e)',
+  'subject.removeFailed': 'Impossible de retirer cette personne',
+  'subject.historyFor': 'Pour {name}',
+
+  'bodyMap.title': 'Où le ressentez-vous ?',
+  'bodyMap.hint': "Touchez les zones concernées, puis indiquez l'intensité de chacune.",
+  'bodyMap.front': 'Face',
+  'bodyMap.back': 'Dos',
+  'bodyMap.toggle': 'Indiquer sur le schéma du corps',
+  'bodyMap.remove': 'Retirer {region}',
+  'bodyMap.empty': 'Aucune zone indiquée',
+  'bodyMap.attached': 'Voici où je le ressens',
+  'bodyMap.location': 'Où cela était ressenti',
+
+  'bodyRegion.head': 'Tête',
+  'bodyRegion.neck': 'Cou',
+  'bodyRegion.left_shoulder': 'Épaule gauche',
+  'bodyRegion.right_shoulder': 'Épaule droite',
+  'bodyRegion.left_chest': 'Côté gauche de la poitrine',
+  'bodyRegion.right_chest': 'Côté droit de la poitrine',
+  'bodyRegion.upper_abdomen': 'Haut du ventre',
+  'bodyRegion.lower_left_abdomen': 'Bas du ventre à gauche',
+  'bodyRegion.lower_right_abdomen': 'Bas du ventre à droite',
+  'bodyRegion.pelvis': 'Bassin et aine',
+  'bodyRegion.left_shoulder_blade': 'Omoplate gauche',
+  'bodyRegion.right_shoulder_blade': 'Omoplate droite',
+  'bodyRegion.middle_back': 'Milieu du dos',
+  'bodyRegion.lower_back': 'Bas du dos',
+  'bodyRegion.buttocks': 'Fesses',
+  'bodyRegion.left_upper_arm': 'Bras gauche',
+  'bodyRegion.right_upper_arm': 'Bras droit',
+  'bodyRegion.left_forearm': 'Avant-bras gauche',
+  'bodyRegion.right_forearm': 'Avant-bras droit',
+  'bodyRegion.left_hand': 'Main gauche',
+  'bodyRegion.right_hand': 'Main droite',
+  'bodyRegion.left_thigh': 'Cuisse gauche',
+  'bodyRegion.right_thigh': 'Cuisse droite',
+  'bodyRegion.left_knee': 'Genou gauche',
+  'bodyRegion.right_knee': 'Genou droit',
+  'bodyRegion.left_lower_leg': 'Jambe gauche',
+  'bodyRegion.right_lower_leg': 'Jambe droite',
+  'bodyRegion.left_foot': 'Pied gauche',
+  'bodyRegion.right_foot': 'Pied droit',
+
+  'photos.attach': 'Joindre une photo',
+  'photos.attached': 'Voici une photo',
+  'photos.remove': 'Retirer la photo',
+  'photos.limit': "Vous pouvez joindre jusqu'à {count} photos par message",
+  'photos.failed': 'Impossible de joindre cette image',
+  'photos.uploading': 'Ajout de la photo...',
+  'photos.title': 'Photos',
+  'photos.photoNumber': 'Photo {number}',
+
+  'guidance.warningSigns': 'Consultez immédiatement si vous remarquez',
+  'guidance.specialist': 'Qui consulter',
+  'guidance.followUpTitle': 'Quand consulter un médecin',
+  'guidance.followUp': "Consultez un médecin si vous n'allez pas mieux d'ici {window}.",
+  'guidance.selfCare': 'Plan de soins personnels',
+  'guidance.timeframe.now': 'Tout de suite',
+  'guidance.timeframe.next_24_hours': 'Dans les prochaines 24 heures',
+  'guidance.timeframe.next_few_days': 'Dans les prochains jours',
+  'guidance.timeframe.ongoing': 'Au quotidien',
+  'guidance.unit.hours': '{count} heures',
+  'guidance.unit.hours.one': '{count} heure',
+  'guidance.unit.days': '{count} jours',
+  'guidance.unit.days.one': '{count} jour',
+  'guidance.unit.weeks': '{count} semaines',
+  'guidance.unit.weeks.one': '{count} semaine',
+
+  'evidence.show': 'Pourquoi cette suggestion',
+  'evidence.hide': 'Masquer les éléments',
+  'evidence.supports': 'En faveur',
+  'evidence.against': 'En défaveur',
+  'evidence.kind.turn': 'Votre réponse',
+  'evidence.kind.profile': 'Profil',
+  'evidence.kind.history': 'Évaluation précédente',
+  'evidence.kind.ongoing': 'Symptôme persistant',
+  'evidence.none': "Aucun élément précis n'a été cité",
+
+  'coding.icd10': 'CIM-10 {code}',
+  'coding.snomed': 'SNOMED CT {code}',
+  'coding.unmatched': 'Non codé',
+  'coding.unmatchedHint': 'Aucun code standard ne correspond à ce nom ; il a été signalé pour vérification',
+
+  'quota.analysesLeft': 'Il vous reste {count} évaluations sur {max}',
+  'quota.resets': 'renouvellement à {time}',
+  'quota.fewQuestions': "Il ne vous reste que {count} questions de suivi jusqu'à {time}. Une évaluation peut en demander jusqu'à {max} et risque de s'arrêter plus tôt.",
+  'quota.noQuestions': "Vous avez utilisé toutes vos questions de suivi jusqu'à {time}.",
+  'quota.noAnalyses': "Vous avez utilisé toutes vos évaluations jusqu'à {time}.",
+  'quota.reached': "Vous avez atteint votre limite d'utilisation. Vous pourrez continuer après {time}.",
+
+  'activity.open': 'Activité IA',
+  'activity.title': 'Activité IA',
+  'activity.description': "Chaque requête envoyée à l'IA en votre nom, de la plus récente à la plus ancienne.",
+  'activity.retention': 'Les enregistrements sont conservés {days} jours.',
+  'activity.empty': "Aucune requête n'a encore été envoyée à l'IA en votre nom.",
+  'activity.fn.symptom-followup': 'Question de suivi',
+  'activity.fn.analyze-symptoms': 'Analyse des symptômes',
+  'activity.fn.analyze-report': 'Analyse de rapport',
+  'activity.outcome.success': 'Terminée',
+  'activity.outcome.cancelled': 'Interrompue',
+  'activity.outcome.failed': 'Échec ({reason})',
+  'activity.prompt': 'prompt {version}',
+  'activity.tokens': '{count} jetons',
+  'activity.latency': '{seconds} s',
+  'activity.attempts': '{count} tentatives',
+  'activity.sent': 'Envoyé',
+  'activity.received': 'Reçu',
+  'activity.noOutput': "Aucune réponse n'a été reçue",
+  'activity.role.system': 'Instructions',
+  'activity.role.user': 'Vos informations',
+  'activity.role.assistant': 'Assistant',
+  'activity.photo': 'photo',
+  'activity.hash': "Empreinte de l'entrée",
+
+  'health.edit': 'Mes données de santé',
+  'health.editFor': 'Données de santé de {name}',
+  'health.description': "Les pathologies, médicaments, allergies et mensurations sont transmis à l'assistant pour que ses suggestions en tiennent compte.",
+  'health.sex': 'Sexe',
+  'health.sex.female': 'Féminin',
+  'health.sex.male': 'Masculin',
+  'health.sex.intersex': 'Intersexe',
+  'health.sexUnset': 'Non précisé',
+  'health.height': 'Taille (cm)',
+  'health.weight': 'Poids (kg)',
+  'health.saveDetails': 'Enregistrer',
+  'health.saved': 'Données de santé enregistrées',
+  'health.saveFailed': "Impossible d'enregistrer les données de santé",
+  'health.invalidHeight': 'Veuillez saisir une taille entre 1 et 299 cm',
+  'health.invalidWeight': 'Veuillez saisir un poids entre 1 et 699 kg',
+  'health.conditions': 'Pathologies diagnostiquées',
+  'health.conditionName': 'Pathologie, ex. asthme',
+  'health.conditionYear': 'Année du diagnostic',
+  'health.medications': 'Traitements en cours',
+  'health.medicationName': 'Médicament',
+  'health.dose': 'Dose',
+  'health.frequency': 'Fréquence',
+  'health.startedOn': 'Depuis le',
+  'health.allergies': 'Allergies',
+  'health.allergen': 'Allergène, ex. pénicilline',
+  'health.reaction': 'Réaction',
+  'health.severity': 'Gravité',
+  'health.severity.mild': 'Légère',
+  'health.severity.moderate': 'Modérée',
+  'health.severity.severe': 'Sévère',
+  'health.add': 'Ajouter',
+  'health.remove': 'Retirer {name}',
+  'health.none': 'Rien de renseigné',
+  'health.addFailed': "Impossible d'ajouter cette entrée",
+  'health.removeFailed': 'Impossible de retirer cette entrée',
+
+  'profile.open': 'Profil et compte',
+  'profile.back': 'Retour',
+  'profile.title': 'Votre profil',
+  'profile.subtitle': "Gérez les informations utilisées par l'assistant et vos identifiants.",
+  'profile.details': 'Informations personnelles',
+  'profile.detailsDescription': 'Votre nom, votre âge et vos remarques de santé, dans vos propres mots.',
+  'profile.missing': "Votre profil n'a pas encore été enregistré. Complétez-le pour que l'assistant personnalise ses conseils.",
+  'profile.save': 'Enregistrer le profil',
+  'profile.complete': 'Enregistrer et continuer',
+  'profile.completed': 'Profil complété',
+  'profile.completeTitle': 'Finalisez votre profil',
+  'profile.completeSubtitle': "Il nous faut quelques informations pour que l'assistant puisse personnaliser ses conseils.",
+  'profile.signOut': 'Se déconnecter',
+  'profile.saved': 'Profil enregistré',
+  'profile.saveFailed': "Impossible d'enregistrer votre profil",
+  'profile.healthIssuesTooLong': 'Veuillez rester sous 2000 caractères',
+  'profile.aiView': "Ce que voit l'assistant",
+  'profile.aiViewDescription': 'Voici le profil patient envoyé avec vos symptômes, vos comptes rendus et les questions de suivi.',
+  'profile.email': 'Adresse e-mail',
+  'profile.currentEmail': 'Vous vous connectez avec {email}.',
+  'profile.newEmail': 'Nouvelle adresse e-mail',
+  'profile.changeEmail': "Changer d'e-mail",
+  'profile.invalidEmail': 'Veuillez saisir une adresse e-mail valide',
+  'profile.sameEmail': "C'est déjà votre adresse e-mail",
+  'profile.emailConfirmationSent': 'Consultez {email} pour confirmer le changement',
+  'profile.password': 'Mot de passe',
+  'profile.newPassword': 'Nouveau mot de passe',
+  'profile.confirmPassword': 'Confirmer le mot de passe',
+  'profile.changePassword': 'Changer le mot de passe',
+  'profile.passwordTooShort': 'Le mot de passe doit contenir au moins 6 caractères',
+  'profile.passwordMismatch': 'Les mots de passe ne correspondent pas',
+  'profile.passwordChanged': 'Mot de passe modifié',
+};
@@ -0,0 +1,340 @@
+import type { TranslationKey } from './en';
+
+export const hi: Record<TranslationKey, string> = {
+  'language.label': 'भाषा',
+
+  'auth.tagline': 'आपका समझदार स्वास्थ्य साथी। लक्षणों का विश्लेषण करें, जानकारी पाएं और पास के स्वास्थ्य केंद्र खोजें।',
+  'auth.personalizedTitle': 'व्यक्तिगत विश्लेषण',
+  'auth.personalizedBody': 'AI आपकी स्वास्थ्य प्रोफ़ाइल को ध्यान में रखता है',
+  'auth.secureTitle': 'सुरक्षित और निजी',
+  'auth.secureBody': 'आपका स्वास्थ्य डेटा सुरक्षित रहता है',
+  'auth.welcome': 'स्वागत है',
+  'auth.subtitle': 'अपने स्वास्थ्य डैशबोर्ड के लिए साइन इन करें',
+  'auth.signIn': 'साइन इन',
+  'auth.signUp': 'साइन अप',
+  'auth.email': 'ईमेल',
+  'auth.password': 'पासवर्ड',
+  'auth.signingIn': 'साइन इन हो रहा है...',
+  'auth.fullName': 'पूरा नाम *',
+  'auth.fullNamePlaceholder': 'राहुल शर्मा',
+  'auth.dateOfBirth': 'जन्म तिथि *',
+  'auth.healthIssues': 'मौजूदा स्वास्थ्य समस्याएं (वैकल्पिक)',
+  'auth.healthIssuesPlaceholder': 'जैसे, डायबिटीज़, हाई ब्लड प्रेशर, अस्थमा, एलर्जी...',
+  'auth.healthIssuesHint': 'इससे हमें अधिक सटीक स्वास्थ्य सुझाव देने में मदद मिलती है',
+  'auth.creatingAccount': 'खाता बन रहा है...',
+  'auth.createAccount': 'खाता बनाएं',
+  'auth.welcomeBack': 'फिर से स्वागत है!',
+  'auth.nameRequired': 'कृपया अपना पूरा नाम दर्ज करें',
+  'auth.invalidAge': 'कृपया सही उम्र दर्ज करें',
+  'auth.invalidDateOfBirth': 'कृपया सही जन्म तिथि दर्ज करें',
+  'auth.confirmEmail': 'खाता बन गया! अपना पता पुष्टि करने के लिए {email} देखें।',
+  'auth.accountCreated': 'खाता सफलतापूर्वक बन गया!',
+  'auth.sessionExpired': 'आपका सत्र समाप्त हो गया है। कृपया फिर से साइन इन करें।',
+
+  'home.tagline': 'आपका निजी स्वास्थ्य सहायक',
+  'home.signedOut': 'सफलतापूर्वक साइन आउट हो गया',
+  'home.assistantTitle': 'स्वास्थ्य सहायक',
+  'home.assistantDescription': 'AI विश्लेषण के लिए लक्षण बताएं या रिपोर्ट अपलोड करें',
+  'home.typeSymptoms': 'लक्षण लिखें',
+  'home.typeShort': 'लिखें',
+  'home.uploadReport': 'रिपोर्ट अपलोड करें',
+  'home.uploadShort': 'अपलोड',
+  'home.unfinishedTitle': 'आपका एक आकलन अधूरा है',
+  'home.lastUpdated': 'आख़िरी अपडेट {date}',
+  'home.resume': 'जारी रखें',
+  'home.discard': 'हटाएं',
+  'home.emergencyToast': 'आपके लक्षणों को आपातकालीन देखभाल की ज़रूरत हो सकती है',
+  'home.analysisComplete': 'विश्लेषण पूरा हुआ!',
+  'home.analysisFailed': 'लक्षणों का विश्लेषण नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'home.analysisIncomplete': 'विश्लेषण अधूरा रहा। कृपया फिर से कोशिश करें।',
+  'home.resultsTitle': 'विश्लेषण के परिणाम',
+  'home.resultsDescription': 'आपके बताए गए लक्षणों के आधार पर',
+  'home.possibleConditions': 'संभावित स्थितियां',
+  'home.recommendations': 'सुझाव',
+  'home.urgencyLevel': 'तात्कालिकता स्तर: {level}',
+  'home.disclaimerTitle': 'अस्वीकरण:',
+  'home.disclaimer': 'यह AI विश्लेषण केवल जानकारी के लिए है और पेशेवर चिकित्सा सलाह का विकल्प नहीं है। सही निदान और इलाज के लिए हमेशा किसी स्वास्थ्य विशेषज्ञ से सलाह लें।',
+  'home.hospitalsTitle': 'पास के अस्पताल',
+  'home.hospitalsDescription': 'अपने आस-पास के स्वास्थ्य केंद्र खोजें',
+  'home.findingHospitals': 'अस्पताल खोजे जा रहे हैं...',
+  'home.findHospitals': 'पास के अस्पताल खोजें',
+  'home.noHospitals': 'पास में कोई अस्पताल नहीं मिला',
+  'home.hospitalsFound': 'पास में {count} अस्पताल मिले',
+  'home.hospitalsFailed': 'अस्पताल नहीं खोजे जा सके',
+
+  'likelihood.High': 'अधिक संभावना',
+  'likelihood.Medium': 'मध्यम संभावना',
+  'likelihood.Low': 'कम संभावना',
+  'urgency.Emergency': 'आपातकाल',
+  'urgency.Urgent': 'तत्काल',
+  'urgency.Non-urgent': 'सामान्य',
+  'urgencyAdvice.Emergency': 'कृपया तुरंत चिकित्सा सहायता लें!',
+  'urgencyAdvice.Urgent': '24-48 घंटों के भीतर डॉक्टर से मिलने पर विचार करें।',
+  'urgencyAdvice.Non-urgent': 'अपने लक्षणों पर नज़र रखें और आराम करें। लक्षण बढ़ें तो डॉक्टर से मिलें।',
+
+  'emergency.title': 'यह एक चिकित्सा आपातकाल हो सकता है',
+  'emergency.crisisTitle': 'कृपया अभी मदद के लिए संपर्क करें',
+  'emergency.call': '{number} पर कॉल करें',
+  'emergency.nearestRoom': 'सबसे नज़दीकी आपातकालीन कक्ष',
+  'emergency.noHospitals': 'आस-पास कोई अस्पताल नहीं मिला। आपातकालीन सेवाओं को कॉल करें।',
+  'emergency.footer': 'यह चेतावनी आपके बताए लक्षणों से, किसी भी AI विश्लेषण से पहले दी गई है। अगर आप अनिश्चित हैं, तो कॉल करना हमेशा सुरक्षित है।',
+  'emergency.rule.chest_pain_radiating.label': 'सीने का दर्द जो बांह, जबड़े, गर्दन या पीठ तक फैल रहा है',
+  'emergency.rule.chest_pain_radiating.advice': 'बांह, जबड़े, गर्दन या पीठ तक फैलने वाला सीने का दर्द दिल के दौरे का संकेत हो सकता है। अभी आपातकालीन सेवाओं को कॉल करें। खुद गाड़ी न चलाएं।',
+  'emergency.rule.stroke_fast.label': 'संभावित स्ट्रोक (चेहरे, बांह या बोलने में बदलाव)',
+  'emergency.rule.stroke_fast.advice': 'चेहरे का लटकना, बांह में कमज़ोरी या बोलने में कठिनाई स्ट्रोक के संकेत हो सकते हैं। तुरंत आपातकालीन सेवाओं को कॉल करें और लक्षण शुरू होने का समय नोट करें।',
+  'emergency.rule.anaphylaxis.label': 'संभावित गंभीर एलर्जिक प्रतिक्रिया',
+  'emergency.rule.anaphylaxis.advice': 'किसी एलर्जन के बाद गले, जीभ या होंठों में सूजन और सांस लेने में तकलीफ़ एनाफिलेक्सिस हो सकती है। अगर आपके पास एपिनेफ्रीन ऑटो-इंजेक्टर है तो उसका उपयोग करें और अभी आपातकालीन सेवाओं को कॉल करें।',
+  'emergency.rule.anaphylaxis_named.label': 'एनाफिलेक्सिस',
+  'emergency.rule.anaphylaxis_named.advice': 'एनाफिलेक्सिस जानलेवा है। अगर आपके पास एपिनेफ्रीन ऑटो-इंजेक्टर है तो उसका उपयोग करें और अभी आपातकालीन सेवाओं को कॉल करें।',
+  'emergency.rule.severe_breathing.label': 'सांस लेने में गंभीर कठिनाई',
+  'emergency.rule.severe_breathing.advice': 'सांस लेने में गंभीर कठिनाई के लिए तुरंत चिकित्सा सहायता चाहिए। अभी आपातकालीन सेवाओं को कॉल करें।',
+  'emergency.rule.severe_bleeding.label': 'गंभीर या न रुकने वाला रक्तस्राव',
+  'emergency.rule.severe_bleeding.advice': 'भारी या न रुकने वाले रक्तस्राव के लिए आपातकालीन देखभाल चाहिए। किसी भी घाव पर कसकर दबाव डालें और अभी आपातकालीन सेवाओं को कॉल करें।',
+  'emergency.rule.loss_of_consciousness.label': 'बेहोशी या दौरा',
+  'emergency.rule.loss_of_consciousness.advice': 'बेहोश होना, प्रतिक्रिया न देना या दौरा पड़ना तुरंत जांचा जाना चाहिए। आपातकालीन सेवाओं को कॉल करें, ख़ासकर अगर ऐसा पहली बार हुआ है या कुछ मिनटों से ज़्यादा रहा।',
+  'emergency.rule.suicidal_ideation.label': 'आत्महत्या या खुद को नुकसान पहुँचाने के विचार',
+  'emergency.rule.suicidal_ideation.advice': 'आपको इससे अकेले नहीं गुज़रना है। कृपया अभी किसी संकट हेल्पलाइन या आपातकालीन सेवाओं से संपर्क करें - किसी से बात करना मदद कर सकता है।',
+
+  'chat.welcomeTitle': 'आपके स्वास्थ्य आकलन में स्वागत है',
+  'chat.welcomeSubtitle': 'मैं आपके लक्षणों को समझने में मदद के लिए यहां हूं',
+  'chat.welcomeBody': 'जितना हो सके विस्तार से बताएं कि आपको क्या परेशानी है। मैं आपकी स्वास्थ्य प्रोफ़ाइल और इतिहास के आधार पर कुछ सवाल पूछूंगा, फिर पूरा विश्लेषण दूंगा।',
+  'chat.thinking': 'सोच रहा हूं...',
+  'chat.analyzing': 'आपके लक्षणों का विश्लेषण हो रहा है...',
+  'chat.analyzingDetail': 'व्यक्तिगत स्वास्थ्य आकलन तैयार हो रहा है',
+  'chat.placeholderListening': 'सुन रहा हूं... रोकने के लिए छोड़ें',
+  'chat.placeholderAnswer': 'अपना जवाब लिखें...',
+  'chat.placeholderStart': "अपने लक्षण बताएं... (जैसे, 'मुझे 2 दिन से सिरदर्द और हल्का बुखार है')",
+  'chat.holdToTalk': 'बोलने के लिए दबाकर रखें',
+  'chat.stop': 'रोकें',
+  'chat.hintStarted': 'पूरे विश्लेषण के लिए सवालों के जवाब दें',
+  'chat.hintStart': 'आपकी स्वास्थ्य प्रोफ़ाइल आकलन को व्यक्तिगत बनाती है',
+  'chat.readAloud': 'पढ़कर सुनाएं',
+  'chat.readingAloud': 'पढ़कर सुना रहा है',
+  'chat.readAloudOn': 'सवाल पढ़कर सुनाएं',
+  'chat.readAloudOff': 'सवाल पढ़कर सुनाना बंद करें',
+  'chat.error': 'माफ़ करें, कोई गड़बड़ी हुई। कृपया फिर से कोशिश करें।',
+  'chat.micDenied': 'माइक्रोफ़ोन की अनुमति नहीं मिली',
+  'chat.voiceStopped': 'वॉइस इनपुट अचानक बंद हो गया',
+  'chat.preferenceFailed': 'आपकी पसंद सहेजी नहीं जा सकी',
+  'chat.saveFailed': 'आपके जवाब सहेजे नहीं जा सके। आप जारी रख सकते हैं, लेकिन हो सकता है यह आकलन बाद में फिर से शुरू न हो पाए।',
+  'chat.editAnswer': 'यह जवाब बदलें',
+  'chat.retractAnswer': 'यह जवाब वापस लें',
+  'chat.saveEdit': 'जवाब अपडेट करें',
+  'chat.cancelEdit': 'रद्द करें',
+  'chat.edited': 'बदला गया',
+
+  'coverage.title': 'आकलन की प्रगति',
+  'coverage.count': '{total} में से {covered} पूरे',
+  'coverage.skip': 'सीधे विश्लेषण पर जाएं',
+  'coverage.skipHint': 'विश्लेषण के लिए इतना काफ़ी है। और जवाब देने से यह ज़्यादा सटीक होगा।',
+  'coverage.onset': 'शुरुआत',
+  'coverage.duration': 'अवधि',
+  'coverage.severity': 'तीव्रता',
+  'coverage.progression': 'बदलाव',
+  'coverage.associated_symptoms': 'अन्य लक्षण',
+  'coverage.triggers': 'कारण',
+  'coverage.treatments': 'आज़माए गए इलाज',
+  'coverage.impact': 'रोज़मर्रा पर असर',
+
+  'subject.title': 'यह आकलन किसके लिए है?',
+  'subject.subtitle': 'अपने या जिनकी आप देखभाल करते हैं उनके लक्षण जांचें',
+  'subject.myself': 'मैं खुद',
+  'subject.years': '{age} वर्ष',
+  'subject.add': 'किसी को जोड़ें',
+  'subject.name': 'पूरा नाम *',
+  'subject.age': 'उम्र *',
+  'subject.relationship': 'रिश्ता',
+  'subject.relationshipPlaceholder': 'जैसे, बेटी, पिता',
+  'subject.healthIssues': 'मौजूदा स्वास्थ्य समस्याएं (वैकल्पिक)',
+  'subject.save': 'सहेजें',
+  'subject.cancel': 'रद्द करें',
+  'subject.nameRequired': 'कृपया उनका पूरा नाम दर्ज करें',
+  'subject.added': '{name} को जोड़ दिया गया',
+  'subject.addFailed': 'इस व्यक्ति को जोड़ा नहीं जा सका',
+  'subject.remove': '{name} को हटाएं',
+  'subject.removeTitle': '{name} को हटाएं?',
+  'subject.removeBody': 'उनका लक्षण इतिहास भी हट जाएगा। इसे वापस नहीं किया जा सकता।',
+  'subject.removed': '{name} को हटा दिया गया',
+  'subject.removeFailed': 'इस व्यक्ति को हटाया नहीं जा सका',
+  'subject.historyFor': '{name} के लिए',
+
+  'bodyMap.title': 'आपको यह कहां महसूस होता है?',
+  'bodyMap.hint': 'प्रभावित हिस्सों पर टैप करें, फिर हर एक की तीव्रता चुनें।',
+  'bodyMap.front': 'आगे',
+  'bodyMap.back': 'पीछे',
+  'bodyMap.toggle': 'शरीर के चित्र पर निशान लगाएं',
+  'bodyMap.remove': '{region} हटाएं',
+  'bodyMap.empty': 'अभी कोई हिस्सा नहीं चुना गया',
+  'bodyMap.attached': 'मुझे यहां महसूस होता है',
+  'bodyMap.location': 'कहां महसूस हुआ',
+
+  'bodyRegion.head': 'सिर',
+  'bodyRegion.neck': 'गर्दन',
+  'bodyRegion.left_shoulder': 'बायां कंधा',
+  'bodyRegion.right_shoulder': 'दायां कंधा',
+  'bodyRegion.left_chest': 'सीने का बायां हिस्सा',
+  'bodyRegion.right_chest': 'सीने का दायां हिस्सा',
+  'bodyRegion.upper_abdomen': 'पेट का ऊपरी हिस्सा',
+  'bodyRegion.lower_left_abdomen': 'पेट का निचला बायां हिस्सा',
+  'bodyRegion.lower_right_abdomen': 'पेट का निचला दायां हिस्सा',
+  'bodyRegion.pelvis': 'श्रोणि और जांघ का जोड़',
+  'bodyRegion.left_shoulder_blade': 'बायां कंधे का पिछला हिस्सा',
+  'bodyRegion.right_shoulder_blade': 'दायां कंधे का पिछला हिस्सा',
+  'bodyRegion.middle_back': 'पीठ का बीच का हिस्सा',
+  'bodyRegion.lower_back': 'कमर',
+  'bodyRegion.buttocks': 'कूल्हे',
+  'bodyRegion.left_upper_arm': 'बायां ऊपरी हाथ',
+  'bodyRegion.right_upper_arm': 'दायां ऊपरी हाथ',
+  'bodyRegion.left_forearm': 'बायां अग्रबाहु',
+  'bodyRegion.right_forearm': 'दायां अग्रबाहु',
+  'bodyRegion.left_hand': 'बायां हाथ',
+  'bodyRegion.right_hand': 'दायां हाथ',
+  'bodyRegion.left_thigh': 'बाईं जांघ',
+  'bodyRegion.right_thigh': 'दाईं जांघ',
+  'bodyRegion.left_knee': 'बायां घुटना',
+  'bodyRegion.right_knee': 'दायां घुटना',
+  'bodyRegion.left_lower_leg': 'बायां निचला पैर',
+  'bodyRegion.right_lower_leg': 'दायां निचला पैर',
+  'bodyRegion.left_foot': 'बायां पंजा',
+  'bodyRegion.right_foot': 'दायां पंजा',
+
+  'photos.attach': 'फ़ोटो जोड़ें',
+  'photos.attached': 'इसकी फ़ोटो यह रही',
+  'photos.remove': 'फ़ोटो हटाएं',
+  'photos.limit': 'एक संदेश में ज़्यादा से ज़्यादा {count} फ़ोटो जोड़ सकते हैं',
+  'photos.failed': 'यह फ़ोटो जोड़ी नहीं जा सकी',
+  'photos.uploading': 'फ़ोटो जोड़ी जा रही है...',
+  'photos.title': 'फ़ोटो',
+  'photos.photoNumber': 'फ़ोटो {number}',
+
+  'guidance.warningSigns': 'अगर आपको ये दिखें तो तुरंत मदद लें',
+  'guidance.specialist': 'किससे मिलें',
+  'guidance.followUpTitle': 'डॉक्टर को कब दिखाएँ',
+  'guidance.followUp': 'अगर {window} में आप बेहतर महसूस न करें तो डॉक्टर को दिखाएँ।',
+  'guidance.selfCare': 'स्व-देखभाल योजना',
+  'guidance.timeframe.now': 'अभी',
+  'guidance.timeframe.next_24_hours': 'अगले 24 घंटे',
+  'guidance.timeframe.next_few_days': 'अगले कुछ दिन',
+  'guidance.timeframe.ongoing': 'लगातार',
+  'guidance.unit.hours': '{count} घंटे',
+  'guidance.unit.hours.one': '{count} घंटा',
+  'guidance.unit.days': '{count} दिन',
+  'guidance.unit.days.one': '{count} दिन',
+  'guidance.unit.weeks': '{count} हफ़्ते',
+  'guidance.unit.weeks.one': '{count} हफ़्ता',
+
+  'evidence.show': 'यह सुझाव क्यों दिया गया',
+  'evidence.hide': 'प्रमाण छिपाएँ',
+  'evidence.supports': 'समर्थन में',
+  'evidence.against': 'विरोध में',
+  'evidence.kind.turn': 'आपका जवाब',
+  'evidence.kind.profile': 'प्रोफ़ाइल',
+  'evidence.kind.history': 'पिछला आकलन',
+  'evidence.kind.ongoing': 'जारी लक्षण',
+  'evidence.none': 'कोई विशेष प्रमाण नहीं दिया गया',
+
+  'coding.icd10': 'ICD-10 {code}',
+  'coding.snomed': 'SNOMED CT {code}',
+  'coding.unmatched': 'कोड नहीं मिला',
+  'coding.unmatchedHint': 'इस नाम से कोई मानक कोड मेल नहीं खाया; इसे समीक्षा के लिए चिह्नित किया गया है',
+
+  'quota.analysesLeft': '{max} में से {count} आकलन बाकी हैं',
+  'quota.resets': '{time} पर फिर से शुरू',
+  'quota.fewQuestions': '{time} तक केवल {count} फ़ॉलो-अप प्रश्न बाकी हैं। एक आकलन में {max} तक प्रश्न हो सकते हैं, इसलिए यह बीच में रुक सकता है।',
+  'quota.noQuestions': 'आपने {time} तक के सभी फ़ॉलो-अप प्रश्न इस्तेमाल कर लिए हैं।',
+  'quota.noAnalyses': 'आपने {time} तक के सभी आकलन इस्तेमाल कर लिए हैं।',
+  'quota.reached': 'आप अपनी उपयोग सीमा तक पहुँच गए हैं। {time} के बाद जारी रख सकते हैं।',
+
+  'activity.open': 'AI गतिविधि',
+  'activity.title': 'AI गतिविधि',
+  'activity.description': 'आपकी ओर से AI को भेजा गया हर अनुरोध, सबसे नया पहले।',
+  'activity.retention': 'रिकॉर्ड {days} दिनों तक रखे जाते हैं।',
+  'activity.empty': 'अभी तक आपकी ओर से AI को कोई अनुरोध नहीं भेजा गया है।',
+  'activity.fn.symptom-followup': 'फ़ॉलो-अप प्रश्न',
+  'activity.fn.analyze-symptoms': 'लक्षण विश्लेषण',
+  'activity.fn.analyze-report': 'रिपोर्ट विश्लेषण',
+  'activity.outcome.success': 'पूरा हुआ',
+  'activity.outcome.cancelled': 'बीच में रोका गया',
+  'activity.outcome.failed': 'विफल ({reason})',
+  'activity.prompt': 'प्रॉम्प्ट {version}',
+  'activity.tokens': '{count} टोकन',
+  'activity.latency': '{seconds} सेकंड',
+  'activity.attempts': '{count} प्रयास',
+  'activity.sent': 'भेजा गया',
+  'activity.received': 'प्राप्त हुआ',
+  'activity.noOutput': 'कोई उत्तर प्राप्त नहीं हुआ',
+  'activity.role.system': 'निर्देश',
+  'activity.role.user': 'आपकी जानकारी',
+  'activity.role.assistant': 'सहायक',
+  'activity.photo': 'फ़ोटो',
+  'activity.hash': 'इनपुट फ़िंगरप्रिंट',
+
+  'health.edit': 'मेरी स्वास्थ्य जानकारी',
+  'health.editFor': '{name} की स्वास्थ्य जानकारी',
+  'health.description': 'बीमारियाँ, दवाइयाँ, एलर्जी और शरीर का माप सहायक के साथ साझा किए जाते हैं ताकि उसके सुझाव इन्हें ध्यान में रखें।',
+  'health.sex': 'लिंग',
+  'health.sex.female': 'महिला',
+  'health.sex.male': 'पुरुष',
+  'health.sex.intersex': 'इंटरसेक्स',
+  'health.sexUnset': 'नहीं बताया',
+  'health.height': 'लंबाई (सेमी)',
+  'health.weight': 'वज़न (किग्रा)',
+  'health.saveDetails': 'जानकारी सहेजें',
+  'health.saved': 'स्वास्थ्य जानकारी सहेजी गई',
+  'health.saveFailed': 'स्वास्थ्य जानकारी सहेजी नहीं जा सकी',
+  'health.invalidHeight': 'कृपया 1 से 299 सेमी के बीच लंबाई दर्ज करें',
+  'health.invalidWeight': 'कृपया 1 से 699 किग्रा के बीच वज़न दर्ज करें',
+  'health.conditions': 'निदान की गई बीमारियाँ',
+  'health.conditionName': 'बीमारी, जैसे अस्थमा',
+  'health.conditionYear': 'निदान का वर्ष',
+  'health.medications': 'चल रही दवाइयाँ',
+  'health.medicationName': 'दवा',
+  'health.dose': 'खुराक',
+  'health.frequency': 'कितनी बार',
+  'health.startedOn': 'कब से',
+  'health.allergies': 'एलर्जी',
+  'health.allergen': 'एलर्जन, जैसे पेनिसिलिन',
+  'health.reaction': 'प्रतिक्रिया',
+  'health.severity': 'गंभीरता',
+  'health.severity.mild': 'हल्की',
+  'health.severity.moderate': 'मध्यम',
+  'health.severity.severe': 'गंभीर',
+  'health.add': 'जोड़ें',
+  'health.remove': '{name} हटाएँ',
+  'health.none': 'कुछ दर्ज नहीं',
+  'health.addFailed': 'यह प्रविष्टि जोड़ी नहीं जा सकी',
+  'health.removeFailed': 'यह प्रविष्टि हटाई नहीं जा सकी',
+
+  'profile.open': 'प्रोफ़ाइल और खाता',
+  'profile.back': 'वापस',
+  'profile.title': 'आपकी प्रोफ़ाइल',
+  'profile.subtitle': 'सहायक द्वारा उपयोग की जाने वाली जानकारी और साइन-इन सेटिंग्स प्रबंधित करें।',
+  'profile.details': 'व्यक्तिगत जानकारी',
+  'profile.detailsDescription': 'आपका नाम, उम्र और अपने शब्दों में स्वास्थ्य संबंधी नोट्स।',
+  'profile.missing': 'आपकी प्रोफ़ाइल अभी सहेजी नहीं गई है। इसे भरें ताकि सहायक आपके अनुसार मार्गदर्शन दे सके।',
+  'profile.save': 'प्रोफ़ाइल सहेजें',
+  'profile.complete': 'सहेजें और आगे बढ़ें',
+  'profile.completed': 'प्रोफ़ाइल पूरी हुई',
+  'profile.completeTitle': 'अपनी प्रोफ़ाइल पूरी करें',
+  'profile.completeSubtitle': 'सहायक आपको व्यक्तिगत मार्गदर्शन दे सके, इसके लिए हमें कुछ जानकारी चाहिए।',
+  'profile.signOut': 'साइन आउट',
+  'profile.saved': 'प्रोफ़ाइल सहेजी गई',
+  'profile.saveFailed': 'आपकी प्रोफ़ाइल सहेजी नहीं जा सकी',
+  'profile.healthIssuesTooLong': 'कृपया इसे 2000 अक्षरों से कम रखें',
+  'profile.aiView': 'सहायक क्या देखता है',
+  'profile.aiViewDescription': 'यह मरीज़ प्रोफ़ाइल आपके लक्षणों, रिपोर्ट और अनुवर्ती प्रश्नों के साथ भेजी जाती है।',
+  'profile.email': 'ईमेल पता',
+  'profile.currentEmail': 'आप {email} से साइन इन करते हैं।',
+  'profile.newEmail': 'नया ईमेल पता',
+  'profile.changeEmail': 'ईमेल बदलें',
+  'profile.invalidEmail': 'कृपया मान्य ईमेल पता दर्ज करें',
+  'profile.sameEmail': 'यह पहले से आपका ईमेल पता है',
+  'profile.emailConfirmationSent': 'बदलाव की पुष्टि के लिए {email} देखें',
+  'profile.password': 'पासवर्ड',
+  'profile.newPassword': 'नया पासवर्ड',
+  'profile.confirmPassword': 'नए पासवर्ड की पुष्टि करें',
+  'profile.changePassword': 'पासवर्ड बदलें',
+  'profile.passwordTooShort': 'पासवर्ड में कम से कम 6 अक्षर होने चाहिए',
+  'profile.passwordMismatch': 'पासवर्ड मेल नहीं खाते',
+  'profile.passwordChanged': 'पासवर्ड बदल गया',
+};
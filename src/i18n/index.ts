@@ -0,0 +1,78 @@
+import type { Locale as DateLocale } from 'date-fns';
+import { enUS, es as esDate, fr as frDate, hi as hiDate } from 'date-fns/locale';
+import { en, type TranslationKey } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { hi } from './hi';
+
+export type { TranslationKey };
+
+// Keep in sync with SUPPORTED_LANGUAGES in supabase/functions/_shared/language.ts
+export const SUPPORTED_LOCALES = ['en', 'es', 'fr', 'hi'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Each language is listed under its own name so it can be found by someone who can't read the current UI
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  hi: 'हिन्दी',
+};
+
+const DICTIONARIES: Record<Locale, Record<TranslationKey, string>> = { en, es, fr, hi };
+
+export const DATE_LOCALES: Record<Locale, DateLocale> = {
+  en: enUS,
+  es: esDate,
+  fr: frDate,
+  hi: hiDate,
+};
+
+// Region used for speech recognition and synthesis when the browser doesn't suggest one
+const DEFAULT_SPEECH_REGIONS: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  hi: 'hi-IN',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+// For keys built from server values, which may name something this build has no translation for
+export function isTranslationKey(value: string): value is TranslationKey {
+  return Object.prototype.hasOwnProperty.call(en, value);
+}
+
+// First supported language in the browser's preference list, e.g. "es-MX" -> "es"
+export function detectBrowserLocale(): Locale {
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const language of languages) {
+    const code = language?.split('-')[0].toLowerCase();
+    if (isLocale(code)) return code;
+  }
+  return DEFAULT_LOCALE;
+}
+
+// Prefer the browser's own tag when it matches, so an "en-GB" user keeps a British voice
+export function speechLanguage(locale: Locale): string {
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return languages.find(language => language?.split('-')[0].toLowerCase() === locale && language.includes('-'))
+    ?? DEFAULT_SPEECH_REGIONS[locale];
+}
+
+export function translate(
+  locale: Locale,
+  key: TranslationKey,
+  values?: Record<string, string | number>
+): string {
+  const template = DICTIONARIES[locale][key] ?? en[key];
+  if (!values) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match
+  );
+}
@@ -14,78 +14,669 @@ export type Database = {
   }
   public: {
     Tables: {
-      profiles: {
+      ai_anonymous_usage: {
+        Row: {
+          client_key: string
+          function_name: string
+          request_count: number
+          window_seconds: number
+          window_start: string
+        }
+        Insert: {
+          client_key: string
+          function_name: string
+          request_count?: number
+          window_seconds: number
+          window_start: string
+        }
+        Update: {
+          client_key?: string
+          function_name?: string
+          request_count?: number
+          window_seconds?: number
+          window_start?: string
+        }
+        Relationships: []
+      }
+      ai_audit_log: {
+        Row: {
+          attempts: number
+          backend: string
+          call_kind: string
+          completion_tokens: number | null
+          created_at: string
+          function_name: string
+          id: string
+          input: Json
+          input_hash: string
+          latency_ms: number
+          model: string
+          outcome: string
+          output: Json | null
+          prompt_tokens: number | null
+          prompt_version: string
+          total_tokens: number | null
+          user_id: string
+        }
+        Insert: {
+          attempts: number
+          backend: string
+          call_kind: string
+          completion_tokens?: number | null
+          created_at?: string
+          function_name: string
+          id?: string
+          input: Json
+          input_hash: string
+          latency_ms: number
+          model: string
+          outcome: string
+          output?: Json | null
+          prompt_tokens?: number | null
+          prompt_version: string
+          total_tokens?: number | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          backend?: string
+          call_kind?: string
+          completion_tokens?: number | null
+          created_at?: string
+          function_name?: string
+          id?: string
+          input?: Json
+          input_hash?: string
+          latency_ms?: number
+          model?: string
+          outcome?: string
+          output?: Json | null
+          prompt_tokens?: number | null
+          prompt_version?: string
+          total_tokens?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ai_audit_settings: {
+        Row: {
+          id: boolean
+          retention_days: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          retention_days?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          retention_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ai_plan_limits: {
+        Row: {
+          function_name: string
+          max_requests: number
+          plan_id: string
+          window_seconds: number
+        }
+        Insert: {
+          function_name: string
+          max_requests: number
+          plan_id: string
+          window_seconds: number
+        }
+        Update: {
+          function_name?: string
+          max_requests?: number
+          plan_id?: string
+          window_seconds?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_plan_limits_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "ai_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_plans: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      ai_usage: {
+        Row: {
+          function_name: string
+          request_count: number
+          user_id: string
+          window_seconds: number
+          window_start: string
+        }
+        Insert: {
+          function_name: string
+          request_count?: number
+          user_id: string
+          window_seconds: number
+          window_start: string
+        }
+        Update: {
+          function_name?: string
+          request_count?: number
+          user_id?: string
+          window_seconds?: number
+          window_start?: string
+        }
+        Relationships: []
+      }
+      allergies: {
+        Row: {
+          allergen: string
+          created_at: string
+          dependent_id: string | null
+          id: string
+          reaction: string | null
+          severity: string | null
+          user_id: string
+        }
+        Insert: {
+          allergen: string
+          created_at?: string
+          dependent_id?: string | null
+          id?: string
+          reaction?: string | null
+          severity?: string | null
+          user_id: string
+        }
+        Update: {
+          allergen?: string
+          created_at?: string
+          dependent_id?: string | null
+          id?: string
+          reaction?: string | null
+          severity?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "allergies_dependent_id_fkey"
+            columns: ["dependent_id"]
+            isOneToOne: false
+            referencedRelation: "dependents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dependents: {
         Row: {
           age: number
           created_at: string
           full_name: string
           health_issues: string | null
+          height_cm: number | null
           id: string
+          owner_id: string
+          relationship: string | null
+          sex: string | null
           updated_at: string
-          user_id: string
+          weight_kg: number | null
         }
         Insert: {
           age: number
           created_at?: string
           full_name: string
           health_issues?: string | null
+          height_cm?: number | null
           id?: string
+          owner_id: string
+          relationship?: string | null
+          sex?: string | null
           updated_at?: string
-          user_id: string
+          weight_kg?: number | null
         }
         Update: {
           age?: number
           created_at?: string
           full_name?: string
           health_issues?: string | null
+          height_cm?: number | null
+          id?: string
+          owner_id?: string
+          relationship?: string | null
+          sex?: string | null
+          updated_at?: string
+          weight_kg?: number | null
+        }
+        Relationships: []
+      }
+      diagnosed_conditions: {
+        Row: {
+          created_at: string
+          dependent_id: string | null
+          diagnosed_year: number | null
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dependent_id?: string | null
+          diagnosed_year?: number | null
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dependent_id?: string | null
+          diagnosed_year?: number | null
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "diagnosed_conditions_dependent_id_fkey"
+            columns: ["dependent_id"]
+            isOneToOne: false
+            referencedRelation: "dependents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      medications: {
+        Row: {
+          created_at: string
+          dependent_id: string | null
+          dose: string | null
+          frequency: string | null
+          id: string
+          name: string
+          started_on: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dependent_id?: string | null
+          dose?: string | null
+          frequency?: string | null
+          id?: string
+          name: string
+          started_on?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dependent_id?: string | null
+          dose?: string | null
+          frequency?: string | null
+          id?: string
+          name?: string
+          started_on?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medications_dependent_id_fkey"
+            columns: ["dependent_id"]
+            isOneToOne: false
+            referencedRelation: "dependents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          age: number | null
+          completed_at: string | null
+          created_at: string
+          date_of_birth: string | null
+          full_name: string
+          health_issues: string | null
+          height_cm: number | null
+          id: string
+          locale: string | null
+          read_questions_aloud: boolean
+          sex: string | null
+          updated_at: string
+          user_id: string
+          weight_kg: number | null
+        }
+        Insert: {
+          age?: number | null
+          completed_at?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          full_name: string
+          health_issues?: string | null
+          height_cm?: number | null
+          id?: string
+          locale?: string | null
+          read_questions_aloud?: boolean
+          sex?: string | null
+          updated_at?: string
+          user_id: string
+          weight_kg?: number | null
+        }
+        Update: {
+          age?: number | null
+          completed_at?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          full_name?: string
+          health_issues?: string | null
+          height_cm?: number | null
           id?: string
+          locale?: string | null
+          read_questions_aloud?: boolean
+          sex?: string | null
           updated_at?: string
           user_id?: string
+          weight_kg?: number | null
         }
         Relationships: []
       }
       symptom_history: {
         Row: {
+          analysis_prompt_version: string | null
+          body_map: Json | null
+          clinical_codes_version: string | null
           created_at: string
           cured_at: string | null
+          dependent_id: string | null
+          follow_up_window: Json | null
+          followup_prompt_version: string | null
+          icd10_codes: string[] | null
           id: string
           is_cured: boolean | null
+          photo_paths: string[] | null
           possible_conditions: Json
           recommendations: Json
+          red_flag_rule: string | null
+          red_flag_rules_version: string | null
+          self_care: Json | null
+          session_id: string | null
+          specialist: Json | null
           symptoms: string
+          uncoded_conditions: string[] | null
           urgency_level: string
           user_id: string
+          warning_signs: Json | null
         }
         Insert: {
+          analysis_prompt_version?: string | null
+          body_map?: Json | null
+          clinical_codes_version?: string | null
           created_at?: string
           cured_at?: string | null
+          dependent_id?: string | null
+          follow_up_window?: Json | null
+          followup_prompt_version?: string | null
+          icd10_codes?: string[] | null
           id?: string
           is_cured?: boolean | null
+          photo_paths?: string[] | null
           possible_conditions: Json
           recommendations: Json
+          red_flag_rule?: string | null
+          red_flag_rules_version?: string | null
+          self_care?: Json | null
+          session_id?: string | null
+          specialist?: Json | null
           symptoms: string
+          uncoded_conditions?: string[] | null
           urgency_level: string
           user_id: string
+          warning_signs?: Json | null
         }
         Update: {
+          analysis_prompt_version?: string | null
+          body_map?: Json | null
+          clinical_codes_version?: string | null
           created_at?: string
           cured_at?: string | null
+          dependent_id?: string | null
+          follow_up_window?: Json | null
+          followup_prompt_version?: string | null
+          icd10_codes?: string[] | null
           id?: string
           is_cured?: boolean | null
+          photo_paths?: string[] | null
           possible_conditions?: Json
           recommendations?: Json
+          red_flag_rule?: string | null
+          red_flag_rules_version?: string | null
+          self_care?: Json | null
+          session_id?: string | null
+          specialist?: Json | null
           symptoms?: string
+          uncoded_conditions?: string[] | null
           urgency_level?: string
           user_id?: string
+          warning_signs?: Json | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "symptom_history_dependent_id_fkey"
+            columns: ["dependent_id"]
+            isOneToOne: false
+            referencedRelation: "dependents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "symptom_history_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "symptom_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      symptom_session_revisions: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          message_index: number
+          removed_messages: Json
+          replacement: string | null
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          message_index: number
+          removed_messages: Json
+          replacement?: string | null
+          session_id: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          message_index?: number
+          removed_messages?: Json
+          replacement?: string | null
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "symptom_session_revisions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "symptom_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      symptom_sessions: {
+        Row: {
+          created_at: string
+          dependent_id: string | null
+          id: string
+          messages: Json
+          ongoing_symptoms: Json
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dependent_id?: string | null
+          id?: string
+          messages?: Json
+          ongoing_symptoms?: Json
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dependent_id?: string | null
+          id?: string
+          messages?: Json
+          ongoing_symptoms?: Json
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "symptom_sessions_dependent_id_fkey"
+            columns: ["dependent_id"]
+            isOneToOne: false
+            referencedRelation: "dependents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_plans: {
+        Row: {
+          plan_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          plan_id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          plan_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_plans_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "ai_plans"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
-      [_ in never]: never
+      prompt_version_outcomes: {
+        Row: {
+          assessments: number | null
+          avg_conditions: number | null
+          avg_questions: number | null
+          cured_rate: number | null
+          emergency_rate: number | null
+          first_seen: string | null
+          function_name: string | null
+          last_seen: string | null
+          prompt_version: string | null
+          uncoded_rate: number | null
+          urgent_rate: number | null
+        }
+        Relationships: []
+      }
+      prompt_version_performance: {
+        Row: {
+          avg_completion_tokens: number | null
+          avg_latency_ms: number | null
+          avg_prompt_tokens: number | null
+          calls: number | null
+          failure_rate: number | null
+          first_seen: string | null
+          function_name: string | null
+          last_seen: string | null
+          model: string | null
+          p95_latency_ms: number | null
+          prompt_version: string | null
+          retry_rate: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      consume_ai_quota: {
+        Args: { p_function: string; p_user_id: string }
+        Returns: {
+          allowed: boolean
+          limit_requests: number
+          limit_window_seconds: number
+          retry_after_seconds: number
+        }[]
+      }
+      consume_anonymous_ai_quota: {
+        Args: { p_client_key: string; p_function: string }
+        Returns: {
+          allowed: boolean
+          limit_requests: number
+          limit_window_seconds: number
+          retry_after_seconds: number
+        }[]
+      }
+      create_profile_from_metadata: {
+        Args: { p_email: string; p_metadata: Json; p_user_id: string }
+        Returns: undefined
+      }
+      get_ai_quota: {
+        Args: never
+        Returns: {
+          function_name: string
+          max_requests: number
+          plan_id: string
+          resets_at: string
+          used: number
+          window_seconds: number
+        }[]
+      }
+      purge_ai_audit_log: { Args: never; Returns: number }
+      refund_ai_quota: {
+        Args: { p_function: string; p_user_id: string }
+        Returns: undefined
+      }
+      refund_anonymous_ai_quota: {
+        Args: { p_client_key: string; p_function: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { AIFunctionName } from '@/lib/aiQuota';
+
+// How many of the most recent records the activity view loads
+const ACTIVITY_LIMIT = 100;
+
+export interface AuditMessage {
+  role: 'system' | 'user' | 'assistant';
+  // Text, or text and image parts (images are stored as a placeholder)
+  content: string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+}
+
+// One AI call made on the user's behalf, as recorded by the edge functions
+export interface AIAuditRecord {
+  id: string;
+  functionName: AIFunctionName;
+  kind: 'chat' | 'stream' | 'tool';
+  model: string;
+  promptVersion: string;
+  inputHash: string;
+  input: AuditMessage[];
+  output: Json | null;
+  // 'success', 'cancelled', or the kind of error the call failed with
+  outcome: string;
+  latencyMs: number;
+  attempts: number;
+  totalTokens: number | null;
+  createdAt: string;
+}
+
+export interface AIActivity {
+  records: AIAuditRecord[];
+  retentionDays: number | null;
+}
+
+// The signed-in user's most recent AI calls and how long they're kept
+export async function fetchAIActivity(): Promise<AIActivity> {
+  const [log, settings] = await Promise.all([
+    supabase
+      .from('ai_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(ACTIVITY_LIMIT),
+    supabase.from('ai_audit_settings').select('retention_days').maybeSingle(),
+  ]);
+
+  if (log.error) {
+    console.error('Failed to load AI activity:', log.error);
+  }
+
+  return {
+    records: (log.data ?? []).map((row) => ({
+      id: row.id,
+      functionName: row.function_name as AIFunctionName,
+      kind: row.call_kind as AIAuditRecord['kind'],
+      model: row.model,
+      promptVersion: row.prompt_version,
+      inputHash: row.input_hash,
+      input: row.input as unknown as AuditMessage[],
+      output: row.output,
+      outcome: row.outcome,
+      latencyMs: row.latency_ms,
+      attempts: row.attempts,
+      totalTokens: row.total_tokens,
+      createdAt: row.created_at,
+    })),
+    retentionDays: settings.data?.retention_days ?? null,
+  };
+}
+
+// The text of a recorded message, with photos shown as a marker
+export function auditMessageText(message: AuditMessage, photoLabel: string): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map((part) => (part.type === 'text' ? part.text : `[${photoLabel}]`))
+    .join('\n');
+}
@@ -0,0 +1,41 @@
+// Failure kinds reported by the edge functions: AIErrorKind in supabase/functions/_shared/ai.ts,
+// plus 'unauthorized' from _shared/auth.ts when the caller's session is no longer valid and
+// 'usage_limit' from _shared/quota.ts when the user's plan quota is used up
+export type AIErrorCode =
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'timeout'
+  | 'unavailable'
+  | 'bad_request'
+  | 'invalid_response'
+  | 'invalid_output'
+  | 'not_configured'
+  | 'unauthorized'
+  | 'usage_limit';
+
+export class AIServiceError extends Error {
+  readonly code: AIErrorCode | null;
+  readonly status: number;
+  // Seconds until the request may be retried, for rate and usage limits
+  readonly retryAfter: number | null;
+
+  constructor(message: string, code: AIErrorCode | null, status: number, retryAfter: number | null = null) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.code = code;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Builds the error for a failed edge-function response, keeping the server's message and code
+export async function toAIServiceError(response: Response, fallbackMessage: string): Promise<AIServiceError> {
+  const errorData = await response.json().catch(() => ({}));
+  const retryAfter = Number(errorData.retryAfter ?? response.headers.get('Retry-After'));
+  return new AIServiceError(
+    errorData.error || fallbackMessage,
+    errorData.code ?? null,
+    response.status,
+    Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null
+  );
+}
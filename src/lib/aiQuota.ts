@@ -0,0 +1,47 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type AIFunctionName = 'symptom-followup' | 'analyze-symptoms' | 'analyze-report';
+
+// One limit of the user's plan and how much of its current window has been used
+export interface QuotaWindow {
+  functionName: AIFunctionName;
+  windowSeconds: number;
+  maxRequests: number;
+  used: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+export interface AIQuota {
+  plan: string;
+  windows: QuotaWindow[];
+}
+
+// The signed-in user's quota, or null when it can't be loaded (signed out, or the request failed)
+export async function fetchAIQuota(): Promise<AIQuota | null> {
+  const { data, error } = await supabase.rpc('get_ai_quota');
+  if (error) {
+    console.error('Failed to load AI quota:', error);
+    return null;
+  }
+  if (!data || data.length === 0) return null;
+
+  return {
+    plan: data[0].plan_id,
+    windows: data.map((row) => ({
+      functionName: row.function_name as AIFunctionName,
+      windowSeconds: row.window_seconds,
+      maxRequests: row.max_requests,
+      used: row.used,
+      remaining: Math.max(0, row.max_requests - row.used),
+      resetsAt: new Date(row.resets_at),
+    })),
+  };
+}
+
+// The tightest of a function's limits: the window with the fewest requests left
+export function tightestWindow(quota: AIQuota, functionName: AIFunctionName): QuotaWindow | null {
+  return quota.windows
+    .filter((window) => window.functionName === functionName)
+    .reduce<QuotaWindow | null>((tightest, window) => (!tightest || window.remaining < tightest.remaining ? window : tightest), null);
+}
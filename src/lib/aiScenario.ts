@@ -0,0 +1,6 @@
+// Names the fixture scenario edge functions should replay when they run with AI_BACKEND=fixture
+// (see supabase/functions/_shared/aiFixtures.ts). Empty unless VITE_AI_SCENARIO is set.
+export function aiScenarioHeaders(): Record<string, string> {
+  const scenario = import.meta.env.VITE_AI_SCENARIO;
+  return scenario ? { 'x-ai-scenario': scenario } : {};
+}
@@ -0,0 +1,105 @@
+export type BodyView = 'front' | 'back';
+
+// A region the user marked on the body map. Region ids name the patient's own
+// left/right, so "left_knee" is drawn on the viewer's right in the front view.
+export interface BodyMapMark {
+  region: BodyRegionId;
+  view: BodyView;
+  intensity: number;
+}
+
+export const BODY_MAP_INTENSITY = { min: 1, max: 10, default: 5 };
+
+export type BodyRegionShape =
+  | { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; radius?: number };
+
+export interface BodyRegion {
+  id: BodyRegionId;
+  shape: BodyRegionShape;
+}
+
+export type BodyRegionId =
+  | 'head' | 'neck'
+  | 'left_shoulder' | 'right_shoulder'
+  | 'left_chest' | 'right_chest'
+  | 'upper_abdomen' | 'lower_left_abdomen' | 'lower_right_abdomen' | 'pelvis'
+  | 'left_shoulder_blade' | 'right_shoulder_blade'
+  | 'middle_back' | 'lower_back' | 'buttocks'
+  | 'left_upper_arm' | 'right_upper_arm'
+  | 'left_forearm' | 'right_forearm'
+  | 'left_hand' | 'right_hand'
+  | 'left_thigh' | 'right_thigh'
+  | 'left_knee' | 'right_knee'
+  | 'left_lower_leg' | 'right_lower_leg'
+  | 'left_foot' | 'right_foot';
+
+// Figure coordinates in a 160 x 350 viewBox, centred on x = 80
+export const BODY_MAP_VIEWBOX = { width: 160, height: 350 };
+
+function mirror(shape: BodyRegionShape): BodyRegionShape {
+  return shape.type === 'ellipse'
+    ? { ...shape, cx: BODY_MAP_VIEWBOX.width - shape.cx }
+    : { ...shape, x: BODY_MAP_VIEWBOX.width - shape.x - shape.width };
+}
+
+// Shapes are drawn on the viewer's left; in the front view that is the patient's right
+function paired(view: BodyView, left: BodyRegionId, right: BodyRegionId, viewerLeftShape: BodyRegionShape): BodyRegion[] {
+  const [viewerLeft, viewerRight] = view === 'front' ? [right, left] : [left, right];
+  return [
+    { id: viewerLeft, shape: viewerLeftShape },
+    { id: viewerRight, shape: mirror(viewerLeftShape) },
+  ];
+}
+
+function limbs(view: BodyView): BodyRegion[] {
+  return [
+    ...paired(view, 'left_shoulder', 'right_shoulder', { type: 'ellipse', cx: 50, cy: 70, rx: 12, ry: 9 }),
+    ...paired(view, 'left_upper_arm', 'right_upper_arm', { type: 'rect', x: 36, y: 78, width: 14, height: 44, radius: 6 }),
+    ...paired(view, 'left_forearm', 'right_forearm', { type: 'rect', x: 32, y: 124, width: 13, height: 42, radius: 6 }),
+    ...paired(view, 'left_hand', 'right_hand', { type: 'ellipse', cx: 38, cy: 177, rx: 8, ry: 10 }),
+    ...paired(view, 'left_thigh', 'right_thigh', { type: 'rect', x: 60, y: 170, width: 19, height: 62, radius: 7 }),
+    ...paired(view, 'left_knee', 'right_knee', { type: 'ellipse', cx: 69, cy: 241, rx: 9, ry: 8 }),
+    ...paired(view, 'left_lower_leg', 'right_lower_leg', { type: 'rect', x: 61, y: 250, width: 16, height: 70, radius: 6 }),
+    ...paired(view, 'left_foot', 'right_foot', { type: 'ellipse', cx: 68, cy: 332, rx: 10, ry: 7 }),
+  ];
+}
+
+const HEAD_AND_NECK: BodyRegion[] = [
+  { id: 'head', shape: { type: 'ellipse', cx: 80, cy: 28, rx: 18, ry: 22 } },
+  { id: 'neck', shape: { type: 'rect', x: 72, y: 49, width: 16, height: 13, radius: 3 } },
+];
+
+export const BODY_REGIONS: Record<BodyView, BodyRegion[]> = {
+  front: [
+    ...HEAD_AND_NECK,
+    ...paired('front', 'left_chest', 'right_chest', { type: 'rect', x: 58, y: 62, width: 22, height: 38, radius: 4 }),
+    { id: 'upper_abdomen', shape: { type: 'rect', x: 58, y: 100, width: 44, height: 24, radius: 2 } },
+    ...paired('front', 'lower_left_abdomen', 'lower_right_abdomen', { type: 'rect', x: 58, y: 124, width: 22, height: 24, radius: 2 }),
+    { id: 'pelvis', shape: { type: 'rect', x: 60, y: 148, width: 40, height: 21, radius: 6 } },
+    ...limbs('front'),
+  ],
+  back: [
+    ...HEAD_AND_NECK,
+    ...paired('back', 'left_shoulder_blade', 'right_shoulder_blade', { type: 'rect', x: 58, y: 62, width: 22, height: 32, radius: 4 }),
+    { id: 'middle_back', shape: { type: 'rect', x: 58, y: 94, width: 44, height: 24, radius: 2 } },
+    { id: 'lower_back', shape: { type: 'rect', x: 58, y: 118, width: 44, height: 30, radius: 2 } },
+    { id: 'buttocks', shape: { type: 'rect', x: 60, y: 148, width: 40, height: 21, radius: 8 } },
+    ...limbs('back'),
+  ],
+};
+
+export function markKey(mark: Pick<BodyMapMark, 'region' | 'view'>): string {
+  return `${mark.view}:${mark.region}`;
+}
+
+// Every region marked during a conversation; a later mark of the same region replaces the earlier one
+export function collectBodyMap(messages: { bodyMap?: BodyMapMark[] }[]): BodyMapMark[] {
+  const marks = new Map<string, BodyMapMark>();
+  for (const message of messages) {
+    for (const mark of message.bodyMap ?? []) {
+      marks.set(markKey(mark), mark);
+    }
+  }
+  return [...marks.values()];
+}
@@ -0,0 +1,65 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Demographics } from '@/lib/healthProfile';
+
+// Someone an account holder checks symptoms for, e.g. a child or an elderly parent
+export type Dependent = Tables<'dependents'>;
+
+export interface DependentInput {
+  full_name: string;
+  age: number;
+  relationship: string | null;
+  health_issues: string | null;
+}
+
+export async function fetchDependents(): Promise<Dependent[]> {
+  const { data, error } = await supabase
+    .from('dependents')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching dependents:', error);
+    return [];
+  }
+  return data;
+}
+
+export async function createDependent(ownerId: string, input: DependentInput): Promise<Dependent> {
+  const { data, error } = await supabase
+    .from('dependents')
+    .insert({ owner_id: ownerId, ...input })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+export async function updateDependent(id: string, input: Partial<DependentInput & Demographics>): Promise<Dependent> {
+  const { data, error } = await supabase
+    .from('dependents')
+    .update(input)
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+// Also removes the dependent's symptom history and sessions (ON DELETE CASCADE)
+export async function deleteDependent(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('dependents')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
@@ -0,0 +1,46 @@
+export interface EmergencyContacts {
+  country: string | null;
+  emergency: string;
+  crisis?: { name: string; number: string };
+}
+
+// 112 works across the EU and on most mobile networks worldwide, so it is the fallback
+const DEFAULT_EMERGENCY_NUMBER = '112';
+
+const EMERGENCY_CONTACTS: Record<string, Omit<EmergencyContacts, 'country'>> = {
+  US: { emergency: '911', crisis: { name: '988 Suicide & Crisis Lifeline', number: '988' } },
+  CA: { emergency: '911', crisis: { name: '9-8-8 Suicide Crisis Helpline', number: '988' } },
+  GB: { emergency: '999', crisis: { name: 'Samaritans', number: '116 123' } },
+  IE: { emergency: '112', crisis: { name: 'Samaritans', number: '116 123' } },
+  AU: { emergency: '000', crisis: { name: 'Lifeline', number: '13 11 14' } },
+  NZ: { emergency: '111', crisis: { name: 'Need to Talk?', number: '1737' } },
+  IN: { emergency: '112', crisis: { name: 'Tele MANAS', number: '14416' } },
+  ZA: { emergency: '112' },
+  MX: { emergency: '911' },
+  BR: { emergency: '192', crisis: { name: 'CVV', number: '188' } },
+  JP: { emergency: '119' },
+  CN: { emergency: '120' },
+  KR: { emergency: '119', crisis: { name: 'Suicide Prevention Hotline', number: '109' } },
+  PH: { emergency: '911' },
+  SG: { emergency: '995' },
+};
+
+// Best guess at the user's country from the browser locale, e.g. "en-GB" -> "GB"
+function detectCountry(): string | null {
+  const locales = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const locale of locales) {
+    const region = locale?.split('-')[1];
+    if (region && region.length === 2) return region.toUpperCase();
+  }
+  return null;
+}
+
+export function getEmergencyContacts(): EmergencyContacts {
+  const country = detectCountry();
+  const contacts = country ? EMERGENCY_CONTACTS[country] : undefined;
+  return {
+    country,
+    emergency: contacts?.emergency ?? DEFAULT_EMERGENCY_NUMBER,
+    crisis: contacts?.crisis,
+  };
+}
@@ -0,0 +1,12 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Authorization for edge functions called with fetch: the signed-in user's access token, or the
+// publishable key, which the functions treat as an anonymous caller. The functions derive the
+// user from this token, so requests never name the user themselves.
+export async function functionAuthHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  return {
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    Authorization: `Bearer ${data.session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+  };
+}
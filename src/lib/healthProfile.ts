@@ -0,0 +1,209 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Structured health details kept for the account holder and each of their dependents.
+// Keep in sync with describeSubject in supabase/functions/_shared/subject.ts, which renders
+// them into the patient block the assistant sees.
+export type DiagnosedCondition = Tables<'diagnosed_conditions'>;
+export type Medication = Tables<'medications'>;
+export type Allergy = Tables<'allergies'>;
+
+export const SEXES = ['female', 'male', 'intersex'] as const;
+export type Sex = typeof SEXES[number];
+
+export const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe'] as const;
+export type AllergySeverity = typeof ALLERGY_SEVERITIES[number];
+
+// The demographic columns shared by profiles and dependents
+export interface Demographics {
+  sex: Sex | null;
+  height_cm: number | null;
+  weight_kg: number | null;
+}
+
+// The database keeps sex as text; anything outside SEXES reads as not recorded
+export function demographicsOf(row: { sex: string | null; height_cm: number | null; weight_kg: number | null }): Demographics {
+  const sex = SEXES.find((value) => value === row.sex) ?? null;
+  return { sex, height_cm: row.height_cm, weight_kg: row.weight_kg };
+}
+
+export interface HealthRecords {
+  conditions: DiagnosedCondition[];
+  medications: Medication[];
+  allergies: Allergy[];
+}
+
+export interface ConditionInput {
+  name: string;
+  diagnosed_year: number | null;
+}
+
+export interface MedicationInput {
+  name: string;
+  dose: string | null;
+  frequency: string | null;
+  started_on: string | null;
+}
+
+export interface AllergyInput {
+  allergen: string;
+  reaction: string | null;
+  severity: AllergySeverity | null;
+}
+
+export type HealthRecordTable = 'diagnosed_conditions' | 'medications' | 'allergies';
+
+// Records about the account holder (dependentId null) or one of their dependents
+export async function fetchHealthRecords(dependentId: string | null): Promise<HealthRecords> {
+  let conditions = supabase.from('diagnosed_conditions').select('*');
+  let medications = supabase.from('medications').select('*');
+  let allergies = supabase.from('allergies').select('*');
+  if (dependentId) {
+    conditions = conditions.eq('dependent_id', dependentId);
+    medications = medications.eq('dependent_id', dependentId);
+    allergies = allergies.eq('dependent_id', dependentId);
+  } else {
+    conditions = conditions.is('dependent_id', null);
+    medications = medications.is('dependent_id', null);
+    allergies = allergies.is('dependent_id', null);
+  }
+
+  const results = await Promise.all([
+    conditions.order('created_at'),
+    medications.order('created_at'),
+    allergies.order('created_at'),
+  ]);
+  const [conditionRows, medicationRows, allergyRows] = results;
+
+  for (const { error } of results) {
+    if (error) console.error('Error fetching health records:', error);
+  }
+
+  return {
+    conditions: conditionRows.data ?? [],
+    medications: medicationRows.data ?? [],
+    allergies: allergyRows.data ?? [],
+  };
+}
+
+export async function addCondition(userId: string, dependentId: string | null, input: ConditionInput): Promise<DiagnosedCondition> {
+  const { data, error } = await supabase
+    .from('diagnosed_conditions')
+    .insert({ user_id: userId, dependent_id: dependentId, ...input })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+export async function addMedication(userId: string, dependentId: string | null, input: MedicationInput): Promise<Medication> {
+  const { data, error } = await supabase
+    .from('medications')
+    .insert({ user_id: userId, dependent_id: dependentId, ...input })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+export async function addAllergy(userId: string, dependentId: string | null, input: AllergyInput): Promise<Allergy> {
+  const { data, error } = await supabase
+    .from('allergies')
+    .insert({ user_id: userId, dependent_id: dependentId, ...input })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+export async function removeHealthRecord(table: HealthRecordTable, id: string): Promise<void> {
+  const { error } = await supabase
+    .from(table)
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export function describeCondition(condition: DiagnosedCondition): string {
+  return condition.diagnosed_year ? `${condition.name} (${condition.diagnosed_year})` : condition.name;
+}
+
+export function describeMedication(medication: Medication): string {
+  return [medication.name, medication.dose, medication.frequency].filter(Boolean).join(' · ');
+}
+
+export function describeAllergy(allergy: Allergy): string {
+  return allergy.reaction ? `${allergy.allergen} · ${allergy.reaction}` : allergy.allergen;
+}
+
+// The patient block the assistant receives for the account holder, built the same way as
+// describeSubject in supabase/functions/_shared/subject.ts so the profile page can show it
+export function describePatientContext(profile: Tables<'profiles'>, records: HealthRecords): string {
+  const list = <T>(label: string, items: T[], describe: (item: T) => string) =>
+    items.length === 0
+      ? `\n- ${label}: none recorded`
+      : `\n- ${label}:${items.map((item) => `\n  - ${describe(item)}`).join('')}`;
+
+  const age = profileAge(profile);
+  let text = `PATIENT PROFILE:
+- Name: ${profile.full_name}
+- Age: ${age !== null ? `${age} years old` : 'not recorded'}
+- Sex: ${profile.sex ?? 'not recorded'}`;
+
+  const body: string[] = [];
+  if (profile.height_cm) body.push(`${profile.height_cm} cm`);
+  if (profile.weight_kg) body.push(`${profile.weight_kg} kg`);
+  if (profile.height_cm && profile.weight_kg) {
+    body.push(`BMI ${(profile.weight_kg / (profile.height_cm / 100) ** 2).toFixed(1)}`);
+  }
+  if (body.length > 0) text += `\n- Height and weight: ${body.join(', ')}`;
+
+  text += list('Diagnosed conditions', records.conditions, (condition) =>
+    condition.diagnosed_year ? `${condition.name} (diagnosed ${condition.diagnosed_year})` : condition.name);
+  text += list('Current medications', records.medications, (medication) => {
+    const details = [medication.dose, medication.frequency].filter(Boolean).join(', ');
+    const text = details ? `${medication.name} ${details}` : medication.name;
+    return medication.started_on ? `${text} (since ${medication.started_on})` : text;
+  });
+  text += list('Allergies', records.allergies, (allergy) => {
+    const text = allergy.reaction ? `${allergy.allergen}: ${allergy.reaction}` : allergy.allergen;
+    return allergy.severity ? `${text} (${allergy.severity})` : text;
+  });
+  text += `\n- Other health issues (free text): ${profile.health_issues || 'None reported'}`;
+  return text;
+}
+
+// Whole years between a YYYY-MM-DD date of birth and today
+export function ageFromBirthDate(dateOfBirth: string): number {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const today = new Date();
+  const hadBirthday = today.getMonth() + 1 > month || (today.getMonth() + 1 === month && today.getDate() >= day);
+  return today.getFullYear() - year - (hadBirthday ? 0 : 1);
+}
+
+// Age is worked out from the date of birth on every read; only profiles made before it was
+// collected still carry a stored age
+export function profileAge(profile: Pick<Tables<'profiles'>, 'age' | 'date_of_birth'>): number | null {
+  return profile.date_of_birth ? ageFromBirthDate(profile.date_of_birth) : profile.age;
+}
+
+// A real calendar date in the past, at most 150 years ago
+export function isValidBirthDate(dateOfBirth: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateOfBirth)) return false;
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return false;
+  return date <= new Date() && ageFromBirthDate(dateOfBirth) < 150;
+}
@@ -48,13 +48,25 @@ function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: numbe
   return R * c;
 }
 
-export async function findNearbyHospitals(): Promise<Hospital[]> {
+interface FindHospitalsOptions {
+  // Only hospitals tagged as having an emergency department
+  emergencyOnly?: boolean;
+}
+
+export async function findNearbyHospitals({ emergencyOnly = false }: FindHospitalsOptions = {}): Promise<Hospital[]> {
   const position = await getCurrentPosition();
   const { latitude, longitude } = position.coords;
 
   // Use Overpass API (OpenStreetMap) to find nearby hospitals
   const radius = 10000; // 10km radius
-  const query = `
+  const query = emergencyOnly ? `
+    [out:json][timeout:25];
+    (
+      node["amenity"="hospital"]["emergency"="yes"](around:${radius},${latitude},${longitude});
+      way["amenity"="hospital"]["emergency"="yes"](around:${radius},${latitude},${longitude});
+    );
+    out body center;
+  ` : `
     [out:json][timeout:25];
     (
       node["amenity"="hospital"](around:${radius},${latitude},${longitude});
@@ -103,3 +115,10 @@ export async function findNearbyHospitals(): Promise<Hospital[]> {
 
   return hospitals;
 }
+
+// Many hospitals in OpenStreetMap lack an emergency tag, so fall back to any nearby hospital
+export async function findNearestEmergencyRooms(): Promise<Hospital[]> {
+  const emergencyRooms = await findNearbyHospitals({ emergencyOnly: true });
+  if (emergencyRooms.length > 0) return emergencyRooms;
+  return findNearbyHospitals();
+}
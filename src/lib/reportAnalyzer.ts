@@ -1,4 +1,7 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { aiScenarioHeaders } from "@/lib/aiScenario";
+import { toAIServiceError } from "@/lib/aiErrors";
 
 export interface ReportAnalysis {
   reportType: string;
@@ -10,7 +13,7 @@ export interface ReportAnalysis {
   urgencyLevel: 'low' | 'medium' | 'high' | 'critical';
 }
 
-export async function analyzeReport(file: File): Promise<ReportAnalysis> {
+export async function analyzeReport(file: File, language?: string): Promise<ReportAnalysis> {
   // Convert file to base64
   const arrayBuffer = await file.arrayBuffer();
   const uint8Array = new Uint8Array(arrayBuffer);
@@ -21,14 +24,20 @@ export async function analyzeReport(file: File): Promise<ReportAnalysis> {
   const base64Image = btoa(binary);
 
   const { data, error } = await supabase.functions.invoke('analyze-report', {
+    headers: aiScenarioHeaders(),
     body: { 
       image: base64Image,
-      mimeType: file.type 
+      mimeType: file.type,
+      language,
     }
   });
 
   if (error) {
     console.error('Report analysis error:', error);
+    // Non-2xx responses carry the function's own message and error code
+    if (error instanceof FunctionsHttpError) {
+      throw await toAIServiceError(error.context as Response, 'Failed to analyze report');
+    }
     throw new Error(error.message || 'Failed to analyze report');
   }
 
@@ -1,13 +1,99 @@
+import type { AnswerFormat, AssessmentCoverage, StructuredAnswer } from '@/lib/symptomFollowup';
+import type { BodyMapMark } from '@/lib/bodyMap';
+import { aiScenarioHeaders } from '@/lib/aiScenario';
+import { functionAuthHeaders } from '@/lib/functionAuth';
+import { toAIServiceError } from '@/lib/aiErrors';
+
+export type EvidenceKind = 'turn' | 'profile' | 'history' | 'ongoing';
+
+// Something the patient said or that's on record, cited for or against a condition
+export interface Evidence {
+  // Id the analysis cited, e.g. "T2" for the patient's second answer
+  source: string;
+  kind: EvidenceKind;
+  // The question a turn answered, or the date of a past assessment
+  label: string;
+  excerpt: string;
+  stance: 'supports' | 'against';
+  // Words within the excerpt to highlight
+  quote?: string;
+}
+
+// Standard codes matched to a condition name from the bundled table in
+// supabase/functions/_shared/clinicalCodes.ts
+export interface ClinicalCoding {
+  icd10: string;
+  snomed?: string;
+  display: string;
+  score: number;
+}
+
 export interface Condition {
   name: string;
+  // Standard English name the coding was matched on; missing from red-flag results and older analyses
+  englishName?: string;
   description: string;
   likelihood: 'High' | 'Medium' | 'Low';
+  // Missing from red-flag results and from analyses saved before evidence was recorded
+  evidence?: Evidence[];
+  // null when no code matched closely enough; missing from analyses saved before coding
+  coding?: ClinicalCoding | null;
+}
+
+// A deterministic red-flag rule that fired before any model call
+export interface RedFlag {
+  ruleId: string;
+  label: string;
+  response: 'emergency' | 'crisis';
+  advice: string;
+  matched: string[];
+  rulesVersion: string;
+}
+
+export const SELF_CARE_TIMEFRAMES = ['now', 'next_24_hours', 'next_few_days', 'ongoing'] as const;
+
+export type SelfCareTimeframe = typeof SELF_CARE_TIMEFRAMES[number];
+
+export interface SelfCareStep {
+  timeframe: SelfCareTimeframe;
+  steps: string[];
+}
+
+export interface Specialist {
+  // Kind of clinician or specialty to see first, e.g. "Dermatologist"
+  type: string;
+  reason: string;
 }
 
+// "See a doctor if you're not better within" this long
+export interface FollowUpWindow {
+  amount: number;
+  unit: 'hours' | 'days' | 'weeks';
+}
+
+// Keep in sync with ANALYZE_SYMPTOMS_TOOL in supabase/functions/_shared/tools.ts. The guidance
+// fields are missing from red-flag results, which are decided without the model.
 export interface AnalysisResult {
   possibleConditions: Condition[];
   recommendations: string[];
   urgencyLevel: 'Emergency' | 'Urgent' | 'Non-urgent';
+  warningSigns?: string[];
+  specialist?: Specialist;
+  followUpWindow?: FollowUpWindow;
+  selfCare?: SelfCareStep[];
+  redFlag?: RedFlag;
+  // Version of the code table the conditions were coded against
+  codingVersion?: string;
+  // Version of the prompt the analysis ran on; absent when a red-flag rule produced it
+  promptVersion?: string;
+}
+
+// The ICD-10-CM codes of the coded conditions, and the names that couldn't be coded and need review
+export function summarizeCoding(conditions: Condition[]): { codes: string[]; uncoded: string[] } {
+  return {
+    codes: [...new Set(conditions.flatMap((condition) => (condition.coding ? [condition.coding.icd10] : [])))],
+    uncoded: conditions.filter((condition) => condition.coding === null).map((condition) => condition.name),
+  };
 }
 
 const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-symptoms`;
@@ -15,21 +101,32 @@ const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-symp
 export interface ConversationMessage {
   role: 'user' | 'assistant';
   content: string;
+  answer?: StructuredAnswer;
+  format?: AnswerFormat;
+  bodyMap?: BodyMapMark[];
+  // Storage paths of photos attached to a user turn
+  photos?: string[];
+  // Coverage reported alongside an assistant question; sent back so progress never regresses
+  coverage?: AssessmentCoverage;
+  // Set on a user turn that replaced an earlier answer
+  edited?: boolean;
+  // Version of the follow-up prompt that wrote an assistant question
+  promptVersion?: string;
 }
 
-export async function analyzeSymptoms(symptoms: string, userId?: string): Promise<AnalysisResult> {
+export async function analyzeSymptoms(symptoms: string): Promise<AnalysisResult> {
   const response = await fetch(CHAT_URL, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+      ...await functionAuthHeaders(),
+      ...aiScenarioHeaders(),
     },
-    body: JSON.stringify({ symptoms, userId }),
+    body: JSON.stringify({ symptoms }),
   });
 
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error || 'Failed to analyze symptoms');
+    throw await toAIServiceError(response, 'Failed to analyze symptoms');
   }
 
   const data = await response.json();
@@ -38,20 +135,22 @@ export async function analyzeSymptoms(symptoms: string, userId?: string): Promis
 
 export async function analyzeSymptomsFromConversation(
   conversationHistory: ConversationMessage[],
-  userId?: string
+  uncuredSymptoms: string[] = [],
+  language?: string,
+  dependentId?: string | null
 ): Promise<AnalysisResult> {
   const response = await fetch(CHAT_URL, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+      ...await functionAuthHeaders(),
+      ...aiScenarioHeaders(),
     },
-    body: JSON.stringify({ conversationHistory, userId }),
+    body: JSON.stringify({ conversationHistory, dependentId, uncuredSymptoms, language }),
   });
 
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error || 'Failed to analyze symptoms');
+    throw await toAIServiceError(response, 'Failed to analyze symptoms');
   }
 
   const data = await response.json();
@@ -0,0 +1,148 @@
+import type { AnalysisResult, ConversationMessage, RedFlag } from '@/lib/symptomAnalyzer';
+import { aiScenarioHeaders } from '@/lib/aiScenario';
+import { functionAuthHeaders } from '@/lib/functionAuth';
+import { toAIServiceError } from '@/lib/aiErrors';
+
+const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/symptom-followup`;
+
+export type AnswerKind = 'text' | 'scale' | 'yes_no' | 'single_choice' | 'multi_choice' | 'duration';
+
+export interface AnswerFormat {
+  kind: AnswerKind;
+  options?: string[];
+  range?: { min: number; max: number; minLabel?: string; maxLabel?: string };
+  units?: string[];
+}
+
+export type StructuredAnswer =
+  | { kind: 'scale'; value: number; range: { min: number; max: number } }
+  | { kind: 'yes_no'; value: boolean }
+  | { kind: 'single_choice' | 'multi_choice'; value: string[] }
+  | { kind: 'duration'; value: { amount: number; unit: string } };
+
+// Assessment dimensions the follow-up questions work through, in the order they are shown.
+// Keep in sync with COVERAGE_DIMENSIONS in supabase/functions/_shared/coverage.ts.
+export const COVERAGE_DIMENSIONS = [
+  'onset',
+  'duration',
+  'severity',
+  'progression',
+  'associated_symptoms',
+  'triggers',
+  'treatments',
+  'impact',
+] as const;
+
+export type CoverageDimension = typeof COVERAGE_DIMENSIONS[number];
+
+export interface AssessmentCoverage {
+  covered: CoverageDimension[];
+  // The server's minimum for a useful analysis; the user may skip ahead once it is met
+  minimumMet: boolean;
+}
+
+export interface FollowupResult {
+  question: string;
+  format: AnswerFormat;
+  isComplete: boolean;
+  coverage?: AssessmentCoverage;
+  // Version of the follow-up prompt that wrote the question; absent when no model was asked
+  promptVersion?: string;
+  // Set when the red-flag screener ended the conversation without asking the model
+  redFlag?: RedFlag;
+  analysis?: AnalysisResult;
+}
+
+// Human-readable chat text for a structured answer, e.g. "7/10" or "3 days"
+export function formatAnswerText(answer: StructuredAnswer): string {
+  switch (answer.kind) {
+    case 'scale':
+      return `${answer.value}/${answer.range.max}`;
+    case 'yes_no':
+      return answer.value ? 'Yes' : 'No';
+    case 'single_choice':
+    case 'multi_choice':
+      return answer.value.length > 0 ? answer.value.join(', ') : 'None of these';
+    case 'duration': {
+      const { amount, unit } = answer.value;
+      return `${amount} ${amount === 1 ? unit.replace(/s$/, '') : unit}`;
+    }
+  }
+}
+
+interface StreamFollowupOptions {
+  messages: ConversationMessage[];
+  dependentId?: string | null;
+  uncuredSymptoms?: string[];
+  language?: string;
+  signal?: AbortSignal;
+  onDelta: (text: string) => void;
+}
+
+export async function streamFollowupQuestion({
+  messages,
+  dependentId,
+  uncuredSymptoms,
+  language,
+  signal,
+  onDelta,
+}: StreamFollowupOptions): Promise<FollowupResult> {
+  const response = await fetch(CHAT_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...await functionAuthHeaders(),
+      ...aiScenarioHeaders(),
+    },
+    body: JSON.stringify({ messages, dependentId, uncuredSymptoms, language, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await toAIServiceError(response, 'Failed to get response');
+  }
+
+  // Red-flag short-circuits come back as a single JSON body rather than a stream
+  if (response.headers.get('Content-Type')?.includes('application/json')) {
+    return response.json();
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let question = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const event = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      if (!event.startsWith('data: ')) continue;
+
+      const payload = JSON.parse(event.slice(6));
+      if (payload.error) {
+        throw new Error(payload.error);
+      }
+      if (payload.delta) {
+        question += payload.delta;
+        onDelta(payload.delta);
+      }
+      if (payload.done) {
+        return {
+          question: payload.question,
+          format: payload.format ?? { kind: 'text' },
+          isComplete: payload.isComplete,
+          coverage: payload.coverage,
+          promptVersion: payload.promptVersion,
+        };
+      }
+    }
+  }
+
+  // Stream ended without a done event; treat what we have as the question
+  return { question: question.trim(), format: { kind: 'text' }, isComplete: false };
+}
@@ -0,0 +1,84 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ConversationMessage } from '@/lib/symptomAnalyzer';
+
+// Keep in sync with PHOTO_BUCKET in supabase/functions/_shared/photos.ts
+const PHOTO_BUCKET = 'symptom-photos';
+
+export const PHOTO_LIMITS = {
+  perMessage: 3,
+  // Longest side after resizing; plenty for a rash or a wound, small enough to send to the model
+  maxDimension: 1280,
+  quality: 0.8,
+  // Originals larger than this are rejected before decoding
+  maxSourceBytes: 20 * 1024 * 1024,
+};
+
+// Signed URLs are fetched on demand, so they only need to outlive the page view
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Downscales to PHOTO_LIMITS.maxDimension and re-encodes as JPEG, which also strips EXIF data
+export async function compressImage(file: File): Promise<Blob> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Only image files can be attached');
+  }
+  if (file.size > PHOTO_LIMITS.maxSourceBytes) {
+    throw new Error('Image is too large');
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, PHOTO_LIMITS.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not compress image'))),
+      'image/jpeg',
+      PHOTO_LIMITS.quality
+    );
+  });
+}
+
+// Stored under the user's own folder, which is what the bucket's RLS policies check
+export async function uploadSymptomPhoto(userId: string, image: Blob): Promise<string> {
+  const path = `${userId}/${crypto.randomUUID()}.jpg`;
+  const { error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .upload(path, image, { contentType: 'image/jpeg' });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return path;
+}
+
+export async function deleteSymptomPhotos(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(PHOTO_BUCKET).remove(paths);
+  if (error) {
+    console.error('Failed to delete symptom photos:', error);
+  }
+}
+
+export async function fetchPhotoUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+  const { data, error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error fetching photo URLs:', error);
+    return {};
+  }
+  return Object.fromEntries(
+    data.filter((item) => item.path && item.signedUrl).map((item) => [item.path, item.signedUrl])
+  );
+}
+
+// Every photo attached during a conversation, in order
+export function collectPhotos(messages: ConversationMessage[]): string[] {
+  return messages.flatMap((message) => (message.role === 'user' ? message.photos ?? [] : []));
+}
@@ -0,0 +1,189 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { ConversationMessage } from '@/lib/symptomAnalyzer';
+
+export type SessionStatus = 'in_progress' | 'completed' | 'abandoned';
+
+export interface SymptomSession {
+  id: string;
+  messages: ConversationMessage[];
+  ongoingSymptoms: string[];
+  // The dependent the assessment is for; null when it's about the account holder
+  dependentId: string | null;
+  status: SessionStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function toSession(row: {
+  id: string;
+  messages: Json;
+  ongoing_symptoms: Json;
+  dependent_id: string | null;
+  status: string;
+  created_at: string;
+  updated_at: string;
+}): SymptomSession {
+  return {
+    id: row.id,
+    messages: row.messages as unknown as ConversationMessage[],
+    ongoingSymptoms: row.ongoing_symptoms as unknown as string[],
+    dependentId: row.dependent_id,
+    status: row.status as SessionStatus,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Starting a new assessment supersedes any unfinished one
+export async function createSession(
+  userId: string,
+  ongoingSymptoms: string[],
+  dependentId: string | null = null
+): Promise<string> {
+  await supabase
+    .from('symptom_sessions')
+    .update({ status: 'abandoned' })
+    .eq('user_id', userId)
+    .eq('status', 'in_progress');
+
+  const { data, error } = await supabase
+    .from('symptom_sessions')
+    .insert({ user_id: userId, dependent_id: dependentId, ongoing_symptoms: ongoingSymptoms as unknown as Json })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data.id;
+}
+
+// The last save queued for each session. Saves are chained so they reach the database in the
+// order they were made and an older conversation can never overwrite a newer one.
+const saveQueues = new Map<string, Promise<void>>();
+
+// Resolves once the conversation is stored (or a newer save for the session has replaced it) and
+// rejects when the write fails
+export function saveSessionMessages(sessionId: string, messages: ConversationMessage[]): Promise<void> {
+  const previous = saveQueues.get(sessionId) ?? Promise.resolve();
+  const save = previous
+    .catch(() => undefined)
+    .then(async () => {
+      // A newer save is waiting behind this one and will store a more recent conversation
+      if (saveQueues.get(sessionId) !== save) return;
+      const { error } = await supabase
+        .from('symptom_sessions')
+        .update({ messages: messages as unknown as Json })
+        .eq('id', sessionId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    });
+  saveQueues.set(sessionId, save);
+
+  const settle = () => {
+    if (saveQueues.get(sessionId) === save) saveQueues.delete(sessionId);
+  };
+  save.then(settle, settle);
+  return save;
+}
+
+export async function setSessionStatus(sessionId: string, status: SessionStatus): Promise<void> {
+  const { error } = await supabase
+    .from('symptom_sessions')
+    .update({ status })
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error('Failed to update session status:', error);
+  }
+}
+
+export async function fetchUnfinishedSession(): Promise<SymptomSession | null> {
+  const { data, error } = await supabase
+    .from('symptom_sessions')
+    .select('*')
+    .eq('status', 'in_progress')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching unfinished session:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  const session = toSession(data);
+  return session.messages.length > 0 ? session : null;
+}
+
+export async function fetchSession(sessionId: string): Promise<SymptomSession | null> {
+  const { data, error } = await supabase
+    .from('symptom_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching session:', error);
+    return null;
+  }
+  return data ? toSession(data) : null;
+}
+
+export type RevisionAction = 'edit' | 'retract';
+
+// One edit or retraction of an earlier answer; the turns it removed are kept for auditability
+export interface SessionRevision {
+  id: string;
+  messageIndex: number;
+  action: RevisionAction;
+  removedMessages: ConversationMessage[];
+  replacement: string | null;
+  createdAt: string;
+}
+
+export async function recordSessionRevision(
+  sessionId: string,
+  userId: string,
+  revision: Pick<SessionRevision, 'messageIndex' | 'action' | 'removedMessages' | 'replacement'>
+): Promise<void> {
+  const { error } = await supabase
+    .from('symptom_session_revisions')
+    .insert({
+      session_id: sessionId,
+      user_id: userId,
+      message_index: revision.messageIndex,
+      action: revision.action,
+      removed_messages: revision.removedMessages as unknown as Json,
+      replacement: revision.replacement,
+    });
+
+  if (error) {
+    console.error('Failed to record session revision:', error);
+  }
+}
+
+export async function fetchSessionRevisions(sessionId: string): Promise<SessionRevision[]> {
+  const { data, error } = await supabase
+    .from('symptom_session_revisions')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching session revisions:', error);
+    return [];
+  }
+  return data.map((row) => ({
+    id: row.id,
+    messageIndex: row.message_index,
+    action: row.action as RevisionAction,
+    removedMessages: row.removed_messages as unknown as ConversationMessage[],
+    replacement: row.replacement,
+    createdAt: row.created_at,
+  }));
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useLocale } from '@/contexts/LocaleContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,17 +10,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from 'sonner';
 import { Heart, Shield, Activity } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { LanguageSelect } from '@/components/LanguageSelect';
+import { isValidBirthDate } from '@/lib/healthProfile';
 
 export default function Auth() {
   const { user, loading, signIn, signUp } = useAuth();
+  const { locale, t } = useLocale();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   // Signup additional fields
   const [fullName, setFullName] = useState('');
-  const [age, setAge] = useState('');
+  const [dateOfBirth, setDateOfBirth] = useState('');
   const [healthIssues, setHealthIssues] = useState('');
 
   if (loading) {
@@ -43,7 +46,7 @@ export default function Auth() {
     if (error) {
       toast.error(error.message);
     } else {
-      toast.success('Welcome back!');
+      toast.success(t('auth.welcomeBack'));
     }
     setIsSubmitting(false);
   };
@@ -52,51 +55,38 @@ export default function Auth() {
     e.preventDefault();
     
     if (!fullName.trim()) {
-      toast.error('Please enter your full name');
+      toast.error(t('auth.nameRequired'));
       return;
     }
     
-    const ageNum = parseInt(age);
-    if (isNaN(ageNum) || ageNum < 1 || ageNum > 150) {
-      toast.error('Please enter a valid age');
+    if (!isValidBirthDate(dateOfBirth)) {
+      toast.error(t('auth.invalidDateOfBirth'));
       return;
     }
     
     setIsSubmitting(true);
-    const { error } = await signUp(email, password);
+    // The profile row is created from this metadata by a database trigger, so it exists even
+    // when there is no session until the email address is confirmed
+    const { error, needsConfirmation } = await signUp(email, password, {
+      full_name: fullName.trim(),
+      date_of_birth: dateOfBirth,
+      health_issues: healthIssues.trim() || null,
+      locale,
+    });
     
     if (error) {
       toast.error(error.message);
-      setIsSubmitting(false);
-      return;
-    }
-    
-    // Get the newly created user to create profile
-    const { data: { user: newUser } } = await supabase.auth.getUser();
-    
-    if (newUser) {
-      const { error: profileError } = await supabase.from('profiles').insert({
-        user_id: newUser.id,
-        full_name: fullName.trim(),
-        age: ageNum,
-        health_issues: healthIssues.trim() || null,
-      } as any);
-      
-      if (profileError) {
-        console.error('Failed to create profile:', profileError);
-        toast.error('Account created but failed to save profile. Please update your profile later.');
-      } else {
-        toast.success('Account created successfully!');
-      }
+    } else if (needsConfirmation) {
+      toast.success(t('auth.confirmEmail', { email }));
     } else {
-      toast.success('Account created successfully!');
+      toast.success(t('auth.accountCreated'));
     }
     
     setIsSubmitting(false);
   };
 
   return (
-    <div className="min-h-screen bg-gradient-hero flex">
+    <div className="min-h-screen bg-gradient-hero flex relative">
       {/* Left side - Branding */}
       <div className="hidden lg:flex lg:w-1/2 flex-col justify-center items-center p-12 relative overflow-hidden">
         <div className="absolute inset-0 bg-gradient-primary opacity-10" />
@@ -108,7 +98,7 @@ export default function Auth() {
             HealthCheck <span className="text-gradient">AI</span>
           </h1>
           <p className="text-lg text-muted-foreground mb-8">
-            Your intelligent health companion. Analyze symptoms, get insights, and find nearby healthcare facilities.
+            {t('auth.tagline')}
           </p>
           <div className="flex flex-col gap-4">
             <div className="flex items-center gap-4 text-left p-4 rounded-lg bg-card/60 backdrop-blur-sm">
@@ -116,8 +106,8 @@ export default function Auth() {
                 <Activity className="h-5 w-5 text-accent-foreground" />
               </div>
               <div>
-                <h3 className="font-display font-semibold text-foreground">Personalized Analysis</h3>
-                <p className="text-sm text-muted-foreground">AI considers your health profile</p>
+                <h3 className="font-display font-semibold text-foreground">{t('auth.personalizedTitle')}</h3>
+                <p className="text-sm text-muted-foreground">{t('auth.personalizedBody')}</p>
               </div>
             </div>
             <div className="flex items-center gap-4 text-left p-4 rounded-lg bg-card/60 backdrop-blur-sm">
@@ -125,8 +115,8 @@ export default function Auth() {
                 <Shield className="h-5 w-5 text-accent-foreground" />
               </div>
               <div>
-                <h3 className="font-display font-semibold text-foreground">Secure & Private</h3>
-                <p className="text-sm text-muted-foreground">Your health data stays protected</p>
+                <h3 className="font-display font-semibold text-foreground">{t('auth.secureTitle')}</h3>
+                <p className="text-sm text-muted-foreground">{t('auth.secureBody')}</p>
               </div>
             </div>
           </div>
@@ -134,26 +124,27 @@ export default function Auth() {
       </div>
 
       {/* Right side - Auth Form */}
-      <div className="w-full lg:w-1/2 flex items-center justify-center p-8">
+      <div className="w-full lg:w-1/2 flex flex-col items-center justify-center p-8 gap-4">
+        <LanguageSelect className="self-end lg:absolute lg:top-8 lg:right-8" />
         <Card className="w-full max-w-md border-0 shadow-lg">
           <CardHeader className="text-center pb-2">
             <div className="lg:hidden inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-primary mb-4 mx-auto shadow-glow">
               <Heart className="h-8 w-8 text-primary-foreground" />
             </div>
-            <CardTitle className="font-display text-2xl">Welcome</CardTitle>
-            <CardDescription>Sign in to access your health dashboard</CardDescription>
+            <CardTitle className="font-display text-2xl">{t('auth.welcome')}</CardTitle>
+            <CardDescription>{t('auth.subtitle')}</CardDescription>
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="signin" className="w-full">
               <TabsList className="grid w-full grid-cols-2 mb-6">
-                <TabsTrigger value="signin">Sign In</TabsTrigger>
-                <TabsTrigger value="signup">Sign Up</TabsTrigger>
+                <TabsTrigger value="signin">{t('auth.signIn')}</TabsTrigger>
+                <TabsTrigger value="signup">{t('auth.signUp')}</TabsTrigger>
               </TabsList>
               
               <TabsContent value="signin">
                 <form onSubmit={handleSignIn} className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="signin-email">Email</Label>
+                    <Label htmlFor="signin-email">{t('auth.email')}</Label>
                     <Input
                       id="signin-email"
                       type="email"
@@ -164,7 +155,7 @@ export default function Auth() {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="signin-password">Password</Label>
+                    <Label htmlFor="signin-password">{t('auth.password')}</Label>
                     <Input
                       id="signin-password"
                       type="password"
@@ -175,7 +166,7 @@ export default function Auth() {
                     />
                   </div>
                   <Button type="submit" className="w-full" disabled={isSubmitting}>
-                    {isSubmitting ? 'Signing in...' : 'Sign In'}
+                    {isSubmitting ? t('auth.signingIn') : t('auth.signIn')}
                   </Button>
                 </form>
               </TabsContent>
@@ -183,7 +174,7 @@ export default function Auth() {
               <TabsContent value="signup">
                 <form onSubmit={handleSignUp} className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="signup-email">Email</Label>
+                    <Label htmlFor="signup-email">{t('auth.email')}</Label>
                     <Input
                       id="signup-email"
                       type="email"
@@ -194,7 +185,7 @@ export default function Auth() {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="signup-password">Password</Label>
+                    <Label htmlFor="signup-password">{t('auth.password')}</Label>
                     <Input
                       id="signup-password"
                       type="password"
@@ -206,44 +197,42 @@ export default function Auth() {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="signup-name">Full Name *</Label>
+                    <Label htmlFor="signup-name">{t('auth.fullName')}</Label>
                     <Input
                       id="signup-name"
                       type="text"
-                      placeholder="John Doe"
+                      placeholder={t('auth.fullNamePlaceholder')}
                       value={fullName}
                       onChange={(e) => setFullName(e.target.value)}
                       required
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="signup-age">Age *</Label>
+                    <Label htmlFor="signup-dob">{t('auth.dateOfBirth')}</Label>
                     <Input
-                      id="signup-age"
-                      type="number"
-                      placeholder="25"
-                      min={1}
-                      max={150}
-                      value={age}
-                      onChange={(e) => setAge(e.target.value)}
+                      id="signup-dob"
+                      type="date"
+                      max={new Date().toISOString().slice(0, 10)}
+                      value={dateOfBirth}
+                      onChange={(e) => setDateOfBirth(e.target.value)}
                       required
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="signup-health">Existing Health Issues (optional)</Label>
+                    <Label htmlFor="signup-health">{t('auth.healthIssues')}</Label>
                     <Textarea
                       id="signup-health"
-                      placeholder="e.g., Diabetes, Hypertension, Asthma, Allergies..."
+                      placeholder={t('auth.healthIssuesPlaceholder')}
                       value={healthIssues}
                       onChange={(e) => setHealthIssues(e.target.value)}
                       rows={3}
                     />
                     <p className="text-xs text-muted-foreground">
-                      This helps us provide more accurate health recommendations
+                      {t('auth.healthIssuesHint')}
                     </p>
                   </div>
                   <Button type="submit" className="w-full" disabled={isSubmitting}>
-                    {isSubmitting ? 'Creating account...' : 'Create Account'}
+                    {isSubmitting ? t('auth.creatingAccount') : t('auth.createAccount')}
                   </Button>
                 </form>
               </TabsContent>
@@ -1,19 +1,33 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
+import { useLocale } from '@/contexts/LocaleContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
-import { Heart, LogOut, Stethoscope, MapPin, Loader2, AlertCircle, Hospital, Navigation, Upload, Sparkles } from 'lucide-react';
-import { analyzeSymptomsFromConversation, type AnalysisResult, type ConversationMessage } from '@/lib/symptomAnalyzer';
+import { Heart, LogOut, Stethoscope, MapPin, Loader2, AlertCircle, Hospital, Navigation, Upload, Sparkles, History, X, ChevronDown, ScrollText, UserCog } from 'lucide-react';
+import { analyzeSymptomsFromConversation, summarizeCoding, type AnalysisResult, type ConversationMessage } from '@/lib/symptomAnalyzer';
 import { findNearbyHospitals, type Hospital as HospitalType } from '@/lib/hospitalFinder';
 import { ReportUpload } from '@/components/ReportUpload';
 import { ReportAnalysisResult } from '@/components/ReportAnalysisResult';
 import { type ReportAnalysis } from '@/lib/reportAnalyzer';
 import { SymptomHistory } from '@/components/SymptomHistory';
 import { SymptomChat } from '@/components/SymptomChat';
+import { AnalysisGuidance } from '@/components/AnalysisGuidance';
+import { ConditionEvidence } from '@/components/ConditionEvidence';
+import { QuotaNotice } from '@/components/QuotaNotice';
+import { AIActivityDialog } from '@/components/AIActivityDialog';
+import { EmergencyScreen } from '@/components/EmergencyScreen';
+import { LanguageSelect } from '@/components/LanguageSelect';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchUnfinishedSession, setSessionStatus, type SymptomSession } from '@/lib/symptomSessions';
+import { collectBodyMap } from '@/lib/bodyMap';
+import { collectPhotos } from '@/lib/symptomPhotos';
+import { AIServiceError } from '@/lib/aiErrors';
+import { fetchAIQuota, type AIQuota } from '@/lib/aiQuota';
+import { format } from 'date-fns';
 
 const fadeInUp = {
   initial: { opacity: 0, y: 20 },
@@ -43,23 +57,56 @@ const slideInFromRight = {
 
 export default function Home() {
   const { user, signOut } = useAuth();
+  const { locale, dateLocale, t } = useLocale();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [expandedCondition, setExpandedCondition] = useState<number | null>(null);
   const [hospitals, setHospitals] = useState<HospitalType[]>([]);
   const [isLoadingHospitals, setIsLoadingHospitals] = useState(false);
   const [locationError, setLocationError] = useState<string | null>(null);
   const [reportAnalysis, setReportAnalysis] = useState<ReportAnalysis | null>(null);
   const [conversationHistory, setConversationHistory] = useState<ConversationMessage[]>([]);
   const historyRef = useRef<{ refresh: () => void }>(null);
+  const [unfinishedSession, setUnfinishedSession] = useState<SymptomSession | null>(null);
+  const [resumedSession, setResumedSession] = useState<SymptomSession | null>(null);
+  const [quota, setQuota] = useState<AIQuota | null>(null);
+  const [showActivity, setShowActivity] = useState(false);
 
-  const handleConversationComplete = async (messages: ConversationMessage[]) => {
+  useEffect(() => {
+    if (user) {
+      fetchUnfinishedSession().then(setUnfinishedSession);
+      fetchAIQuota().then(setQuota);
+    } else {
+      setQuota(null);
+    }
+  }, [user]);
+
+  const handleResumeSession = () => {
+    setResumedSession(unfinishedSession);
+    setUnfinishedSession(null);
+  };
+
+  const handleDiscardSession = async () => {
+    if (!unfinishedSession) return;
+    await setSessionStatus(unfinishedSession.id, 'abandoned');
+    setUnfinishedSession(null);
+  };
+
+  const handleConversationComplete = async (
+    messages: ConversationMessage[],
+    ongoingSymptoms: string[],
+    sessionId: string | null,
+    dependentId: string | null,
+    screenedResult?: AnalysisResult
+  ) => {
     setConversationHistory(messages);
     setIsAnalyzing(true);
     setAnalysisResult(null);
     setHospitals([]);
 
     try {
-      const result = await analyzeSymptomsFromConversation(messages, user?.id);
+      // A red flag caught during the chat already carries its emergency assessment
+      const result = screenedResult ?? await analyzeSymptomsFromConversation(messages, ongoingSymptoms, locale, dependentId);
       setAnalysisResult(result);
       
       const symptomsText = messages
@@ -68,26 +115,59 @@ export default function Home() {
         .join(' | ');
       
       if (user) {
+        const bodyMap = collectBodyMap(messages);
+        const photos = collectPhotos(messages);
+        const coding = summarizeCoding(result.possibleConditions);
         const { error } = await supabase.from('symptom_history').insert({
           user_id: user.id,
+          dependent_id: dependentId,
           symptoms: symptomsText,
           possible_conditions: result.possibleConditions as unknown,
           recommendations: result.recommendations as unknown,
           urgency_level: result.urgencyLevel,
+          session_id: sessionId,
+          red_flag_rule: result.redFlag?.ruleId ?? null,
+          red_flag_rules_version: result.redFlag?.rulesVersion ?? null,
+          body_map: bodyMap.length > 0 ? bodyMap : null,
+          photo_paths: photos.length > 0 ? photos : null,
+          warning_signs: result.warningSigns ?? null,
+          specialist: result.specialist ?? null,
+          follow_up_window: result.followUpWindow ?? null,
+          self_care: result.selfCare ?? null,
+          icd10_codes: coding.codes.length > 0 ? coding.codes : null,
+          uncoded_conditions: coding.uncoded.length > 0 ? coding.uncoded : null,
+          clinical_codes_version: result.codingVersion ?? null,
+          followup_prompt_version: [...messages].reverse().find(m => m.role === 'assistant' && m.promptVersion)?.promptVersion ?? null,
+          analysis_prompt_version: result.promptVersion ?? null,
         } as any);
         if (error) {
           console.error('Failed to save to history:', error);
         } else {
           historyRef.current?.refresh();
+          if (sessionId) {
+            await setSessionStatus(sessionId, 'completed');
+          }
         }
       }
       
-      toast.success('Analysis complete!');
+      if (result.redFlag) {
+        toast.error(t('home.emergencyToast'));
+      } else {
+        toast.success(t('home.analysisComplete'));
+      }
     } catch (error) {
       console.error('Analysis error:', error);
-      toast.error('Failed to analyze symptoms. Please try again.');
+      const serviceError = error instanceof AIServiceError ? error : null;
+      toast.error(serviceError?.code === 'invalid_output'
+        ? t('home.analysisIncomplete')
+        : serviceError?.code === 'unauthorized'
+        ? t('auth.sessionExpired')
+        : serviceError?.code === 'usage_limit'
+        ? t('quota.reached', { time: format(Date.now() + (serviceError.retryAfter ?? 0) * 1000, 'p', { locale: dateLocale }) })
+        : t('home.analysisFailed'));
     } finally {
       setIsAnalyzing(false);
+      if (user) fetchAIQuota().then(setQuota);
     }
   };
 
@@ -99,12 +179,12 @@ export default function Home() {
       const result = await findNearbyHospitals();
       setHospitals(result);
       if (result.length === 0) {
-        toast.info('No hospitals found nearby');
+        toast.info(t('home.noHospitals'));
       } else {
-        toast.success(`Found ${result.length} nearby hospitals`);
+        toast.success(t('home.hospitalsFound', { count: result.length }));
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to find hospitals';
+      const errorMessage = error instanceof Error ? error.message : t('home.hospitalsFailed');
       setLocationError(errorMessage);
       toast.error(errorMessage);
     } finally {
@@ -114,11 +194,12 @@ export default function Home() {
 
   const handleSignOut = async () => {
     await signOut();
-    toast.success('Signed out successfully');
+    toast.success(t('home.signedOut'));
   };
 
   const handleReportAnalysis = (analysis: ReportAnalysis) => {
     setReportAnalysis(analysis);
+    if (user) fetchAIQuota().then(setQuota);
   };
 
   return (
@@ -196,12 +277,13 @@ export default function Home() {
               <h1 className="font-display text-xl font-bold text-foreground">
                 HealthCheck <span className="text-gradient">AI</span>
               </h1>
-              <p className="text-xs text-muted-foreground hidden sm:block">Your Personal Health Assistant</p>
+              <p className="text-xs text-muted-foreground hidden sm:block">{t('home.tagline')}</p>
             </div>
           </motion.div>
           <div className="flex items-center gap-4">
+            <LanguageSelect />
             <motion.div 
-              className="hidden sm:flex items-center gap-2 px-4 py-2 rounded-full bg-secondary/60 border border-border/50 backdrop-blur-sm"
+              className="hidden md:flex items-center gap-2 px-4 py-2 rounded-full bg-secondary/60 border border-border/50 backdrop-blur-sm"
               initial={{ opacity: 0, x: 20 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: 0.2 }}
@@ -213,6 +295,31 @@ export default function Home() {
               />
               <span className="text-sm text-muted-foreground">{user?.email}</span>
             </motion.div>
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowActivity(true)}
+                title={t('activity.open')}
+                aria-label={t('activity.open')}
+                className="rounded-xl hover:bg-primary/10 hover:text-primary transition-all duration-300"
+              >
+                <ScrollText className="h-5 w-5" />
+              </Button>
+            </motion.div>
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                asChild
+                variant="ghost"
+                size="icon"
+                title={t('profile.open')}
+                className="rounded-xl hover:bg-primary/10 hover:text-primary transition-all duration-300"
+              >
+                <Link to="/profile" aria-label={t('profile.open')}>
+                  <UserCog className="h-5 w-5" />
+                </Link>
+              </Button>
+            </motion.div>
             <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
               <Button variant="ghost" size="icon" onClick={handleSignOut} className="rounded-xl hover:bg-destructive/10 hover:text-destructive transition-all duration-300">
                 <LogOut className="h-5 w-5" />
@@ -255,8 +362,8 @@ export default function Home() {
                   <Stethoscope className="h-8 w-8 text-accent-foreground" />
                 </motion.div>
                 <div>
-                  <CardTitle className="font-display text-2xl sm:text-3xl bg-clip-text">Health Assistant</CardTitle>
-                  <CardDescription className="text-base">Describe symptoms or upload a report for AI analysis</CardDescription>
+                  <CardTitle className="font-display text-2xl sm:text-3xl bg-clip-text">{t('home.assistantTitle')}</CardTitle>
+                  <CardDescription className="text-base">{t('home.assistantDescription')}</CardDescription>
                 </div>
               </motion.div>
             </CardHeader>
@@ -265,25 +372,60 @@ export default function Home() {
                 <TabsList className="grid w-full grid-cols-2 mb-6 p-1.5 bg-secondary/60 rounded-xl backdrop-blur-sm">
                   <TabsTrigger value="type" className="flex items-center gap-2 rounded-lg data-[state=active]:bg-card data-[state=active]:shadow-lg transition-all duration-300">
                     <Stethoscope className="h-4 w-4" />
-                    <span className="hidden sm:inline">Type Symptoms</span>
-                    <span className="sm:hidden">Type</span>
+                    <span className="hidden sm:inline">{t('home.typeSymptoms')}</span>
+                    <span className="sm:hidden">{t('home.typeShort')}</span>
                   </TabsTrigger>
                   <TabsTrigger value="upload" className="flex items-center gap-2 rounded-lg data-[state=active]:bg-card data-[state=active]:shadow-lg transition-all duration-300">
                     <Upload className="h-4 w-4" />
-                    <span className="hidden sm:inline">Upload Report</span>
-                    <span className="sm:hidden">Upload</span>
+                    <span className="hidden sm:inline">{t('home.uploadReport')}</span>
+                    <span className="sm:hidden">{t('home.uploadShort')}</span>
                   </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="type" className="space-y-4">
+                  <AnimatePresence>
+                    {unfinishedSession && (
+                      <motion.div
+                        className="flex items-center gap-4 p-4 rounded-xl bg-health-blue/10 border border-health-blue/30"
+                        initial={{ opacity: 0, y: -10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, height: 0 }}
+                      >
+                        <History className="h-5 w-5 text-health-blue flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-foreground">{t('home.unfinishedTitle')}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {t('home.lastUpdated', { date: format(new Date(unfinishedSession.updatedAt), 'MMM d, p', { locale: dateLocale }) })} · "{unfinishedSession.messages[0]?.content}"
+                          </p>
+                        </div>
+                        <Button size="sm" onClick={handleResumeSession} className="rounded-lg">
+                          {t('home.resume')}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={handleDiscardSession}
+                          className="h-8 w-8 rounded-lg"
+                          title={t('home.discard')}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                  {quota && <QuotaNotice quota={quota} />}
                   <SymptomChat 
+                    key={resumedSession?.id ?? 'new'}
                     onComplete={handleConversationComplete} 
                     isAnalyzing={isAnalyzing} 
+                    onHistoryChange={() => historyRef.current?.refresh()}
+                    initialSession={resumedSession ?? undefined}
+                    onSessionCreated={() => setUnfinishedSession(null)}
                   />
                 </TabsContent>
 
                 <TabsContent value="upload" className="space-y-4">
-                  <ReportUpload onAnalysis={handleReportAnalysis} disabled={false} />
+                  <ReportUpload onAnalysis={handleReportAnalysis} disabled={false} language={locale} />
                 </TabsContent>
               </Tabs>
             </CardContent>
@@ -306,9 +448,24 @@ export default function Home() {
           )}
         </AnimatePresence>
 
+        {/* Red-flag emergency screen */}
+        <AnimatePresence mode="wait">
+          {analysisResult?.redFlag && (
+            <motion.div
+              initial="initial"
+              animate="animate"
+              exit="exit"
+              variants={scaleIn}
+              transition={{ duration: 0.5 }}
+            >
+              <EmergencyScreen redFlag={analysisResult.redFlag} />
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Symptom Analysis Result */}
         <AnimatePresence mode="wait">
-          {analysisResult && (
+          {analysisResult && !analysisResult.redFlag && (
             <motion.div
               initial="initial"
               animate="animate"
@@ -342,8 +499,8 @@ export default function Home() {
                       <Sparkles className="h-8 w-8 text-primary" />
                     </motion.div>
                     <div>
-                      <CardTitle className="font-display text-2xl sm:text-3xl">Analysis Results</CardTitle>
-                      <CardDescription className="text-base">Based on your described symptoms</CardDescription>
+                      <CardTitle className="font-display text-2xl sm:text-3xl">{t('home.resultsTitle')}</CardTitle>
+                      <CardDescription className="text-base">{t('home.resultsDescription')}</CardDescription>
                     </div>
                   </motion.div>
                 </CardHeader>
@@ -357,7 +514,7 @@ export default function Home() {
                         animate={{ scaleY: 1 }}
                         transition={{ duration: 0.3 }}
                       />
-                      Possible Conditions
+                      {t('home.possibleConditions')}
                     </h3>
                     <div className="space-y-3">
                       {analysisResult.possibleConditions.map((condition, index) => (
@@ -366,7 +523,7 @@ export default function Home() {
                           className="p-5 rounded-xl bg-secondary/40 border border-border/50 hover:border-primary/30 hover:shadow-lg transition-all duration-300 group"
                           variants={slideInFromRight}
                           transition={{ delay: index * 0.1 }}
-                          whileHover={{ x: 4 }}
+                          whileHover={{ x: expandedCondition === index ? 0 : 4 }}
                         >
                           <div className="flex items-center justify-between mb-2">
                             <h4 className="font-semibold text-foreground group-hover:text-primary transition-colors">{condition.name}</h4>
@@ -380,10 +537,35 @@ export default function Home() {
                               }`}
                               whileHover={{ scale: 1.05 }}
                             >
-                              {condition.likelihood} likelihood
+                              {t(`likelihood.${condition.likelihood}`)}
                             </motion.span>
                           </div>
                           <p className="text-sm text-muted-foreground">{condition.description}</p>
+                          {condition.evidence && (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => setExpandedCondition(expandedCondition === index ? null : index)}
+                                aria-expanded={expandedCondition === index}
+                                className="mt-3 text-xs font-medium text-primary flex items-center gap-1 hover:underline"
+                              >
+                                <ChevronDown className={`h-3.5 w-3.5 transition-transform ${expandedCondition === index ? 'rotate-180' : ''}`} />
+                                {t(expandedCondition === index ? 'evidence.hide' : 'evidence.show')}
+                              </button>
+                              <AnimatePresence>
+                                {expandedCondition === index && (
+                                  <motion.div
+                                    initial={{ opacity: 0, height: 0 }}
+                                    animate={{ opacity: 1, height: 'auto' }}
+                                    exit={{ opacity: 0, height: 0 }}
+                                    className="overflow-hidden"
+                                  >
+                                    <ConditionEvidence evidence={condition.evidence} className="mt-3" />
+                                  </motion.div>
+                                )}
+                              </AnimatePresence>
+                            </>
+                          )}
                         </motion.div>
                       ))}
                     </div>
@@ -402,7 +584,7 @@ export default function Home() {
                         animate={{ scaleY: 1 }}
                         transition={{ duration: 0.3, delay: 0.4 }}
                       />
-                      Recommendations
+                      {t('home.recommendations')}
                     </h3>
                     <ul className="space-y-2">
                       {analysisResult.recommendations.map((rec, index) => (
@@ -451,24 +633,33 @@ export default function Home() {
                             : 'text-health-green'
                         }`} />
                       </motion.div>
-                      Urgency Level: {analysisResult.urgencyLevel}
+                      {t('home.urgencyLevel', { level: t(`urgency.${analysisResult.urgencyLevel}`) })}
                     </p>
                     <p className="text-sm text-muted-foreground mt-2">
-                      {analysisResult.urgencyLevel === 'Emergency' 
-                        ? 'Please seek immediate medical attention!' 
-                        : analysisResult.urgencyLevel === 'Urgent'
-                        ? 'Consider seeing a doctor within 24-48 hours.'
-                        : 'Monitor your symptoms and rest. See a doctor if symptoms worsen.'}
+                      {t(`urgencyAdvice.${analysisResult.urgencyLevel}`)}
                     </p>
                   </motion.div>
 
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.55 }}
+                  >
+                    <AnalysisGuidance
+                      warningSigns={analysisResult.warningSigns}
+                      specialist={analysisResult.specialist}
+                      followUpWindow={analysisResult.followUpWindow}
+                      selfCare={analysisResult.selfCare}
+                    />
+                  </motion.div>
+
                   <motion.div 
                     className="text-xs text-muted-foreground bg-secondary/40 p-4 rounded-xl border border-border/50"
                     initial={{ opacity: 0 }}
                     animate={{ opacity: 1 }}
                     transition={{ delay: 0.6 }}
                   >
-                    <strong className="text-foreground">Disclaimer:</strong> This AI analysis is for informational purposes only and should not replace professional medical advice. Always consult a healthcare provider for proper diagnosis and treatment.
+                    <strong className="text-foreground">{t('home.disclaimerTitle')}</strong> {t('home.disclaimer')}
                   </motion.div>
                 </CardContent>
               </Card>
@@ -513,8 +704,8 @@ export default function Home() {
                   <MapPin className="h-8 w-8 text-accent-foreground" />
                 </motion.div>
                 <div>
-                  <CardTitle className="font-display text-2xl sm:text-3xl">Nearby Hospitals</CardTitle>
-                  <CardDescription className="text-base">Find healthcare facilities near your location</CardDescription>
+                  <CardTitle className="font-display text-2xl sm:text-3xl">{t('home.hospitalsTitle')}</CardTitle>
+                  <CardDescription className="text-base">{t('home.hospitalsDescription')}</CardDescription>
                 </div>
               </motion.div>
             </CardHeader>
@@ -529,12 +720,12 @@ export default function Home() {
                   {isLoadingHospitals ? (
                     <>
                       <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                      Finding hospitals...
+                      {t('home.findingHospitals')}
                     </>
                   ) : (
                     <>
                       <Navigation className="mr-2 h-5 w-5" />
-                      Find Nearby Hospitals
+                      {t('home.findHospitals')}
                     </>
                   )}
                 </Button>
@@ -615,6 +806,8 @@ export default function Home() {
           </Card>
         </motion.div>
       </main>
+
+      <AIActivityDialog open={showActivity} onOpenChange={setShowActivity} />
     </div>
   );
 }
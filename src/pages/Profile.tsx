@@ -0,0 +1,368 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Eye, HeartPulse, KeyRound, Loader2, LogOut, Mail, User } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { HealthProfileEditor } from '@/components/HealthProfileEditor';
+import { LanguageSelect } from '@/components/LanguageSelect';
+import {
+  demographicsOf,
+  describePatientContext,
+  fetchHealthRecords,
+  isValidBirthDate,
+  type Demographics,
+  type HealthRecords,
+} from '@/lib/healthProfile';
+
+export default function Profile() {
+  const { user, signOut, updateEmail, updatePassword } = useAuth();
+  const { profile, loading, createProfile, updateProfile } = useProfile();
+  const { locale, t } = useLocale();
+  const navigate = useNavigate();
+  const [records, setRecords] = useState<HealthRecords | null>(null);
+
+  const profileSchema = useMemo(() => z.object({
+    full_name: z.string().trim().min(1, t('auth.nameRequired')).max(200),
+    date_of_birth: z.string().refine(isValidBirthDate, t('auth.invalidDateOfBirth')),
+    health_issues: z.string().trim().max(2000, t('profile.healthIssuesTooLong')),
+  }), [t]);
+
+  const emailSchema = useMemo(() => z.object({
+    email: z.string().trim().email(t('profile.invalidEmail')),
+  }), [t]);
+
+  const passwordSchema = useMemo(() => z.object({
+    password: z.string().min(6, t('profile.passwordTooShort')),
+    confirm: z.string(),
+  }).refine((values) => values.password === values.confirm, {
+    message: t('profile.passwordMismatch'),
+    path: ['confirm'],
+  }), [t]);
+
+  const profileForm = useForm<z.infer<typeof profileSchema>>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: { full_name: '', date_of_birth: '', health_issues: '' },
+  });
+  const emailForm = useForm<z.infer<typeof emailSchema>>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: { email: '' },
+  });
+  const passwordForm = useForm<z.infer<typeof passwordSchema>>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: { password: '', confirm: '' },
+  });
+
+  const { reset: resetProfileForm } = profileForm;
+  useEffect(() => {
+    if (profile) {
+      resetProfileForm({
+        full_name: profile.full_name,
+        date_of_birth: profile.date_of_birth ?? '',
+        health_issues: profile.health_issues ?? '',
+      });
+    }
+  }, [profile, resetProfileForm]);
+
+  useEffect(() => {
+    fetchHealthRecords(null).then(setRecords);
+  }, [user]);
+
+  const handleSaveProfile = async (values: z.infer<typeof profileSchema>) => {
+    // Saving the details is what completes a profile created without them at signup
+    const changes = {
+      full_name: values.full_name,
+      date_of_birth: values.date_of_birth,
+      health_issues: values.health_issues || null,
+      completed_at: profile?.completed_at ?? new Date().toISOString(),
+    };
+    const { error } = profile
+      ? await updateProfile(changes)
+      : await createProfile({ ...changes, locale });
+
+    if (error) {
+      console.error('Failed to save profile:', error);
+      toast.error(t('profile.saveFailed'));
+    } else if (!profile?.completed_at) {
+      toast.success(t('profile.completed'));
+      navigate('/');
+    } else {
+      toast.success(t('profile.saved'));
+    }
+  };
+
+  const handleSaveDemographics = async (changes: Demographics) => {
+    const { error } = await updateProfile(changes);
+    if (error) throw error;
+  };
+
+  const handleChangeEmail = async ({ email }: z.infer<typeof emailSchema>) => {
+    if (email === user?.email) {
+      emailForm.setError('email', { message: t('profile.sameEmail') });
+      return;
+    }
+    const { error } = await updateEmail(email);
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success(t('profile.emailConfirmationSent', { email }));
+      emailForm.reset();
+    }
+  };
+
+  const handleChangePassword = async ({ password }: z.infer<typeof passwordSchema>) => {
+    const { error } = await updatePassword(password);
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success(t('profile.passwordChanged'));
+      passwordForm.reset();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-hero">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <header className="sticky top-0 z-50 bg-card/80 backdrop-blur-xl border-b border-border/50 shadow-lg shadow-primary/5">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between max-w-3xl">
+          {profile?.completed_at ? (
+            <Button asChild variant="ghost" className="rounded-xl">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                {t('profile.back')}
+              </Link>
+            </Button>
+          ) : (
+            <Button variant="ghost" onClick={signOut} className="rounded-xl">
+              <LogOut className="h-4 w-4 mr-2" />
+              {t('profile.signOut')}
+            </Button>
+          )}
+          <LanguageSelect />
+        </div>
+      </header>
+
+      <motion.main
+        className="container mx-auto px-4 py-8 max-w-3xl space-y-6"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+      >
+        <div>
+          <h1 className="font-display text-3xl font-bold text-foreground">
+            {profile?.completed_at ? t('profile.title') : t('profile.completeTitle')}
+          </h1>
+          <p className="text-muted-foreground">{profile?.completed_at ? t('profile.subtitle') : t('profile.completeSubtitle')}</p>
+        </div>
+
+        <Card className="border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="font-display flex items-center gap-2">
+              <User className="h-5 w-5 text-primary" />
+              {t('profile.details')}
+            </CardTitle>
+            <CardDescription>{profile?.completed_at ? t('profile.detailsDescription') : t('profile.missing')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...profileForm}>
+              <form onSubmit={profileForm.handleSubmit(handleSaveProfile)} className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-[1fr_11rem]">
+                  <FormField
+                    control={profileForm.control}
+                    name="full_name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('auth.fullName')}</FormLabel>
+                        <FormControl>
+                          <Input placeholder={t('auth.fullNamePlaceholder')} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={profileForm.control}
+                    name="date_of_birth"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('auth.dateOfBirth')}</FormLabel>
+                        <FormControl>
+                          <Input type="date" max={new Date().toISOString().slice(0, 10)} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={profileForm.control}
+                  name="health_issues"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('auth.healthIssues')}</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder={t('auth.healthIssuesPlaceholder')} rows={3} {...field} />
+                      </FormControl>
+                      <FormDescription>{t('auth.healthIssuesHint')}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={profileForm.formState.isSubmitting} className="rounded-lg">
+                    {profileForm.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {profile?.completed_at ? t('profile.save') : t('profile.complete')}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        {profile && (
+          <Card className="border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="font-display flex items-center gap-2">
+                <HeartPulse className="h-5 w-5 text-primary" />
+                {t('health.edit')}
+              </CardTitle>
+              <CardDescription>{t('health.description')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <HealthProfileEditor
+                dependentId={null}
+                demographics={demographicsOf(profile)}
+                onSaveDemographics={handleSaveDemographics}
+                onRecordsChange={() => fetchHealthRecords(null).then(setRecords)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {profile && (
+          <Card className="border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="font-display flex items-center gap-2">
+                <Eye className="h-5 w-5 text-primary" />
+                {t('profile.aiView')}
+              </CardTitle>
+              <CardDescription>{t('profile.aiViewDescription')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {records ? (
+                <pre className="p-4 rounded-xl bg-secondary/40 border border-border/50 text-xs text-foreground whitespace-pre-wrap break-words font-mono">
+                  {describePatientContext(profile, records)}
+                </pre>
+              ) : (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="font-display flex items-center gap-2">
+              <Mail className="h-5 w-5 text-primary" />
+              {t('profile.email')}
+            </CardTitle>
+            <CardDescription>{t('profile.currentEmail', { email: user?.email ?? '' })}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...emailForm}>
+              <form onSubmit={emailForm.handleSubmit(handleChangeEmail)} className="space-y-4">
+                <FormField
+                  control={emailForm.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('profile.newEmail')}</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="you@example.com" autoComplete="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex justify-end">
+                  <Button type="submit" variant="outline" disabled={emailForm.formState.isSubmitting} className="rounded-lg">
+                    {emailForm.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {t('profile.changeEmail')}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card className="border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="font-display flex items-center gap-2">
+              <KeyRound className="h-5 w-5 text-primary" />
+              {t('profile.password')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...passwordForm}>
+              <form onSubmit={passwordForm.handleSubmit(handleChangePassword)} className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    control={passwordForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('profile.newPassword')}</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="••••••••" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={passwordForm.control}
+                    name="confirm"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('profile.confirmPassword')}</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="••••••••" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <Button type="submit" variant="outline" disabled={passwordForm.formState.isSubmitting} className="rounded-lg">
+                    {passwordForm.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {t('profile.changePassword')}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </motion.main>
+    </div>
+  );
+}
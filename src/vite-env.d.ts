@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Fixture scenario for offline development against AI_BACKEND=fixture
+  readonly VITE_AI_SCENARIO?: string;
+}
@@ -0,0 +1,608 @@
+// Provider-agnostic access to chat models for every edge function.
+// Backends all speak the OpenAI chat-completions wire format; which one is used, and which model
+// each function asks for, comes from the environment:
+//   AI_BACKEND                   lovable (default) | openai | local | fixture
+//   AI_MODEL_<FUNCTION>          model for one function, e.g. AI_MODEL_ANALYZE_SYMPTOMS
+//   AI_MODEL                     fallback model for every function
+//   AI_TIMEOUT_MS, AI_MAX_RETRIES
+//   AI_MAX_REPAIRS               extra attempts at a tool call whose arguments fail validation
+// Backend-specific settings are documented on each backend below.
+
+import { fixtureBackend } from "./aiFixtures.ts";
+import { validateSchema, type JsonSchema, type ValidationResult } from "./validation.ts";
+
+export type AIFunction = 'analyze-symptoms' | 'symptom-followup' | 'analyze-report';
+
+// Used when neither AI_MODEL_<FUNCTION> nor AI_MODEL is set
+const DEFAULT_MODELS: Record<AIFunction, string> = {
+  'analyze-symptoms': 'google/gemini-2.5-flash',
+  'symptom-followup': 'google/gemini-3-flash-preview',
+  'analyze-report': 'google/gemini-2.5-flash',
+};
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_MAX_REPAIRS = 2;
+const BACKOFF_BASE_MS = 500;
+// Upper bound on any single wait, including a Retry-After sent by the provider
+const BACKOFF_MAX_MS = 8_000;
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  // JSON schema for the arguments; tool calls are validated against it
+  parameters: JsonSchema;
+  // Normalised synonyms accepted for enum values (see validation.ts); never sent to the model
+  enumAliases?: Record<string, string>;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  // Forces the model to call this tool
+  toolChoice?: string;
+  timeoutMs?: number;
+}
+
+export interface ToolCall {
+  name: string;
+  // Raw JSON text as produced by the model
+  arguments: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResult {
+  content: string | null;
+  toolCalls: ToolCall[];
+  // null when the provider doesn't report usage
+  usage: TokenUsage | null;
+}
+
+export type AIErrorKind =
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'timeout'
+  | 'unavailable'
+  | 'bad_request'
+  | 'invalid_response'
+  | 'invalid_output'
+  | 'not_configured';
+
+// HTTP status an edge function should answer with for each kind of failure
+const ERROR_STATUS: Record<AIErrorKind, number> = {
+  rate_limited: 429,
+  quota_exceeded: 402,
+  timeout: 504,
+  unavailable: 503,
+  bad_request: 502,
+  invalid_response: 502,
+  invalid_output: 422,
+  not_configured: 500,
+};
+
+// Messages safe to show the end user; provider details only go to the logs
+const ERROR_MESSAGES: Record<AIErrorKind, string> = {
+  rate_limited: 'Rate limit exceeded. Please try again later.',
+  quota_exceeded: 'AI service requires payment. Please add credits.',
+  timeout: 'The AI service took too long to respond. Please try again.',
+  unavailable: 'The AI service is temporarily unavailable. Please try again later.',
+  bad_request: 'The AI service rejected the request.',
+  invalid_response: 'The AI service returned an unexpected response.',
+  invalid_output: 'The AI could not produce a complete answer. Please try again.',
+  not_configured: 'The AI service is not configured.',
+};
+
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly status: number;
+  // Seconds the caller should wait before trying again, when the provider said so
+  readonly retryAfter: number | null;
+
+  constructor(kind: AIErrorKind, detail?: string, retryAfter: number | null = null) {
+    super(ERROR_MESSAGES[kind]);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = ERROR_STATUS[kind];
+    this.retryAfter = retryAfter;
+    if (detail) this.cause = detail;
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'rate_limited' || this.kind === 'timeout' || this.kind === 'unavailable';
+  }
+}
+
+// JSON error response for an AIError, keeping the function's own CORS headers
+export function aiErrorResponse(error: AIError, headers: Record<string, string>): Response {
+  const responseHeaders: Record<string, string> = { ...headers, 'Content-Type': 'application/json' };
+  if (error.retryAfter !== null) responseHeaders['Retry-After'] = String(error.retryAfter);
+  return new Response(
+    JSON.stringify({ error: error.message, code: error.kind }),
+    { status: error.status, headers: responseHeaders },
+  );
+}
+
+// Body of an OpenAI-style chat-completions request, as sent to every backend
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools?: { type: 'function'; function: { name: string; description: string; parameters: JsonSchema } }[];
+  tool_choice?: { type: 'function'; function: { name: string } };
+  stream?: boolean;
+  // Asks for a final chunk carrying token usage
+  stream_options?: { include_usage: boolean };
+}
+
+export interface AIBackend {
+  name: string;
+  complete(request: CompletionRequest, signal: AbortSignal): Promise<Response>;
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new AIError('not_configured', `${name} is not configured`);
+  return value;
+}
+
+function openAICompatible(name: string, baseUrl: string, apiKey: string | null): AIBackend {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  return {
+    name,
+    complete: (request, signal) => fetch(url, {
+      method: 'POST',
+      headers: {
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal,
+    }),
+  };
+}
+
+interface BackendContext {
+  fn: AIFunction;
+  scenario: string | null;
+}
+
+type BackendFactory = (context: BackendContext) => AIBackend;
+
+const BACKENDS: Record<string, BackendFactory> = {
+  // Lovable AI gateway; needs LOVABLE_API_KEY
+  lovable: () => openAICompatible('lovable', 'https://ai.gateway.lovable.dev/v1', requireEnv('LOVABLE_API_KEY')),
+  // Any OpenAI-compatible provider; AI_BASE_URL defaults to OpenAI itself, AI_API_KEY is required
+  openai: () => openAICompatible(
+    'openai',
+    Deno.env.get('AI_BASE_URL') ?? 'https://api.openai.com/v1',
+    requireEnv('AI_API_KEY'),
+  ),
+  // A model server on the local network (Ollama, llama.cpp, vLLM...); AI_LOCAL_API_KEY is optional
+  local: () => openAICompatible(
+    'local',
+    Deno.env.get('AI_LOCAL_URL') ?? 'http://localhost:11434/v1',
+    Deno.env.get('AI_LOCAL_API_KEY') ?? null,
+  ),
+  // Canned replies for offline development; see aiFixtures.ts
+  fixture: ({ fn, scenario }) => fixtureBackend(fn, scenario),
+};
+
+function resolveBackend(context: BackendContext): AIBackend {
+  const name = (Deno.env.get('AI_BACKEND') ?? 'lovable').trim().toLowerCase();
+  const factory = BACKENDS[name];
+  if (!factory) throw new AIError('not_configured', `Unknown AI_BACKEND "${name}"`);
+  return factory(context);
+}
+
+function resolveModel(fn: AIFunction): string {
+  const key = `AI_MODEL_${fn.toUpperCase().replace(/-/g, '_')}`;
+  return Deno.env.get(key) ?? Deno.env.get('AI_MODEL') ?? DEFAULT_MODELS[fn];
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function parseRetryAfter(response: Response): number | null {
+  const header = response.headers.get('retry-after');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+async function errorFromResponse(response: Response): Promise<AIError> {
+  const detail = `${response.status} ${await response.text().catch(() => '')}`.trim();
+  if (response.status === 429) return new AIError('rate_limited', detail, parseRetryAfter(response));
+  if (response.status === 402) return new AIError('quota_exceeded', detail);
+  if (response.status === 408) return new AIError('timeout', detail);
+  if (response.status >= 500) return new AIError('unavailable', detail, parseRetryAfter(response));
+  return new AIError('bad_request', detail);
+}
+
+function backoffDelay(attempt: number, error: AIError): number {
+  if (error.retryAfter !== null) return Math.min(error.retryAfter * 1000, BACKOFF_MAX_MS);
+  const exponential = BACKOFF_BASE_MS * 2 ** attempt;
+  // Full jitter, so concurrent callers don't retry in lockstep
+  return Math.min(Math.random() * exponential + BACKOFF_BASE_MS / 2, BACKOFF_MAX_MS);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Cancel reason for a reader that stops early because it already has everything it needs, e.g.
+// `reader.cancel(STREAM_COMPLETE)`. The call is then recorded as a success, not as cancelled.
+export const STREAM_COMPLETE = 'complete';
+
+// Turns an OpenAI-style SSE body into a stream of content deltas. `onEnd` runs once, before the
+// stream closes, fails or is cancelled, with the text so far, the usage from the final chunk and
+// how the stream ended.
+function contentDeltas(
+  body: ReadableStream<Uint8Array>,
+  onEnd: (text: string, usage: TokenUsage | null, outcome: 'success' | 'cancelled' | 'error') => Promise<void>,
+): ReadableStream<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let lineBuffer = '';
+  let text = '';
+  let usage: TokenUsage | null = null;
+  let ended = false;
+
+  const end = async (outcome: 'success' | 'cancelled' | 'error') => {
+    if (ended) return;
+    ended = true;
+    await onEnd(text, usage, outcome);
+  };
+
+  return new ReadableStream<string>({
+    async pull(controller) {
+      while (true) {
+        const newlineIndex = lineBuffer.indexOf('\n');
+        if (newlineIndex === -1) {
+          let chunk: ReadableStreamReadResult<Uint8Array>;
+          try {
+            chunk = await reader.read();
+          } catch (error) {
+            // The provider dropped the connection mid-reply; the reader sees the error
+            await end('error');
+            throw error;
+          }
+          const { done, value } = chunk;
+          if (done) {
+            await end('success');
+            controller.close();
+            return;
+          }
+          lineBuffer += decoder.decode(value, { stream: true });
+          continue;
+        }
+
+        const line = lineBuffer.slice(0, newlineIndex).replace(/\r$/, '');
+        lineBuffer = lineBuffer.slice(newlineIndex + 1);
+        if (!line.startsWith('data: ')) continue;
+        const data = line.slice(6).trim();
+        if (data === '[DONE]') continue;
+
+        try {
+          const chunk = JSON.parse(data);
+          usage = parseUsage(chunk.usage) ?? usage;
+          const content = chunk.choices?.[0]?.delta?.content;
+          if (content) {
+            text += content;
+            controller.enqueue(content);
+            return;
+          }
+        } catch {
+          console.error('Skipping malformed stream line:', data);
+        }
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel();
+      await end(reason === STREAM_COMPLETE ? 'success' : 'cancelled');
+    },
+  });
+}
+
+// The parts of a chat-completions response we read
+interface CompletionMessage {
+  content?: unknown;
+  tool_calls?: { function?: { name?: string; arguments?: string } }[];
+}
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface CompletionResponse {
+  choices?: { message?: CompletionMessage }[];
+  usage?: CompletionUsage;
+}
+
+function parseUsage(usage: CompletionUsage | null | undefined): TokenUsage | null {
+  if (!usage || typeof usage.prompt_tokens !== 'number') return null;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? usage.prompt_tokens + completionTokens,
+  };
+}
+
+function addUsage(total: TokenUsage | null, usage: TokenUsage | null): TokenUsage | null {
+  if (!total || !usage) return total ?? usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
+
+function parseToolCalls(message: CompletionMessage): ToolCall[] {
+  return (message.tool_calls ?? []).flatMap((call) => call.function?.name
+    ? [{ name: call.function.name, arguments: call.function.arguments ?? '' }]
+    : []);
+}
+
+function checkToolArguments<T>(tool: ToolDefinition, raw: string | null): ValidationResult<T> {
+  const rejected = (error: string) => ({ value: undefined as T, errors: [error] });
+  if (raw === null) return rejected(`no ${tool.name} call was made`);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return rejected('the arguments were not valid JSON');
+  }
+  return validateSchema<T>(tool.parameters, parsed, tool.enumAliases);
+}
+
+export interface AIClient {
+  backend: string;
+  model: string;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  // Resolves once the provider has accepted the request; the stream yields content deltas
+  chatStream(request: ChatRequest): Promise<ReadableStream<string>>;
+  // Forces a call to `tool` and returns its arguments once they pass the tool's schema.
+  // Invalid arguments are sent back to the model to fix, up to AI_MAX_REPAIRS times.
+  callTool<T>(request: Omit<ChatRequest, 'tools' | 'toolChoice'>, tool: ToolDefinition): Promise<T>;
+}
+
+// One chat, stream or tool call as the caller saw it, retries and repairs included
+export interface AICallRecord {
+  fn: AIFunction;
+  backend: string;
+  model: string;
+  kind: 'chat' | 'stream' | 'tool';
+  // The messages the caller sent, before any repair turns were added
+  messages: ChatMessage[];
+  // Reply text, or the validated tool arguments; null when the call failed
+  output: unknown;
+  usage: TokenUsage | null;
+  latencyMs: number;
+  // Requests sent to the provider, counting retries and repairs
+  attempts: number;
+  outcome: 'success' | 'cancelled' | AIErrorKind | 'error';
+}
+
+export interface AIClientOptions {
+  // Fixture scenario requested by the caller; ignored by every other backend
+  scenario?: string | null;
+  // Called once per call when it finishes or fails. Streams are recorded before they close.
+  // Failures here are logged and never fail the call itself.
+  onRecord?: (record: AICallRecord) => Promise<void>;
+}
+
+interface CallStats {
+  started: number;
+  attempts: number;
+}
+
+const newStats = (): CallStats => ({ started: Date.now(), attempts: 0 });
+
+// Scenario header the web app sends when VITE_AI_SCENARIO is set
+export const SCENARIO_HEADER = 'x-ai-scenario';
+
+export function createAIClient(fn: AIFunction, options: AIClientOptions = {}): AIClient {
+  const backend = resolveBackend({ fn, scenario: options.scenario ?? null });
+  const model = resolveModel(fn);
+  const defaultTimeout = envNumber('AI_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+  const maxRetries = envNumber('AI_MAX_RETRIES', DEFAULT_MAX_RETRIES);
+  const maxRepairs = envNumber('AI_MAX_REPAIRS', DEFAULT_MAX_REPAIRS);
+
+  const toCompletionRequest = (request: ChatRequest, stream: boolean): CompletionRequest => ({
+    model,
+    messages: request.messages,
+    ...(request.tools?.length
+      ? {
+        tools: request.tools.map(({ name, description, parameters }) => ({
+          type: 'function' as const,
+          function: { name, description, parameters },
+        })),
+      }
+      : {}),
+    ...(request.toolChoice ? { tool_choice: { type: 'function' as const, function: { name: request.toolChoice } } } : {}),
+    ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+  });
+
+  // Sends the request, retrying transient failures. For streams the timeout only covers
+  // waiting for the response to start; the body is left to the caller.
+  const send = async (request: ChatRequest, stream: boolean, stats: CallStats): Promise<Response> => {
+    const body = toCompletionRequest(request, stream);
+    const timeoutMs = request.timeoutMs ?? defaultTimeout;
+
+    for (let attempt = 0; ; attempt++) {
+      stats.attempts++;
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      const started = Date.now();
+      let error: AIError;
+
+      try {
+        const response = await backend.complete(body, controller.signal);
+        console.log(`[ai] ${fn} ${backend.name}/${model} -> ${response.status} in ${Date.now() - started}ms`);
+        if (response.ok) {
+          if (!stream) {
+            // Keep the timeout running while the body downloads
+            const text = await response.text();
+            return new Response(text, { status: response.status, headers: response.headers });
+          }
+          return response;
+        }
+        error = await errorFromResponse(response);
+      } catch (caught) {
+        if (caught instanceof AIError) throw caught;
+        error = controller.signal.aborted
+          ? new AIError('timeout', `No response within ${timeoutMs}ms`)
+          : new AIError('unavailable', caught instanceof Error ? caught.message : String(caught));
+      } finally {
+        clearTimeout(timer);
+      }
+
+      console.error(`[ai] ${fn} attempt ${attempt + 1} failed (${error.kind}):`, error.cause ?? '');
+      if (!error.retryable || attempt >= maxRetries) throw error;
+      await sleep(backoffDelay(attempt, error));
+    }
+  };
+
+  const record = async (
+    kind: AICallRecord['kind'],
+    messages: ChatMessage[],
+    stats: CallStats,
+    result: { output: unknown; usage: TokenUsage | null; outcome: AICallRecord['outcome'] },
+  ) => {
+    if (!options.onRecord) return;
+    try {
+      await options.onRecord({
+        fn,
+        backend: backend.name,
+        model,
+        kind,
+        messages,
+        ...result,
+        latencyMs: Date.now() - stats.started,
+        attempts: stats.attempts,
+      });
+    } catch (error) {
+      console.error(`[ai] ${fn} failed to record call:`, error);
+    }
+  };
+
+  const failure = (error: unknown): AICallRecord['outcome'] => (error instanceof AIError ? error.kind : 'error');
+
+  const complete = async (request: ChatRequest, stats: CallStats): Promise<ChatResult> => {
+    const response = await send(request, false, stats);
+    let data: CompletionResponse;
+    try {
+      data = await response.json();
+    } catch {
+      throw new AIError('invalid_response', 'Response body was not JSON');
+    }
+    const message = data.choices?.[0]?.message;
+    if (!message) throw new AIError('invalid_response', 'Response had no message');
+    return {
+      content: typeof message.content === 'string' ? message.content : null,
+      toolCalls: parseToolCalls(message),
+      usage: parseUsage(data.usage),
+    };
+  };
+
+  // Forces the tool call, sending invalid arguments back to the model to fix
+  const callToolWithRepairs = async <T>(
+    request: Omit<ChatRequest, 'tools' | 'toolChoice'>,
+    tool: ToolDefinition,
+    stats: CallStats,
+    onUsage: (usage: TokenUsage | null) => void,
+  ): Promise<T> => {
+    const messages = [...request.messages];
+
+    for (let attempt = 0; ; attempt++) {
+      const result = await complete({ ...request, messages, tools: [tool], toolChoice: tool.name }, stats);
+      onUsage(result.usage);
+      const call = result.toolCalls.find((candidate) => candidate.name === tool.name);
+      // Some models answer with the JSON as plain content instead of a tool call
+      const raw = call?.arguments ?? result.content?.match(/\{[\s\S]*\}/)?.[0] ?? null;
+
+      const { value, errors } = checkToolArguments<T>(tool, raw);
+      if (errors.length === 0) return value;
+
+      console.error(`[ai] ${fn} ${tool.name} output invalid (attempt ${attempt + 1}):`, errors);
+      if (attempt >= maxRepairs) throw new AIError('invalid_output', errors.join('; '));
+
+      messages.push(
+        { role: 'assistant', content: raw ?? result.content ?? '' },
+        {
+          role: 'user',
+          content: `That ${tool.name} call was rejected:\n${errors.map((error) => `- ${error}`).join('\n')}\n` +
+            `Call ${tool.name} again with complete, corrected arguments that follow the schema exactly.`,
+        },
+      );
+    }
+  };
+
+  return {
+    backend: backend.name,
+    model,
+
+    async chat(request) {
+      const stats = newStats();
+      try {
+        const result = await complete(request, stats);
+        await record('chat', request.messages, stats, {
+          output: result.toolCalls.length > 0 ? { content: result.content, toolCalls: result.toolCalls } : result.content,
+          usage: result.usage,
+          outcome: 'success',
+        });
+        return result;
+      } catch (error) {
+        await record('chat', request.messages, stats, { output: null, usage: null, outcome: failure(error) });
+        throw error;
+      }
+    },
+
+    async chatStream(request) {
+      const stats = newStats();
+      let response: Response;
+      try {
+        response = await send(request, true, stats);
+        if (!response.body) throw new AIError('invalid_response', 'Streaming response had no body');
+      } catch (error) {
+        await record('stream', request.messages, stats, { output: null, usage: null, outcome: failure(error) });
+        throw error;
+      }
+
+      return contentDeltas(response.body, (text, usage, outcome) =>
+        record('stream', request.messages, stats, { output: outcome === 'error' ? null : text, usage, outcome }));
+    },
+
+    async callTool<T>(request: Omit<ChatRequest, 'tools' | 'toolChoice'>, tool: ToolDefinition) {
+      const stats = newStats();
+      let usage: TokenUsage | null = null;
+      try {
+        const value = await callToolWithRepairs<T>(request, tool, stats, (used) => {
+          usage = addUsage(usage, used);
+        });
+        await record('tool', request.messages, stats, { output: value, usage, outcome: 'success' });
+        return value;
+      } catch (error) {
+        await record('tool', request.messages, stats, { output: null, usage, outcome: failure(error) });
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,259 @@
+// Offline stand-in for a model provider, selected with AI_BACKEND=fixture. Replies come from
+// scripted scenarios below, or from recorded JSON files when AI_FIXTURE_DIR is set
+// (<dir>/<function>/<scenario>.json holding a single reply or an array of them).
+// The scenario is AI_FIXTURE_SCENARIO, unless the request names one in the x-ai-scenario header.
+
+import type { AIBackend, AIFunction, CompletionRequest } from "./ai.ts";
+
+export const DEFAULT_SCENARIO = 'default';
+
+export type FixtureReply =
+  | { content: string }
+  | { toolCall: { name: string; arguments: unknown } }
+  // A provider failure, e.g. { status: 429, error: 'Too many requests', retryAfter: 2 }
+  | { status: number; error: string; retryAfter?: number };
+
+// A conversation script: reply N answers the request whose messages hold N assistant turns,
+// and the last reply repeats once the script runs out
+type Scenario = FixtureReply[];
+
+const followup = (covered: string[], question: string, format: Record<string, unknown> = { kind: 'text' }) => ({
+  content: `[COVERAGE] ${JSON.stringify(covered)}\n${question}\n[ANSWER_FORMAT] ${JSON.stringify(format)}`,
+});
+
+const ALL_DIMENSIONS = [
+  'onset', 'duration', 'severity', 'progression', 'associated_symptoms', 'triggers', 'treatments', 'impact',
+];
+
+// Failures any function can be pointed at, to exercise error handling end to end
+const ERROR_SCENARIOS: Record<string, Scenario> = {
+  'rate-limited': [{ status: 429, error: 'Rate limit exceeded', retryAfter: 1 }],
+  'quota-exceeded': [{ status: 402, error: 'Payment required' }],
+  'unavailable': [{ status: 503, error: 'Service unavailable' }],
+};
+
+const SCENARIOS: Record<AIFunction, Record<string, Scenario>> = {
+  'symptom-followup': {
+    // A headache assessment that needs five questions
+    default: [
+      followup([], 'When did the headache start, and did it come on suddenly or gradually?', {
+        kind: 'single_choice',
+        options: ['Suddenly', 'Gradually over hours', 'Gradually over days'],
+      }),
+      followup(['onset'], 'How long has it lasted so far?', { kind: 'duration', units: ['hours', 'days', 'weeks'] }),
+      followup(['onset', 'duration'], 'How bad is the pain right now?', {
+        kind: 'scale',
+        range: { min: 1, max: 10, minLabel: 'Mild', maxLabel: 'Worst imaginable' },
+      }),
+      followup(['onset', 'duration', 'severity', 'progression'], 'Have you noticed any of these as well?', {
+        kind: 'multi_choice',
+        options: ['Nausea', 'Sensitivity to light', 'Fever', 'Stiff neck', 'None of these'],
+      }),
+      followup(
+        ['onset', 'duration', 'severity', 'progression', 'associated_symptoms', 'triggers'],
+        'Have you taken anything for it, and is it stopping you from working or sleeping?',
+      ),
+      followup(ALL_DIMENSIONS, ''),
+    ],
+    // The first answer already covers everything, so the assessment completes straight away
+    complete: [followup(ALL_DIMENSIONS, '')],
+    // Model that ignores the reply format entirely
+    'no-markers': [{ content: 'Can you tell me a bit more about how you are feeling?' }],
+    ...ERROR_SCENARIOS,
+  },
+  'analyze-symptoms': {
+    default: [{
+      toolCall: {
+        name: 'analyze_symptoms',
+        arguments: {
+          possibleConditions: [
+            { name: 'Tension-type headache', englishName: 'Tension-type headache', description: 'A common headache caused by muscle tension, often linked to stress or poor sleep.', likelihood: 'High', evidence: [{ source: 'T1', stance: 'supports' }, { source: 'T4', stance: 'supports' }] },
+            { name: 'Migraine', englishName: 'Migraine', description: 'Recurring headaches that can come with nausea and sensitivity to light.', likelihood: 'Medium', evidence: [{ source: 'T5', stance: 'supports' }, { source: 'T3', stance: 'against' }] },
+            { name: 'Dehydration', englishName: 'Dehydration', description: 'Not drinking enough fluids can cause headaches and tiredness.', likelihood: 'Low', evidence: [{ source: 'T1', stance: 'supports' }] },
+          ],
+          recommendations: [
+            'Rest in a quiet, dark room and drink plenty of water',
+            'An over-the-counter pain reliever may help; follow the dosage on the label',
+            'See a doctor if the headache lasts more than a few days or keeps coming back',
+          ],
+          urgencyLevel: 'Non-urgent',
+          warningSigns: [
+            'Sudden, severe headache unlike any before',
+            'Stiff neck with a fever',
+            'Confusion, weakness or trouble speaking',
+          ],
+          specialist: { type: 'General practitioner', reason: 'Most headaches can be assessed and managed in primary care.' },
+          followUpWindow: { amount: 3, unit: 'days' },
+          selfCare: [
+            { timeframe: 'now', steps: ['Drink a large glass of water', 'Rest somewhere quiet and dark'] },
+            { timeframe: 'next_24_hours', steps: ['Take regular breaks from screens', 'Eat regular meals'] },
+            { timeframe: 'ongoing', steps: ['Keep a headache diary to spot triggers'] },
+          ],
+        },
+      },
+    }],
+    urgent: [{
+      toolCall: {
+        name: 'analyze_symptoms',
+        arguments: {
+          possibleConditions: [
+            { name: 'Appendicitis', englishName: 'Appendicitis', description: 'Inflammation of the appendix, usually causing pain that moves to the lower right abdomen.', likelihood: 'High', evidence: [{ source: 'T1', stance: 'supports' }] },
+            { name: 'Gastroenteritis', englishName: 'Gastroenteritis', description: 'An infection of the gut that causes stomach pain, vomiting and diarrhoea.', likelihood: 'Medium', evidence: [{ source: 'T1', stance: 'supports' }, { source: 'H1', stance: 'against' }] },
+          ],
+          recommendations: [
+            'Get seen by a doctor today, or go to urgent care',
+            'Avoid eating or drinking until you have been examined',
+          ],
+          urgencyLevel: 'Urgent',
+          warningSigns: ['Pain that becomes severe or spreads across the abdomen', 'High fever or shivering', 'Vomiting that will not stop'],
+          specialist: { type: 'Urgent care or emergency department', reason: 'Appendicitis needs an examination and usually blood tests or a scan.' },
+          followUpWindow: { amount: 6, unit: 'hours' },
+          selfCare: [{ timeframe: 'now', steps: ['Avoid painkillers until a clinician has examined you', 'Arrange a lift rather than driving yourself'] }],
+        },
+      },
+    }],
+    // Loose enums that validation coerces, then a reply missing its recommendations that has to be repaired
+    'needs-repair': [
+      {
+        toolCall: {
+          name: 'analyze_symptoms',
+          arguments: {
+            possibleConditions: [{ name: 'Common cold', englishName: 'Common cold', description: 'A mild viral infection of the nose and throat.', likelihood: 'moderate', evidence: [{ source: 't1', stance: 'Supports' }] }],
+            urgencyLevel: 'non urgent',
+            warningSigns: ['Difficulty breathing'],
+            specialist: { type: 'General practitioner', reason: 'Only needed if it drags on.' },
+            followUpWindow: { amount: '10', unit: 'Days' },
+            selfCare: [{ timeframe: 'Now', steps: ['Rest'] }],
+          },
+        },
+      },
+      {
+        toolCall: {
+          name: 'analyze_symptoms',
+          arguments: {
+            possibleConditions: [{ name: 'Common cold', englishName: 'Common cold', description: 'A mild viral infection of the nose and throat.', likelihood: 'moderate', evidence: [{ source: 't1', stance: 'Supports' }] }],
+            recommendations: ['Rest and drink plenty of fluids'],
+            urgencyLevel: 'non urgent',
+            warningSigns: ['Difficulty breathing'],
+            specialist: { type: 'General practitioner', reason: 'Only needed if it drags on.' },
+            followUpWindow: { amount: '10', unit: 'Days' },
+            selfCare: [{ timeframe: 'Now', steps: ['Rest'] }],
+          },
+        },
+      },
+    ],
+    // Arguments that are never valid JSON, so repair gives up
+    malformed: [{ toolCall: { name: 'analyze_symptoms', arguments: '{"possibleConditions": [' } }],
+    ...ERROR_SCENARIOS,
+  },
+  'analyze-report': {
+    default: [{
+      toolCall: {
+        name: 'analyze_medical_report',
+        arguments: {
+          reportType: 'Complete Blood Count',
+          summary: 'Most values are within the normal range. Haemoglobin is slightly low, which can point to mild anaemia.',
+          keyFindings: ['Haemoglobin 11.2 g/dL (slightly below range)', 'White cell count normal', 'Platelets normal'],
+          possibleConditions: ['Mild iron-deficiency anaemia'],
+          medicalTermsExplained: [
+            { term: 'Haemoglobin', explanation: 'The protein in red blood cells that carries oxygen around the body.' },
+          ],
+          recommendations: ['Discuss the result with your doctor', 'Ask whether an iron test would be useful'],
+          urgencyLevel: 'low',
+        },
+      },
+    }],
+    malformed: [{ toolCall: { name: 'analyze_medical_report', arguments: 'not json' } }],
+    ...ERROR_SCENARIOS,
+  },
+};
+
+async function loadRecordedScenario(fn: AIFunction, scenario: string): Promise<Scenario | null> {
+  const dir = Deno.env.get('AI_FIXTURE_DIR');
+  // Scenario names come from a request header, so keep them to a single path segment
+  if (!dir || !/^[\w-]+$/.test(scenario)) return null;
+  try {
+    const recorded = JSON.parse(await Deno.readTextFile(`${dir}/${fn}/${scenario}.json`));
+    return Array.isArray(recorded) ? recorded : [recorded];
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      console.error('Failed to read AI fixture:', fn, scenario, error);
+    }
+    return null;
+  }
+}
+
+function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+}
+
+// Streams the content in small chunks, the way a provider would, so relay code sees split markers
+function streamContent(content: string): Response {
+  const encoder = new TextEncoder();
+  const chunks = content.match(/[\s\S]{1,12}/g) ?? [];
+  const lines = [
+    ...chunks.map((chunk) => `data: ${JSON.stringify({ choices: [{ delta: { content: chunk } }] })}\n\n`),
+    'data: [DONE]\n\n',
+  ];
+  return new Response(
+    new ReadableStream({
+      pull(controller) {
+        const line = lines.shift();
+        if (line === undefined) controller.close();
+        else controller.enqueue(encoder.encode(line));
+      },
+    }),
+    { headers: { 'Content-Type': 'text/event-stream' } },
+  );
+}
+
+function replyResponse(reply: FixtureReply, request: CompletionRequest): Response {
+  if ('status' in reply) {
+    return jsonResponse(
+      { error: { message: reply.error } },
+      { status: reply.status, headers: reply.retryAfter !== undefined ? { 'Retry-After': String(reply.retryAfter) } : {} },
+    );
+  }
+
+  if ('toolCall' in reply) {
+    const requested = request.tool_choice?.function.name;
+    if (requested && requested !== reply.toolCall.name) {
+      return jsonResponse({ error: { message: `Fixture calls ${reply.toolCall.name}, request wants ${requested}` } }, { status: 400 });
+    }
+    const args = reply.toolCall.arguments;
+    return jsonResponse({
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{
+            id: 'fixture-call',
+            type: 'function',
+            function: { name: reply.toolCall.name, arguments: typeof args === 'string' ? args : JSON.stringify(args) },
+          }],
+        },
+      }],
+    });
+  }
+
+  if (request.stream) return streamContent(reply.content);
+  return jsonResponse({ choices: [{ message: { role: 'assistant', content: reply.content } }] });
+}
+
+export function fixtureBackend(fn: AIFunction, scenario: string | null): AIBackend {
+  const name = scenario || Deno.env.get('AI_FIXTURE_SCENARIO') || DEFAULT_SCENARIO;
+  return {
+    name: `fixture:${name}`,
+    async complete(request) {
+      const script = await loadRecordedScenario(fn, name) ?? SCENARIOS[fn][name];
+      if (!script || script.length === 0) {
+        return jsonResponse({ error: { message: `No "${name}" fixture for ${fn}` } }, { status: 400 });
+      }
+      const turn = request.messages.filter((message) => message.role === 'assistant').length;
+      return replyResponse(script[Math.min(turn, script.length - 1)], request);
+    },
+  };
+}
@@ -0,0 +1,52 @@
+// Append-only record of every model call made for a signed-in user, in public.ai_audit_log.
+// Rows are written with the service-role client and can only be read back by their owner;
+// anonymous calls are never recorded, since there is no user to attribute them to.
+
+import type { AICallRecord, ChatMessage } from "./ai.ts";
+import type { Caller } from "./auth.ts";
+
+// Photos are sent as data URLs; the record keeps a placeholder and the hash still covers them
+function withoutImages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((message) => typeof message.content === 'string'
+    ? message
+    : {
+      ...message,
+      content: message.content.map((part) => part.type === 'image_url'
+        ? { type: 'image_url' as const, image_url: { url: '[image]' } }
+        : part),
+    });
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The AI client's onRecord hook for this caller, or undefined for anonymous callers
+export function auditRecorder(
+  caller: Caller,
+  promptVersion: string,
+): ((record: AICallRecord) => Promise<void>) | undefined {
+  if (caller.mode === 'anonymous') return undefined;
+
+  return async (record) => {
+    const { error } = await caller.supabase.from('ai_audit_log').insert({
+      user_id: caller.userId,
+      function_name: record.fn,
+      call_kind: record.kind,
+      backend: record.backend,
+      model: record.model,
+      prompt_version: promptVersion,
+      input_hash: await sha256(JSON.stringify(record.messages)),
+      input: withoutImages(record.messages),
+      output: record.output,
+      outcome: record.outcome,
+      latency_ms: record.latencyMs,
+      attempts: record.attempts,
+      prompt_tokens: record.usage?.promptTokens ?? null,
+      completion_tokens: record.usage?.completionTokens ?? null,
+      total_tokens: record.usage?.totalTokens ?? null,
+    });
+    if (error) console.error('Failed to write AI audit record:', record.fn, error);
+  };
+}
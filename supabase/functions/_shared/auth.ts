@@ -0,0 +1,67 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Who is calling an edge function, derived from the Authorization header and never from the body.
+export type Caller =
+  // A signed-in user, with a service-role client for loading their data. Queries must still be
+  // scoped to userId, since the client bypasses RLS.
+  | { mode: 'user'; userId: string; supabase: SupabaseClient }
+  // Called with the publishable key and no session. Requests are answered from the body alone:
+  // the only thing written to the database is usage against the anonymous quota, under clientKey.
+  | { mode: 'anonymous'; clientKey: string };
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Bypasses RLS: every query made with it must be scoped to the caller
+export function serviceClient(): SupabaseClient {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+}
+
+// Headers set by the platform's edge from the connection itself, which a client can't override
+const CLIENT_ADDRESS_HEADERS = ['cf-connecting-ip', 'x-real-ip'];
+
+// The caller's address as the platform saw it. x-forwarded-for is only a fallback, and then only
+// its right-most entry: that is the one our proxy appended, everything before it is client-supplied.
+function clientAddress(req: Request): string | null {
+  for (const header of CLIENT_ADDRESS_HEADERS) {
+    const address = req.headers.get(header)?.trim();
+    if (address) return address;
+  }
+  return req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || null;
+}
+
+// A hash of the client's address, so anonymous usage can be counted without storing the address
+// itself. A request without one can't be metered on its own, so it has to sign in.
+async function anonymousClientKey(req: Request): Promise<string> {
+  const address = clientAddress(req);
+  if (!address) throw new AuthError('Please sign in to continue.');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(address));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function authenticate(req: Request): Promise<Caller> {
+  const token = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token || token === Deno.env.get('SUPABASE_ANON_KEY')) {
+    return { mode: 'anonymous', clientKey: await anonymousClientKey(req) };
+  }
+
+  const supabase = serviceClient();
+  const { data, error } = await supabase.auth.getUser(token);
+  // A token that isn't the publishable key must belong to a user; an expired session is
+  // rejected rather than quietly downgraded to anonymous
+  if (error || !data.user) {
+    throw new AuthError('Your session has expired. Please sign in again.');
+  }
+  return { mode: 'user', userId: data.user.id, supabase };
+}
+
+export function authErrorResponse(error: AuthError, headers: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ error: error.message, code: 'unauthorized' }),
+    { status: 401, headers: { ...headers, 'Content-Type': 'application/json' } },
+  );
+}
@@ -0,0 +1,79 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { codeCondition, codeConditions } from "./clinicalCodes.ts";
+
+Deno.test('codeCondition codes the names the model commonly uses', () => {
+  const cases: { name: string; icd10: string }[] = [
+    { name: 'Migraine', icd10: 'G43.909' },
+    { name: 'Headache, tension', icd10: 'G44.209' },
+    { name: 'Possible tension headache', icd10: 'G44.209' },
+    { name: 'Chronic tension headache', icd10: 'G44.209' },
+    { name: 'Acute bronchitis', icd10: 'J20.9' },
+    { name: 'Viral gastroenteritis', icd10: 'A09' },
+    { name: 'Flu', icd10: 'J11.1' },
+    { name: 'Influenza (flu)', icd10: 'J11.1' },
+    { name: 'Gastroenteritis (stomach flu)', icd10: 'A09' },
+    { name: 'Migrane', icd10: 'G43.909' },
+    { name: 'Anaemia', icd10: 'D64.9' },
+    { name: 'Diarrhoea', icd10: 'R19.7' },
+    { name: "Bell's palsy", icd10: 'G51.0' },
+    { name: 'Fever', icd10: 'R50.9' },
+    { name: 'Stroke', icd10: 'I63.9' },
+    { name: 'Hypotension', icd10: 'I95.9' },
+    { name: 'Hypertension', icd10: 'I10' },
+    { name: 'Type 2 diabetes', icd10: 'E11.9' },
+  ];
+
+  for (const { name, icd10 } of cases) {
+    assertEquals(codeCondition(name)?.icd10, icd10, name);
+  }
+});
+
+Deno.test('codeCondition leaves distinct diseases and negated names uncoded', () => {
+  const cases: { name: string; reason: string }[] = [
+    { name: 'Scarlet fever', reason: 'a disease named after a symptom is not the symptom' },
+    { name: 'Dengue fever', reason: 'a disease named after a symptom is not the symptom' },
+    { name: 'Rheumatic fever', reason: 'a disease named after a symptom is not the symptom' },
+    { name: 'Bird flu', reason: 'a specific influenza is not seasonal flu' },
+    { name: 'Not a stroke', reason: 'negated' },
+    { name: 'Stroke ruled out', reason: 'negated' },
+    { name: 'Non-allergic rhinitis', reason: 'negated' },
+    { name: 'Chest pain without heart attack', reason: 'negated' },
+    { name: 'Hyperglycemia', reason: 'the opposite of hypoglycemia' },
+    { name: 'Type 1 diabetes', reason: 'a different type from type 2' },
+    { name: 'Type 1 diabetes mellitus', reason: 'a different type from type 2' },
+    { name: 'Xyzzy syndrome', reason: 'unknown' },
+    { name: '', reason: 'empty' },
+  ];
+
+  for (const { name, reason } of cases) {
+    assertEquals(codeCondition(name), null, `${name}: ${reason}`);
+  }
+});
+
+Deno.test('codeCondition scores between the threshold and 1', () => {
+  assertEquals(codeCondition('Common cold')?.score, 1);
+  const partial = codeCondition('Chronic tension headache');
+  assertEquals(partial !== null && partial.score >= 0.8 && partial.score < 1, true);
+});
+
+Deno.test('codeConditions attaches a coding to every condition', () => {
+  const coded = codeConditions([
+    { name: 'Urinary tract infection', likelihood: 'High' },
+    { name: 'Scarlet fever', likelihood: 'Low' },
+  ]);
+
+  assertEquals(coded.map((condition) => [condition.name, condition.likelihood, condition.coding?.icd10 ?? null]), [
+    ['Urinary tract infection', 'High', 'N39.0'],
+    ['Scarlet fever', 'Low', null],
+  ]);
+});
+
+Deno.test('codeConditions codes the English name of a translated condition', () => {
+  const coded = codeConditions([
+    { name: 'Infección urinaria', englishName: 'Urinary tract infection' },
+    { name: 'माइग्रेन', englishName: 'Migraine' },
+    { name: 'Rhume' },
+  ]);
+
+  assertEquals(coded.map((condition) => condition.coding?.icd10 ?? null), ['N39.0', 'G43.909', null]);
+});
@@ -0,0 +1,284 @@
+// Maps free-text condition names to ICD-10-CM codes (and SNOMED CT concepts where we carry them)
+// using a bundled table, so history can be aggregated and exported without another service.
+// Bump CLINICAL_CODES_VERSION whenever an entry is added, removed or recoded.
+
+export const CLINICAL_CODES_VERSION = '2026-01-30.2';
+
+export interface ClinicalCodeEntry {
+  icd10: string;
+  snomed?: string;
+  // The ICD-10-CM title, shortened where the full one is unwieldy
+  display: string;
+  // Other names the condition goes by; matching also considers the display name
+  synonyms: string[];
+}
+
+export interface ConditionCoding {
+  icd10: string;
+  snomed?: string;
+  display: string;
+  // How closely the name matched, from MATCH_THRESHOLD to 1
+  score: number;
+}
+
+export const CLINICAL_CODES: ClinicalCodeEntry[] = [
+  // Head and neurological
+  { icd10: 'G44.209', snomed: '398057008', display: 'Tension-type headache', synonyms: ['tension headache', 'stress headache'] },
+  { icd10: 'G43.909', snomed: '37796009', display: 'Migraine', synonyms: ['migraine headache', 'migraine with aura', 'migraine without aura'] },
+  { icd10: 'G44.009', snomed: '193031009', display: 'Cluster headache', synonyms: [] },
+  { icd10: 'R51.9', snomed: '25064002', display: 'Headache', synonyms: [] },
+  { icd10: 'R42', snomed: '404640003', display: 'Dizziness', synonyms: ['lightheadedness', 'vertigo', 'giddiness'] },
+  { icd10: 'H81.10', display: 'Benign paroxysmal positional vertigo', synonyms: ['bppv', 'positional vertigo'] },
+  { icd10: 'H83.09', display: 'Labyrinthitis', synonyms: ['vestibular neuritis', 'inner ear infection'] },
+  { icd10: 'R55', snomed: '271594007', display: 'Syncope', synonyms: ['fainting', 'vasovagal syncope', 'blackout'] },
+  { icd10: 'R56.9', snomed: '91175000', display: 'Seizure', synonyms: ['convulsions', 'epileptic seizure'] },
+  { icd10: 'I63.9', snomed: '230690007', display: 'Stroke', synonyms: ['cerebral infarction', 'cerebrovascular accident', 'cva', 'ischemic stroke'] },
+  { icd10: 'G45.9', snomed: '266257000', display: 'Transient ischemic attack', synonyms: ['tia', 'mini stroke'] },
+  { icd10: 'G51.0', snomed: '193093009', display: "Bell's palsy", synonyms: ['facial palsy', 'facial nerve palsy'] },
+  { icd10: 'G03.9', snomed: '7180009', display: 'Meningitis', synonyms: [] },
+  { icd10: 'S06.0X0A', snomed: '110030002', display: 'Concussion', synonyms: ['mild traumatic brain injury', 'head injury'] },
+  { icd10: 'G56.00', snomed: '57406009', display: 'Carpal tunnel syndrome', synonyms: [] },
+  { icd10: 'G47.00', snomed: '193462001', display: 'Insomnia', synonyms: ['sleeplessness', 'trouble sleeping'] },
+  { icd10: 'G47.33', snomed: '78275009', display: 'Obstructive sleep apnea', synonyms: ['sleep apnea'] },
+
+  // Respiratory, ear, nose and throat
+  { icd10: 'J00', snomed: '82272006', display: 'Common cold', synonyms: ['acute nasopharyngitis', 'head cold', 'coryza'] },
+  { icd10: 'J06.9', snomed: '54150009', display: 'Upper respiratory tract infection', synonyms: ['upper respiratory infection', 'uri', 'urti', 'chest cold'] },
+  { icd10: 'J11.1', snomed: '6142004', display: 'Influenza', synonyms: ['flu', 'seasonal flu', 'seasonal influenza'] },
+  { icd10: 'U07.1', snomed: '840539006', display: 'COVID-19', synonyms: ['covid', 'coronavirus infection', 'sars cov 2 infection'] },
+  { icd10: 'J02.9', display: 'Pharyngitis', synonyms: ['sore throat', 'viral pharyngitis'] },
+  { icd10: 'J02.0', snomed: '43878008', display: 'Streptococcal pharyngitis', synonyms: ['strep throat', 'strep'] },
+  { icd10: 'J03.90', snomed: '90176007', display: 'Tonsillitis', synonyms: [] },
+  { icd10: 'J05.0', snomed: '71186008', display: 'Croup', synonyms: ['laryngotracheobronchitis'] },
+  { icd10: 'J01.90', display: 'Sinusitis', synonyms: ['sinus infection', 'rhinosinusitis', 'sinus headache'] },
+  { icd10: 'J32.9', snomed: '40055000', display: 'Chronic sinusitis', synonyms: ['chronic rhinosinusitis'] },
+  { icd10: 'J30.9', snomed: '61582004', display: 'Allergic rhinitis', synonyms: ['hay fever', 'seasonal allergies', 'nasal allergies'] },
+  { icd10: 'J20.9', snomed: '10509002', display: 'Bronchitis', synonyms: ['chest infection'] },
+  { icd10: 'J21.9', snomed: '4120002', display: 'Bronchiolitis', synonyms: [] },
+  { icd10: 'J18.9', snomed: '233604007', display: 'Pneumonia', synonyms: ['lung infection', 'community acquired pneumonia'] },
+  { icd10: 'J45.909', snomed: '195967001', display: 'Asthma', synonyms: ['asthma attack', 'asthma exacerbation'] },
+  { icd10: 'J44.9', snomed: '13645005', display: 'Chronic obstructive pulmonary disease', synonyms: ['copd', 'emphysema'] },
+  { icd10: 'R05.9', snomed: '49727002', display: 'Cough', synonyms: [] },
+  { icd10: 'R09.1', display: 'Pleurisy', synonyms: ['pleuritis'] },
+  { icd10: 'H66.90', snomed: '65363002', display: 'Otitis media', synonyms: ['middle ear infection', 'ear infection'] },
+  { icd10: 'H60.90', display: 'Otitis externa', synonyms: ["swimmer's ear", 'outer ear infection'] },
+  { icd10: 'H61.20', display: 'Impacted cerumen', synonyms: ['earwax buildup', 'earwax impaction', 'ear wax blockage'] },
+  { icd10: 'H93.19', snomed: '60862001', display: 'Tinnitus', synonyms: ['ringing in the ears'] },
+  { icd10: 'B27.90', snomed: '271558008', display: 'Infectious mononucleosis', synonyms: ['mono', 'glandular fever'] },
+
+  // Eyes and skin
+  { icd10: 'H10.9', snomed: '9826008', display: 'Conjunctivitis', synonyms: ['pink eye', 'eye infection'] },
+  { icd10: 'H00.019', display: 'Hordeolum', synonyms: ['stye', 'sty'] },
+  { icd10: 'L50.9', snomed: '126485001', display: 'Urticaria', synonyms: ['hives'] },
+  { icd10: 'L25.9', snomed: '40275004', display: 'Contact dermatitis', synonyms: ['allergic contact dermatitis', 'irritant contact dermatitis'] },
+  { icd10: 'L20.9', snomed: '24079001', display: 'Atopic dermatitis', synonyms: ['eczema'] },
+  { icd10: 'L40.9', snomed: '9014002', display: 'Psoriasis', synonyms: [] },
+  { icd10: 'L03.90', snomed: '128045006', display: 'Cellulitis', synonyms: ['skin infection'] },
+  { icd10: 'L01.00', snomed: '48277006', display: 'Impetigo', synonyms: [] },
+  { icd10: 'L70.0', snomed: '88616000', display: 'Acne vulgaris', synonyms: ['acne'] },
+  { icd10: 'L55.9', display: 'Sunburn', synonyms: [] },
+  { icd10: 'B02.9', snomed: '4740000', display: 'Herpes zoster', synonyms: ['shingles', 'zoster'] },
+  { icd10: 'B01.9', snomed: '38907003', display: 'Varicella', synonyms: ['chickenpox', 'chicken pox'] },
+  { icd10: 'B35.9', display: 'Dermatophytosis', synonyms: ['ringworm', 'tinea', 'fungal skin infection', "athlete's foot"] },
+  { icd10: 'B86', snomed: '128869009', display: 'Scabies', synonyms: [] },
+  { icd10: 'A69.20', snomed: '23502006', display: 'Lyme disease', synonyms: [] },
+
+  // Allergy
+  { icd10: 'T78.2XXA', snomed: '39579001', display: 'Anaphylaxis', synonyms: ['anaphylactic reaction', 'anaphylactic shock'] },
+  { icd10: 'T78.40XA', display: 'Allergic reaction', synonyms: ['allergy'] },
+
+  // Heart and circulation
+  { icd10: 'R07.9', snomed: '29857009', display: 'Chest pain', synonyms: [] },
+  { icd10: 'I20.9', snomed: '194828000', display: 'Angina pectoris', synonyms: ['angina', 'stable angina'] },
+  { icd10: 'I21.9', snomed: '22298006', display: 'Myocardial infarction', synonyms: ['heart attack', 'acute coronary syndrome'] },
+  { icd10: 'I48.91', snomed: '49436004', display: 'Atrial fibrillation', synonyms: ['afib', 'af'] },
+  { icd10: 'I50.9', snomed: '84114007', display: 'Heart failure', synonyms: ['congestive heart failure'] },
+  { icd10: 'I10', snomed: '38341003', display: 'Hypertension', synonyms: ['high blood pressure', 'essential hypertension'] },
+  { icd10: 'I95.9', snomed: '45007003', display: 'Hypotension', synonyms: ['low blood pressure'] },
+  { icd10: 'I26.99', snomed: '59282003', display: 'Pulmonary embolism', synonyms: ['blood clot in the lung'] },
+  { icd10: 'I82.409', snomed: '128053003', display: 'Deep vein thrombosis', synonyms: ['dvt', 'blood clot in the leg'] },
+  { icd10: 'M94.0', snomed: '64109004', display: 'Costochondritis', synonyms: ['tietze syndrome', 'chest wall inflammation'] },
+
+  // Digestive
+  { icd10: 'A09', snomed: '25374005', display: 'Gastroenteritis', synonyms: ['stomach flu', 'stomach bug', 'viral gastroenteritis', 'infectious gastroenteritis'] },
+  { icd10: 'A05.9', display: 'Food poisoning', synonyms: ['foodborne illness', 'foodborne intoxication'] },
+  { icd10: 'K21.9', snomed: '235595009', display: 'Gastroesophageal reflux disease', synonyms: ['gerd', 'acid reflux', 'heartburn'] },
+  { icd10: 'K29.70', snomed: '4556007', display: 'Gastritis', synonyms: [] },
+  { icd10: 'K27.9', display: 'Peptic ulcer', synonyms: ['stomach ulcer', 'peptic ulcer disease', 'gastric ulcer'] },
+  { icd10: 'K58.9', snomed: '10743008', display: 'Irritable bowel syndrome', synonyms: ['ibs'] },
+  { icd10: 'K59.00', snomed: '14760008', display: 'Constipation', synonyms: [] },
+  { icd10: 'R19.7', snomed: '62315008', display: 'Diarrhea', synonyms: [] },
+  { icd10: 'R11.2', snomed: '16932000', display: 'Nausea with vomiting', synonyms: ['nausea and vomiting', 'vomiting'] },
+  { icd10: 'R10.9', snomed: '21522001', display: 'Abdominal pain', synonyms: ['stomach ache', 'stomach pain', 'belly pain'] },
+  { icd10: 'K37', snomed: '74400008', display: 'Appendicitis', synonyms: [] },
+  { icd10: 'K81.9', snomed: '76581006', display: 'Cholecystitis', synonyms: ['gallbladder inflammation'] },
+  { icd10: 'K80.20', snomed: '235919008', display: 'Gallstones', synonyms: ['cholelithiasis', 'biliary colic'] },
+  { icd10: 'K85.90', display: 'Pancreatitis', synonyms: [] },
+  { icd10: 'K57.92', snomed: '307496006', display: 'Diverticulitis', synonyms: [] },
+  { icd10: 'K64.9', snomed: '70153002', display: 'Hemorrhoids', synonyms: ['piles'] },
+  { icd10: 'K90.0', snomed: '396331005', display: 'Celiac disease', synonyms: ['coeliac disease', 'gluten intolerance'] },
+
+  // Kidney, urinary and reproductive
+  { icd10: 'N39.0', snomed: '68566005', display: 'Urinary tract infection', synonyms: ['uti', 'bladder infection'] },
+  { icd10: 'N30.00', display: 'Cystitis', synonyms: [] },
+  { icd10: 'N10', snomed: '45816000', display: 'Pyelonephritis', synonyms: ['kidney infection'] },
+  { icd10: 'N20.0', snomed: '95570007', display: 'Kidney stone', synonyms: ['kidney stones', 'renal calculus', 'nephrolithiasis', 'renal colic'] },
+  { icd10: 'N94.6', snomed: '266599000', display: 'Dysmenorrhea', synonyms: ['period pain', 'menstrual cramps', 'painful periods'] },
+  { icd10: 'N80.9', snomed: '129103003', display: 'Endometriosis', synonyms: [] },
+  { icd10: 'E28.2', snomed: '69878008', display: 'Polycystic ovary syndrome', synonyms: ['pcos'] },
+
+  // Musculoskeletal
+  { icd10: 'M54.50', snomed: '279039007', display: 'Low back pain', synonyms: ['lower back pain', 'back pain', 'lumbago'] },
+  { icd10: 'S39.012A', display: 'Strain of lower back muscle', synonyms: ['back strain', 'lower back strain', 'pulled back muscle'] },
+  { icd10: 'M54.2', snomed: '81680005', display: 'Neck pain', synonyms: ['cervicalgia', 'stiff neck'] },
+  { icd10: 'M54.30', snomed: '23056005', display: 'Sciatica', synonyms: [] },
+  { icd10: 'M19.90', snomed: '396275006', display: 'Osteoarthritis', synonyms: ['degenerative joint disease', 'wear and tear arthritis'] },
+  { icd10: 'M06.9', snomed: '69896004', display: 'Rheumatoid arthritis', synonyms: [] },
+  { icd10: 'M10.9', snomed: '90560007', display: 'Gout', synonyms: [] },
+  { icd10: 'M79.7', snomed: '203082005', display: 'Fibromyalgia', synonyms: [] },
+  { icd10: 'M72.2', snomed: '202882003', display: 'Plantar fasciitis', synonyms: [] },
+  { icd10: 'M71.9', display: 'Bursitis', synonyms: [] },
+  { icd10: 'M75.00', display: 'Adhesive capsulitis of shoulder', synonyms: ['frozen shoulder'] },
+  { icd10: 'S93.409A', display: 'Ankle sprain', synonyms: ['sprained ankle', 'twisted ankle'] },
+
+  // Endocrine, blood and general
+  { icd10: 'E86.0', snomed: '34095006', display: 'Dehydration', synonyms: [] },
+  { icd10: 'T67.01XA', display: 'Heatstroke', synonyms: ['heat stroke', 'sunstroke'] },
+  { icd10: 'T67.5XXA', display: 'Heat exhaustion', synonyms: [] },
+  { icd10: 'D50.9', snomed: '87522002', display: 'Iron deficiency anemia', synonyms: ['iron deficiency'] },
+  { icd10: 'D64.9', snomed: '271737000', display: 'Anemia', synonyms: [] },
+  { icd10: 'E11.9', snomed: '44054006', display: 'Type 2 diabetes mellitus', synonyms: ['type 2 diabetes'] },
+  { icd10: 'E16.2', snomed: '302866003', display: 'Hypoglycemia', synonyms: ['low blood sugar'] },
+  { icd10: 'E03.9', snomed: '40930008', display: 'Hypothyroidism', synonyms: ['underactive thyroid'] },
+  { icd10: 'E05.90', snomed: '34486009', display: 'Hyperthyroidism', synonyms: ['overactive thyroid'] },
+  { icd10: 'E55.9', snomed: '34713006', display: 'Vitamin D deficiency', synonyms: [] },
+  { icd10: 'B34.9', snomed: '34014006', display: 'Viral infection', synonyms: ['viral illness', 'virus'] },
+  { icd10: 'R50.9', snomed: '386661006', display: 'Fever', synonyms: ['pyrexia'] },
+  { icd10: 'R53.83', snomed: '84229001', display: 'Fatigue', synonyms: ['tiredness', 'exhaustion'] },
+
+  // Mental health
+  { icd10: 'F41.9', snomed: '197480006', display: 'Anxiety disorder', synonyms: ['anxiety', 'generalized anxiety'] },
+  { icd10: 'F41.0', snomed: '371631005', display: 'Panic disorder', synonyms: ['panic attack', 'panic attacks'] },
+  { icd10: 'F32.A', snomed: '35489007', display: 'Depression', synonyms: ['depressive disorder', 'low mood'] },
+  { icd10: 'F43.9', display: 'Reaction to severe stress', synonyms: ['stress reaction', 'acute stress reaction'] },
+];
+
+// Names scoring below this are left uncoded and flagged for review
+const MATCH_THRESHOLD = 0.8;
+
+// Hedges and severity words the model puts around a diagnosis that don't change its code
+const QUALIFIERS = new Set([
+  'possible', 'probable', 'likely', 'suspected', 'early', 'mild', 'moderate', 'severe', 'acute', 'simple',
+  'uncomplicated', 'a', 'an', 'the', 'of', 'with', 'due', 'to', 'in', 'or', 'and',
+]);
+
+// A name that rules a condition out ("not a stroke", "non-allergic rhinitis") must never get its code
+const NEGATIONS = new Set(['no', 'not', 'non', 'without', 'unlikely', 'excluded', 'ruled']);
+
+// Numbers, sides and prefixes that turn a name into its opposite while barely changing its spelling
+// ("type 1"/"type 2", "hyperglycemia"/"hypoglycemia"): paired words must agree on these exactly
+const CONTRASTS = /^(?:\d+|left|right|upper|lower)$|^hyper|^hypo/;
+
+// British spellings, so "anaemia" and "diarrhoea" find their ICD-10-CM titles
+const SPELLINGS: [RegExp, string][] = [
+  [/oea/g, 'ea'],
+  [/anaem/g, 'anem'],
+  [/haem/g, 'hem'],
+  [/oesoph/g, 'esoph'],
+  [/aemia/g, 'emia'],
+];
+
+function tokenize(text: string): string[] {
+  let normalized = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/'s\b/g, 's');
+  for (const [pattern, replacement] of SPELLINGS) normalized = normalized.replace(pattern, replacement);
+  return normalized
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !QUALIFIERS.has(token));
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+function wordSimilarity(a: string, b: string): number {
+  return (a.match(CONTRASTS)?.[0] ?? '') === (b.match(CONTRASTS)?.[0] ?? '') ? similarity(a, b) : 0;
+}
+
+// Word order doesn't matter ("headache, tension" is "tension headache"), so each word of the term
+// is paired with the closest unused word of the name (allowing typos) and every word must find a
+// partner. A name with extra words still matches a term of two or more words, scored lower the
+// more extra words it has ("chronic tension headache"). One-word terms only match the whole name:
+// the extra word is usually what makes it a different disease ("scarlet fever" is not "fever",
+// "bird flu" is not "flu").
+function matchScore(name: string[], term: string[]): number {
+  if (name.length === 0 || term.length === 0) return 0;
+  const unpaired = [...name];
+  let total = 0;
+  for (const word of term) {
+    const scores = unpaired.map((token) => wordSimilarity(token, word));
+    const best = Math.max(...scores, 0);
+    if (best < MATCH_THRESHOLD) return 0;
+    total += best;
+    unpaired.splice(scores.indexOf(best), 1);
+  }
+  if (unpaired.length === 0) return total / term.length;
+  return term.length > 1 ? 0.75 + 0.2 * (term.length / name.length) : 0;
+}
+
+const TERMS = CLINICAL_CODES.flatMap((entry) =>
+  [entry.display, ...entry.synonyms].map((term) => ({ entry, tokens: tokenize(term) }))
+);
+
+// The best code for a condition name, or null when nothing in the table is close enough
+export function codeCondition(name: string): ConditionCoding | null {
+  const tokens = tokenize(name);
+  if (tokens.some((token) => NEGATIONS.has(token))) return null;
+  let best: { entry: ClinicalCodeEntry; score: number; length: number } | null = null;
+
+  for (const term of TERMS) {
+    const score = matchScore(tokens, term.tokens);
+    // On a tie the more specific term wins, so "tension headache" beats "headache"
+    if (!best || score > best.score || (score === best.score && term.tokens.length > best.length)) {
+      best = { entry: term.entry, score, length: term.tokens.length };
+    }
+  }
+
+  if (!best || best.score < MATCH_THRESHOLD) return null;
+  const coding: ConditionCoding = { icd10: best.entry.icd10, display: best.entry.display, score: Math.round(best.score * 100) / 100 };
+  if (best.entry.snomed) coding.snomed = best.entry.snomed;
+  return coding;
+}
+
+// Attaches a coding to each condition (null when unmatched) and logs the names that need review.
+// The table is English, so the model's English name is matched when there is one: the display
+// name may be in the consultation language.
+export function codeConditions<T extends { name: string; englishName?: string }>(
+  conditions: T[],
+): (T & { coding: ConditionCoding | null })[] {
+  const coded = conditions.map((condition) => ({ ...condition, coding: codeCondition(condition.englishName || condition.name) }));
+  const unmatched = coded
+    .filter((condition) => !condition.coding)
+    .map((condition) => condition.englishName || condition.name);
+  if (unmatched.length > 0) {
+    console.log('Conditions without a clinical code:', unmatched, 'code table version', CLINICAL_CODES_VERSION);
+  }
+  return coded;
+}
@@ -0,0 +1,192 @@
+import type { ChatContentPart, ChatMessage } from "./ai.ts";
+
+export type AnswerKind = 'text' | 'scale' | 'yes_no' | 'single_choice' | 'multi_choice' | 'duration';
+
+export const DURATION_UNITS = ['minutes', 'hours', 'days', 'weeks', 'months', 'years'];
+
+// Tells the client which input to offer for a follow-up question
+export interface AnswerFormat {
+  kind: AnswerKind;
+  options?: string[];
+  range?: { min: number; max: number; minLabel?: string; maxLabel?: string };
+  units?: string[];
+}
+
+// The value a user picked in one of the answer widgets, sent alongside the text
+export type StructuredAnswer =
+  | { kind: 'scale'; value: number; range: { min: number; max: number } }
+  | { kind: 'yes_no'; value: boolean }
+  | { kind: 'single_choice' | 'multi_choice'; value: string[] }
+  | { kind: 'duration'; value: { amount: number; unit: string } };
+
+// A region the user marked on the body map; left/right are the patient's own sides
+export interface BodyMapMark {
+  region: string;
+  view: 'front' | 'back';
+  intensity: number;
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  answer?: StructuredAnswer;
+  format?: AnswerFormat;
+  bodyMap?: BodyMapMark[];
+  // Storage paths of photos attached to a user turn
+  photos?: string[];
+  // Echoed back by the client on assistant turns: the coverage reported with that question
+  coverage?: { covered: string[] };
+}
+
+export function describeAnswer(answer: StructuredAnswer): string {
+  switch (answer.kind) {
+    case 'scale':
+      return `${answer.value} on a ${answer.range.min}-${answer.range.max} scale`;
+    case 'yes_no':
+      return answer.value ? 'yes' : 'no';
+    case 'single_choice':
+    case 'multi_choice':
+      return answer.value.length > 0 ? answer.value.join('; ') : 'none selected';
+    case 'duration':
+      return `${answer.value.amount} ${answer.value.unit}`;
+  }
+}
+
+// e.g. "lower back (back view) 7/10; right knee (front view) 4/10". Region ids come from the
+// client, so anything that isn't a plain snake_case id is dropped rather than passed to the model.
+export function describeBodyMap(marks: BodyMapMark[]): string {
+  return marks
+    .filter(mark => /^[a-z_]+$/.test(mark.region) && Number.isFinite(mark.intensity))
+    .map(mark => {
+      const intensity = Math.min(10, Math.max(1, Math.round(mark.intensity)));
+      const view = mark.view === 'back' ? 'back' : 'front';
+      return `${mark.region.replace(/_/g, ' ')} (${view} view) ${intensity}/10`;
+    })
+    .join('; ');
+}
+
+function messagePhotos(message: ConversationMessage): string[] {
+  return message.role === 'user' && Array.isArray(message.photos)
+    ? message.photos.filter((path) => typeof path === 'string')
+    : [];
+}
+
+// Photos are numbered across the whole conversation so the model can cite "photo 2".
+// Returns the number of each message's first photo.
+export function photoNumbering(messages: ConversationMessage[]): number[] {
+  let next = 1;
+  return messages.map((message) => {
+    const first = next;
+    next += messagePhotos(message).length;
+    return first;
+  });
+}
+
+// Text sent to the model for a turn; structured answers are spelled out so
+// "7" or "3" can never be misread as a different unit or scale.
+export function messageText(message: ConversationMessage, firstPhoto = 1): string {
+  if (message.role !== 'user') return message.content;
+  let text = message.content;
+  if (message.answer) {
+    text += ` [structured ${message.answer.kind} answer: ${describeAnswer(message.answer)}]`;
+  }
+  const bodyMap = Array.isArray(message.bodyMap) ? describeBodyMap(message.bodyMap) : '';
+  if (bodyMap) {
+    text += ` [body map: ${bodyMap}]`;
+  }
+  const photoCount = messagePhotos(message).length;
+  if (photoCount > 0) {
+    const labels = Array.from({ length: photoCount }, (_, i) => `photo ${firstPhoto + i}`);
+    text += ` [attached: ${labels.join(', ')}]`;
+  }
+  return text;
+}
+
+// Photo paths in conversation order, matching the numbering used in messageText
+export function conversationPhotos(messages: ConversationMessage[]): string[] {
+  return messages.flatMap(messagePhotos);
+}
+
+// Strips client-only fields so the gateway only sees role/content pairs. Turns with photos
+// become multimodal content; `images` maps storage paths to the data URLs loaded for them.
+export function toChatMessages(messages: ConversationMessage[], images: Record<string, string> = {}): ChatMessage[] {
+  const numbering = photoNumbering(messages);
+  return messages.map((message, index) => {
+    const text = messageText(message, numbering[index]);
+    const urls = messagePhotos(message).map((path) => images[path]).filter(Boolean);
+    if (urls.length === 0) return { role: message.role, content: text };
+    return {
+      role: message.role,
+      content: [
+        { type: 'text', text },
+        ...urls.map((url): ChatContentPart => ({ type: 'image_url', image_url: { url } })),
+      ],
+    };
+  });
+}
+
+export function toTranscript(messages: ConversationMessage[]): string {
+  const numbering = photoNumbering(messages);
+  return messages
+    .map((message, index) => `${message.role === 'user' ? 'Patient' : 'Assistant'}: ${messageText(message, numbering[index])}`)
+    .join('\n');
+}
+
+// Image parts for a single-message prompt built from toTranscript, each labelled with its photo number
+export function photoContentParts(messages: ConversationMessage[], images: Record<string, string>): ChatContentPart[] {
+  return conversationPhotos(messages).flatMap((path, index): ChatContentPart[] => images[path]
+    ? [
+      { type: 'text', text: `Photo ${index + 1}:` },
+      { type: 'image_url', image_url: { url: images[path] } },
+    ]
+    : []);
+}
+
+// Lenient parse of the model's answer-format tag; anything unusable falls back to free text
+export function parseAnswerFormat(raw: string): AnswerFormat {
+  const jsonMatch = raw.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return { kind: 'text' };
+
+  let parsed;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return { kind: 'text' };
+  }
+
+  switch (parsed?.kind) {
+    case 'scale': {
+      const min = Number(parsed.range?.min ?? 1);
+      const max = Number(parsed.range?.max ?? 10);
+      if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+        return { kind: 'scale', range: { min: 1, max: 10 } };
+      }
+      return {
+        kind: 'scale',
+        range: {
+          min,
+          max,
+          minLabel: typeof parsed.range?.minLabel === 'string' ? parsed.range.minLabel : undefined,
+          maxLabel: typeof parsed.range?.maxLabel === 'string' ? parsed.range.maxLabel : undefined,
+        },
+      };
+    }
+    case 'yes_no':
+      return { kind: 'yes_no' };
+    case 'single_choice':
+    case 'multi_choice': {
+      const options = Array.isArray(parsed.options)
+        ? parsed.options.filter((option: unknown) => typeof option === 'string' && option.trim()).slice(0, 8)
+        : [];
+      return options.length >= 2 ? { kind: parsed.kind, options } : { kind: 'text' };
+    }
+    case 'duration': {
+      const units = Array.isArray(parsed.units)
+        ? parsed.units.filter((unit: unknown) => DURATION_UNITS.includes(unit as string))
+        : [];
+      return { kind: 'duration', units: units.length > 0 ? units : ['hours', 'days', 'weeks', 'months'] };
+    }
+    default:
+      return { kind: 'text' };
+  }
+}
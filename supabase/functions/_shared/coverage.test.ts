@@ -0,0 +1,75 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { ConversationMessage } from "./conversation.ts";
+import {
+  isAssessmentComplete,
+  MAX_QUESTIONS,
+  parseCoverage,
+  previousCoverage,
+  toCoverage,
+  type CoverageDimension,
+} from "./coverage.ts";
+
+const ALL_DIMENSIONS: CoverageDimension[] = [
+  'onset', 'duration', 'severity', 'progression', 'associated_symptoms', 'triggers', 'treatments', 'impact',
+];
+
+Deno.test('toCoverage keeps known ids in canonical order', () => {
+  const cases: { reported: unknown[]; covered: CoverageDimension[]; minimumMet: boolean }[] = [
+    { reported: [], covered: [], minimumMet: false },
+    { reported: ['severity', 'onset', 'onset'], covered: ['onset', 'severity'], minimumMet: false },
+    { reported: ['mood', 42, null, 'duration'], covered: ['duration'], minimumMet: false },
+    {
+      reported: ['associated_symptoms', 'severity', 'duration', 'onset'],
+      covered: ['onset', 'duration', 'severity', 'associated_symptoms'],
+      minimumMet: true,
+    },
+  ];
+
+  for (const { reported, covered, minimumMet } of cases) {
+    assertEquals(toCoverage(reported), { covered, minimumMet }, JSON.stringify(reported));
+  }
+});
+
+Deno.test('parseCoverage tolerates whatever the model sends', () => {
+  const cases: { raw: string; covered: CoverageDimension[] }[] = [
+    { raw: '["onset", "severity"]', covered: ['onset', 'severity'] },
+    { raw: '["impact", "unknown"]', covered: ['impact'] },
+    { raw: '[]', covered: [] },
+    { raw: '{"onset": true}', covered: [] },
+    { raw: '"onset"', covered: [] },
+    { raw: '["onset", "sev', covered: [] },
+    { raw: '', covered: [] },
+  ];
+
+  for (const { raw, covered } of cases) {
+    assertEquals(parseCoverage(raw), covered, raw);
+  }
+});
+
+Deno.test('previousCoverage reads the latest assistant turn that reported coverage', () => {
+  const messages: ConversationMessage[] = [
+    { role: 'user', content: 'I have a headache' },
+    { role: 'assistant', content: 'When did it start?', coverage: { covered: ['onset'] } },
+    { role: 'user', content: 'Yesterday' },
+    { role: 'assistant', content: 'How bad is it?', coverage: { covered: ['severity', 'onset'] } },
+    { role: 'user', content: 'About a 6' },
+    { role: 'assistant', content: 'Thanks' },
+  ];
+
+  assertEquals(previousCoverage(messages), ['onset', 'severity']);
+  assertEquals(previousCoverage(messages.slice(0, 1)), []);
+});
+
+Deno.test('isAssessmentComplete stops at full coverage or the question cap', () => {
+  const cases: { name: string; covered: CoverageDimension[]; questionsAsked: number; complete: boolean }[] = [
+    { name: 'nothing covered yet', covered: [], questionsAsked: 0, complete: false },
+    { name: 'minimum met is not complete', covered: ['onset', 'duration', 'severity', 'associated_symptoms'], questionsAsked: 4, complete: false },
+    { name: 'every dimension covered', covered: ALL_DIMENSIONS, questionsAsked: 5, complete: true },
+    { name: 'question cap reached', covered: ['onset'], questionsAsked: MAX_QUESTIONS, complete: true },
+    { name: 'one question below the cap', covered: ['onset'], questionsAsked: MAX_QUESTIONS - 1, complete: false },
+  ];
+
+  for (const { name, covered, questionsAsked, complete } of cases) {
+    assertEquals(isAssessmentComplete(toCoverage(covered), questionsAsked), complete, name);
+  }
+});
@@ -0,0 +1,71 @@
+import type { ConversationMessage } from "./conversation.ts";
+
+// What a thorough symptom assessment needs to find out. Keep in sync with
+// COVERAGE_DIMENSIONS in src/lib/symptomFollowup.ts.
+export const COVERAGE_DIMENSIONS = {
+  onset: 'when and how the symptoms started (suddenly or gradually)',
+  duration: 'how long they have lasted, and whether they are constant or come and go',
+  severity: 'how bad they are, ideally on a 1-10 scale',
+  progression: 'whether they are getting better, worse or staying the same',
+  associated_symptoms: 'other symptoms alongside the main complaint (fever, nausea, fatigue...)',
+  triggers: 'anything that makes them better or worse',
+  treatments: 'medications or remedies already tried, and whether they helped',
+  impact: 'how they affect sleep, work and daily activities',
+} as const;
+
+export type CoverageDimension = keyof typeof COVERAGE_DIMENSIONS;
+
+const DIMENSION_IDS = Object.keys(COVERAGE_DIMENSIONS) as CoverageDimension[];
+
+// Enough for a useful analysis: once these are covered the user may skip the remaining questions
+export const MINIMUM_DIMENSIONS: CoverageDimension[] = ['onset', 'duration', 'severity', 'associated_symptoms'];
+
+// Hard stop for conversations where the model never reports full coverage
+export const MAX_QUESTIONS = 10;
+
+export interface AssessmentCoverage {
+  covered: CoverageDimension[];
+  minimumMet: boolean;
+}
+
+// Unknown ids are dropped and the result is always in canonical order
+export function toCoverage(dimensions: Iterable<unknown>): AssessmentCoverage {
+  const reported = new Set(dimensions);
+  const covered = DIMENSION_IDS.filter(id => reported.has(id));
+  return { covered, minimumMet: MINIMUM_DIMENSIONS.every(id => covered.includes(id)) };
+}
+
+// Lenient parse of the model's coverage list, e.g. ["onset", "severity"]
+export function parseCoverage(raw: string): CoverageDimension[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? toCoverage(parsed).covered : [];
+  } catch {
+    return [];
+  }
+}
+
+// Coverage reported with the last question the client saw. Coverage only ever grows, so a
+// model that forgets to list a dimension it already counted can't move progress backwards.
+export function previousCoverage(messages: ConversationMessage[]): CoverageDimension[] {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const covered = messages[i].role === 'assistant' ? messages[i].coverage?.covered : undefined;
+    if (Array.isArray(covered)) return toCoverage(covered).covered;
+  }
+  return [];
+}
+
+export function isAssessmentComplete(coverage: AssessmentCoverage, questionsAsked: number): boolean {
+  return coverage.covered.length === DIMENSION_IDS.length || questionsAsked >= MAX_QUESTIONS;
+}
+
+export function coverageInstruction(covered: CoverageDimension[]): string {
+  const dimensions = DIMENSION_IDS
+    .map(id => `- ${id}: ${COVERAGE_DIMENSIONS[id]}${covered.includes(id) ? ' (already covered)' : ''}`)
+    .join('\n');
+
+  return `ASSESSMENT COVERAGE:
+Work through these dimensions, asking about the most important one that is still missing:
+${dimensions}
+Start every reply with a line "[COVERAGE]" followed by a JSON array of every dimension id covered so far, including anything the patient's latest message answered, e.g. [COVERAGE] ["onset", "severity"]. A dimension counts as covered once the patient has answered it, even with "I don't know" or "not applicable", and one answer can cover several dimensions.`;
+}
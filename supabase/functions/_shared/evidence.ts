@@ -0,0 +1,140 @@
+// Evidence the analysis can cite for each condition. Every source gets a short id the model
+// refers to (T = patient turn, P = profile fact, H = past assessment, O = confirmed ongoing
+// symptom); the server then swaps those ids for the excerpts the user actually sees.
+
+import { messageText, photoNumbering, type ConversationMessage } from "./conversation.ts";
+import { describeAllergy, describeBody, describeCondition, describeMedication, type Subject } from "./subject.ts";
+
+export type EvidenceKind = 'turn' | 'profile' | 'history' | 'ongoing';
+export type EvidenceStance = 'supports' | 'against';
+
+export interface EvidenceSource {
+  id: string;
+  kind: EvidenceKind;
+  // Context for the excerpt, e.g. the question a turn answered or the date of a past assessment
+  label: string;
+  excerpt: string;
+}
+
+// Evidence as cited by the model
+export interface CitedEvidence {
+  source: string;
+  stance: EvidenceStance;
+  quote?: string;
+}
+
+// Evidence as returned to the client
+export interface ResolvedEvidence {
+  source: string;
+  kind: EvidenceKind;
+  label: string;
+  excerpt: string;
+  stance: EvidenceStance;
+  // The words within the excerpt that matter most; only kept when they appear in it verbatim
+  quote?: string;
+}
+
+export interface EvidenceInput {
+  messages?: ConversationMessage[];
+  // Free-text symptoms, used instead of a conversation
+  symptoms?: string;
+  subject: Subject | null;
+  history: { symptoms: string; urgency_level: string; created_at: string }[];
+  ongoing: string[];
+}
+
+const MAX_EXCERPT = 300;
+
+const clip = (text: string) => (text.length > MAX_EXCERPT ? `${text.slice(0, MAX_EXCERPT - 1).trimEnd()}…` : text);
+
+export function buildEvidenceSources({ messages, symptoms, subject, history, ongoing }: EvidenceInput): EvidenceSource[] {
+  const sources: EvidenceSource[] = [];
+
+  if (messages) {
+    let question = '';
+    messages.forEach((message) => {
+      if (message.role === 'assistant') {
+        question = message.content;
+        return;
+      }
+      sources.push({ id: `T${sources.length + 1}`, kind: 'turn', label: question, excerpt: clip(message.content) });
+    });
+  } else if (symptoms) {
+    sources.push({ id: 'T1', kind: 'turn', label: '', excerpt: clip(symptoms) });
+  }
+
+  if (subject) {
+    const body = describeBody(subject);
+    const facts = [
+      `Age: ${subject.age} years old`,
+      ...(subject.sex ? [`Sex: ${subject.sex}`] : []),
+      ...(body ? [`Height and weight: ${body}`] : []),
+      ...subject.conditions.map((condition) => `Diagnosed condition: ${describeCondition(condition)}`),
+      ...subject.medications.map((medication) => `Current medication: ${describeMedication(medication)}`),
+      ...subject.allergies.map((allergy) => `Allergy: ${describeAllergy(allergy)}`),
+    ];
+    if (subject.health_issues) facts.push(`Known health issues: ${subject.health_issues}`);
+    facts.forEach((fact, index) => {
+      sources.push({ id: `P${index + 1}`, kind: 'profile', label: '', excerpt: clip(fact) });
+    });
+  }
+
+  history.forEach((entry, index) => {
+    sources.push({
+      id: `H${index + 1}`,
+      kind: 'history',
+      label: entry.created_at,
+      excerpt: clip(`${entry.symptoms} (urgency: ${entry.urgency_level})`),
+    });
+  });
+
+  ongoing.forEach((symptom, index) => {
+    sources.push({ id: `O${index + 1}`, kind: 'ongoing', label: '', excerpt: clip(symptom) });
+  });
+
+  return sources;
+}
+
+// The consultation transcript with each patient turn tagged by its evidence id
+export function evidenceTranscript(messages: ConversationMessage[]): string {
+  const numbering = photoNumbering(messages);
+  let turn = 0;
+  return messages
+    .map((message, index) => message.role === 'user'
+      ? `[T${++turn}] Patient: ${messageText(message, numbering[index])}`
+      : `Assistant: ${messageText(message)}`)
+    .join('\n');
+}
+
+// Prompt block listing the sources that aren't already tagged in the transcript
+export function describeEvidenceSources(sources: EvidenceSource[]): string {
+  const listed = sources.filter((source) => source.kind !== 'turn');
+  if (listed.length === 0) return '';
+  return `\n\nOTHER EVIDENCE SOURCES (cite these ids too):\n${listed
+    .map((source) => `[${source.id}] ${source.kind === 'history' ? `Past assessment on ${new Date(source.label).toLocaleDateString()}: ` : ''}${source.excerpt}`)
+    .join('\n')}`;
+}
+
+// Swaps cited ids for their excerpts, dropping citations of sources that don't exist
+// and duplicates of the same source with the same stance
+export function resolveEvidence(cited: CitedEvidence[] | undefined, sources: EvidenceSource[]): ResolvedEvidence[] {
+  const byId = new Map(sources.map((source) => [source.id.toUpperCase(), source]));
+  const seen = new Set<string>();
+
+  return (cited ?? []).flatMap((item) => {
+    const source = byId.get(item.source.replace(/[[\]\s]/g, '').toUpperCase());
+    if (!source || seen.has(`${source.id}:${item.stance}`)) return [];
+    seen.add(`${source.id}:${item.stance}`);
+
+    const quote = item.quote?.trim();
+    const resolved: ResolvedEvidence = {
+      source: source.id,
+      kind: source.kind,
+      label: source.label,
+      excerpt: source.excerpt,
+      stance: item.stance,
+    };
+    if (quote && source.excerpt.toLowerCase().includes(quote.toLowerCase())) resolved.quote = quote;
+    return [resolved];
+  });
+}
@@ -0,0 +1,34 @@
+// Languages the assistant can hold a consultation in, keyed by the locale stored on the profile.
+// Keep in sync with SUPPORTED_LOCALES in src/i18n/index.ts.
+export const SUPPORTED_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  hi: 'Hindi',
+};
+
+export const DEFAULT_LANGUAGE = 'en';
+
+// Accepts "es", "es-MX" or anything unknown (which falls back to English)
+export function normalizeLanguage(language: unknown): string {
+  if (typeof language !== 'string') return DEFAULT_LANGUAGE;
+  const code = language.trim().toLowerCase().split(/[-_]/)[0];
+  return Object.hasOwn(SUPPORTED_LANGUAGES, code) ? code : DEFAULT_LANGUAGE;
+}
+
+export function languageName(language: string): string {
+  return SUPPORTED_LANGUAGES[normalizeLanguage(language)];
+}
+
+// Prompt section telling the model which language to write in. Enum-valued fields are listed
+// explicitly so they stay canonical English no matter what language the prose is in.
+export function languageInstruction(language: string, canonicalFields: string[] = []): string {
+  const name = languageName(language);
+  const canonical = canonicalFields.length > 0
+    ? `\n- Keep these fields exactly as the allowed English values, never translated: ${canonicalFields.join(', ')}`
+    : '';
+
+  return `LANGUAGE:
+- Write everything the patient will read in ${name}, even if they write to you in another language
+- Use plain, everyday ${name}; when you mention a medical term, explain it in ${name}${canonical}`;
+}
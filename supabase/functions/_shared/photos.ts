@@ -0,0 +1,33 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { conversationPhotos, type ConversationMessage } from "./conversation.ts";
+
+export const PHOTO_BUCKET = 'symptom-photos';
+
+// Only the most recent photos are sent so a long conversation can't blow up the request size
+const MAX_PHOTOS_PER_REQUEST = 6;
+
+// Downloads the conversation's photos with a service-role client and returns them as data URLs
+// keyed by storage path. Paths outside the user's own folder are ignored, since the client
+// chooses which paths to send; photos that fail to load are skipped rather than failing the turn.
+export async function loadConversationPhotos(
+  supabase: SupabaseClient,
+  userId: string,
+  messages: ConversationMessage[],
+): Promise<Record<string, string>> {
+  const paths = conversationPhotos(messages)
+    .filter((path) => path.startsWith(`${userId}/`) && !path.includes('..'))
+    .slice(-MAX_PHOTOS_PER_REQUEST);
+
+  const entries = await Promise.all(paths.map(async (path) => {
+    const { data, error } = await supabase.storage.from(PHOTO_BUCKET).download(path);
+    if (error || !data) {
+      console.error('Failed to load symptom photo:', path, error);
+      return null;
+    }
+    const bytes = new Uint8Array(await data.arrayBuffer());
+    return [path, `data:${data.type || 'image/jpeg'};base64,${encodeBase64(bytes)}`] as const;
+  }));
+
+  return Object.fromEntries(entries.filter((entry) => entry !== null));
+}
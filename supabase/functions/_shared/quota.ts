@@ -0,0 +1,105 @@
+// Per-user usage quotas, set per plan in public.ai_plan_limits; anonymous callers share the
+// 'anonymous' plan's limits per client address. Each function consumes quota
+// right before it calls the model, after validating the request and loading the subject, so
+// red-flag short-circuits, completed assessments and rejected requests (an unknown dependent,
+// a missing body) are free. A call the provider couldn't serve is refunded; one that fails
+// after the provider answered (invalid output, a stream cut off midway) still counts.
+
+import { AIError, type AIErrorKind, type AIFunction } from "./ai.ts";
+import { serviceClient, type Caller } from "./auth.ts";
+
+export class QuotaError extends Error {
+  readonly limit: number;
+  readonly windowSeconds: number;
+  readonly retryAfter: number;
+
+  constructor(limit: number, windowSeconds: number, retryAfter: number, message?: string) {
+    super(message ?? `You've reached your limit of ${limit} requests per ${describeWindow(windowSeconds)}. Please try again later.`);
+    this.name = 'QuotaError';
+    this.limit = limit;
+    this.windowSeconds = windowSeconds;
+    this.retryAfter = retryAfter;
+  }
+}
+
+function describeWindow(seconds: number): string {
+  if (seconds % 86400 === 0) return seconds === 86400 ? 'day' : `${seconds / 86400} days`;
+  if (seconds % 3600 === 0) return seconds === 3600 ? 'hour' : `${seconds / 3600} hours`;
+  return seconds === 60 ? 'minute' : `${Math.round(seconds / 60)} minutes`;
+}
+
+interface QuotaCheck {
+  allowed: boolean;
+  limit_requests: number | null;
+  limit_window_seconds: number | null;
+  retry_after_seconds: number | null;
+}
+
+// Seconds an anonymous caller is asked to wait when their quota can't be checked
+const UNCHECKED_RETRY_AFTER = 60;
+
+// Takes one request from the caller's quota for the function, throwing QuotaError when a window
+// is full. When the quota can't be checked at all, signed-in users fail open (they're known and
+// audited, and a database hiccup shouldn't block care) while anonymous callers fail closed, since
+// nothing else limits them.
+async function consumeQuota(caller: Caller, fn: AIFunction): Promise<void> {
+  const { data, error } = caller.mode === 'user'
+    ? await caller.supabase.rpc('consume_ai_quota', { p_user_id: caller.userId, p_function: fn })
+    : await serviceClient().rpc('consume_anonymous_ai_quota', { p_client_key: caller.clientKey, p_function: fn });
+  if (error) {
+    if (caller.mode === 'user') {
+      console.error('Failed to check usage quota, allowing the request (fail open):', fn, error);
+      return;
+    }
+    console.error('Failed to check usage quota, rejecting the anonymous request (fail closed):', fn, error);
+    throw new QuotaError(0, 0, UNCHECKED_RETRY_AFTER, "Usage limits can't be checked right now. Please try again in a minute, or sign in.");
+  }
+
+  const check = (Array.isArray(data) ? data[0] : data) as QuotaCheck | undefined;
+  if (check && !check.allowed) {
+    console.log('Usage quota reached:', fn, check.limit_requests, 'per', check.limit_window_seconds, 's');
+    throw new QuotaError(check.limit_requests ?? 0, check.limit_window_seconds ?? 0, Math.max(1, check.retry_after_seconds ?? 60));
+  }
+}
+
+// Failures where the provider never produced anything, so the caller got nothing for the request
+const REFUNDED_ERRORS: AIErrorKind[] = ['unavailable', 'timeout'];
+
+// Best effort: a refund that fails only costs the caller one request
+async function refundQuota(caller: Caller, fn: AIFunction): Promise<void> {
+  const { error } = caller.mode === 'user'
+    ? await caller.supabase.rpc('refund_ai_quota', { p_user_id: caller.userId, p_function: fn })
+    : await serviceClient().rpc('refund_anonymous_ai_quota', { p_client_key: caller.clientKey, p_function: fn });
+  if (error) console.error('Failed to refund usage quota:', fn, error);
+}
+
+// Makes a model call against the caller's quota for the function: one request is taken before the
+// call and given back if the provider was unavailable or timed out
+export async function withQuota<T>(caller: Caller, fn: AIFunction, call: () => Promise<T>): Promise<T> {
+  await consumeQuota(caller, fn);
+  try {
+    return await call();
+  } catch (error) {
+    if (error instanceof AIError && REFUNDED_ERRORS.includes(error.kind)) {
+      console.log('Refunding usage quota after a failed model call:', fn, error.kind);
+      await refundQuota(caller, fn);
+    }
+    throw error;
+  }
+}
+
+export function quotaErrorResponse(error: QuotaError, headers: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({
+      error: error.message,
+      code: 'usage_limit',
+      limit: error.limit,
+      windowSeconds: error.windowSeconds,
+      retryAfter: error.retryAfter,
+    }),
+    {
+      status: 429,
+      headers: { ...headers, 'Content-Type': 'application/json', 'Retry-After': String(error.retryAfter) },
+    },
+  );
+}
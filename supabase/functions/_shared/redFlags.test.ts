@@ -0,0 +1,103 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { ConversationMessage } from "./conversation.ts";
+import { screenConversation } from "./redFlags.ts";
+
+function patient(...turns: string[]): ConversationMessage[] {
+  return turns.map((content) => ({ role: 'user', content }));
+}
+
+Deno.test('screenConversation fires on genuine red flags', () => {
+  const cases: { conversation: ConversationMessage[]; ruleId: string }[] = [
+    { conversation: patient('Crushing chest pain that spreads down my arm'), ruleId: 'chest_pain_radiating' },
+    { conversation: patient('I have chest pain. It goes into my left arm and I feel sick'), ruleId: 'chest_pain_radiating' },
+    { conversation: patient("My face is drooping and I can't lift my arm"), ruleId: 'stroke_fast' },
+    { conversation: patient('My throat is swelling after eating peanuts'), ruleId: 'anaphylaxis' },
+    { conversation: patient("I can't breathe and my lips are blue"), ruleId: 'severe_breathing' },
+    { conversation: patient('I keep coughing up blood'), ruleId: 'severe_bleeding' },
+    { conversation: patient("I'm not sure but I think I passed out"), ruleId: 'loss_of_consciousness' },
+    { conversation: patient("Honestly I don't know why, I passed out twice today"), ruleId: 'loss_of_consciousness' },
+    { conversation: patient('Some days I want to hurt myself'), ruleId: 'suicidal_ideation' },
+    { conversation: patient('I have been feeling suicidal'), ruleId: 'suicidal_ideation' },
+  ];
+
+  for (const { conversation, ruleId } of cases) {
+    assertEquals(screenConversation(conversation)?.ruleId, ruleId, conversation[0].content);
+  }
+});
+
+Deno.test('screenConversation ignores ordinary complaints', () => {
+  const cases: { name: string; conversation: ConversationMessage[] }[] = [
+    { name: 'an injury is not self-harm', conversation: patient('I hurt myself lifting boxes at work') },
+    { name: 'a blocked nose is not a breathing emergency', conversation: patient("I can't breathe through my nose at night") },
+    { name: 'nasal congestion with an allergy', conversation: patient("My hay fever allergy is bad and I can't breathe, my nose is so stuffy") },
+    {
+      name: 'phrase groups from different turns',
+      conversation: patient('I get chest pain when I cough', 'I also woke up with a stiff neck'),
+    },
+    { name: 'a sore neck next to chest pain is not radiation', conversation: patient('Chest pain when I cough and a stiff neck') },
+    { name: 'negation reaching across filler words', conversation: patient("I haven't had any kind of crushing chest pain spreading to my arm") },
+    { name: 'negated in a list', conversation: patient('No fever, no seizure, just a headache') },
+  ];
+
+  for (const { name, conversation } of cases) {
+    assertEquals(screenConversation(conversation), null, name);
+  }
+});
+
+Deno.test('screenConversation keeps a negation inside its clause', () => {
+  const hit = screenConversation(patient("I didn't hit my head, but I fainted in the shower"));
+  assertEquals(hit?.ruleId, 'loss_of_consciousness');
+});
+
+Deno.test('screenConversation lets only a negation right before a phrase deny it', () => {
+  const cases: { language: string; text: string }[] = [
+    { language: 'en', text: 'Without warning I got crushing chest pain going down my left arm' },
+    { language: 'en', text: "I've never had chest pain like this, it is spreading down my left arm" },
+    { language: 'en', text: 'I have never felt chest pain this bad and it radiates to my jaw' },
+    { language: 'es', text: 'Sin previo aviso empezó un dolor en el pecho que se irradia al brazo izquierdo' },
+    { language: 'es', text: 'Nunca he tenido un dolor en el pecho así, se extiende al brazo izquierdo' },
+    { language: 'fr', text: "Sans prévenir j'ai eu une douleur thoracique qui irradie dans le bras gauche" },
+    { language: 'fr', text: "Je n'ai jamais eu une douleur thoracique comme ça, elle irradie dans le bras gauche" },
+    { language: 'hi', text: 'सीने में दर्द बाएं हाथ तक फैल रहा है जो रुक ही नहीं रहा' },
+    { language: 'hi', text: 'मुझे ऐसा सीने में दर्द पहले कभी नहीं हुआ जो बाएं हाथ तक फैल रहा है' },
+  ];
+
+  for (const { language, text } of cases) {
+    assertEquals(screenConversation(patient(text), language)?.ruleId, 'chest_pain_radiating', `${language}: ${text}`);
+  }
+});
+
+Deno.test('screenConversation never screens assistant turns', () => {
+  const hit = screenConversation([
+    { role: 'assistant', content: 'Have you passed out or had a seizure?' },
+    { role: 'user', content: 'Just a mild headache' },
+  ]);
+  assertEquals(hit, null);
+});
+
+Deno.test('screenConversation screens each consultation language', () => {
+  const cases: { language: string; text: string; ruleId: string | null }[] = [
+    { language: 'es', text: 'Tengo dolor en el pecho que se irradia al brazo izquierdo', ruleId: 'chest_pain_radiating' },
+    { language: 'es', text: 'Me desmayé en la cocina', ruleId: 'loss_of_consciousness' },
+    { language: 'es', text: 'No me desmayé, solo me mareé un poco', ruleId: null },
+    { language: 'es', text: 'No puedo respirar por la nariz, está tapada', ruleId: null },
+    { language: 'es', text: 'A veces quiero morirme', ruleId: 'suicidal_ideation' },
+    { language: 'fr', text: "J'ai une douleur thoracique qui irradie dans le bras gauche", ruleId: 'chest_pain_radiating' },
+    { language: 'fr', text: "Je n'arrive pas à respirer et mes lèvres sont bleues", ruleId: 'severe_breathing' },
+    { language: 'fr', text: "Je n'ai pas perdu connaissance", ruleId: null },
+    { language: 'fr', text: "Je ne peux pas respirer par le nez, il est bouché", ruleId: null },
+    { language: 'hi', text: 'मुझे सीने में दर्द है जो बाएं हाथ तक फैल रहा है', ruleId: 'chest_pain_radiating' },
+    { language: 'hi', text: 'कल मैं बेहोश हो गया था', ruleId: 'loss_of_consciousness' },
+    { language: 'hi', text: 'मैं बेहोश नहीं हुआ, बस चक्कर आया', ruleId: null },
+    { language: 'hi', text: 'नाक बंद है, सांस नहीं ले पा रहा', ruleId: null },
+    { language: 'hi', text: 'मैं आत्महत्या के बारे में सोच रहा हूँ', ruleId: 'suicidal_ideation' },
+    // English mixed into another language is still screened
+    { language: 'es', text: 'Creo que tuve un seizure', ruleId: 'loss_of_consciousness' },
+    // An unknown language falls back to English
+    { language: 'constructor', text: 'I passed out', ruleId: 'loss_of_consciousness' },
+  ];
+
+  for (const { language, text, ruleId } of cases) {
+    assertEquals(screenConversation(patient(text), language)?.ruleId ?? null, ruleId, `${language}: ${text}`);
+  }
+});
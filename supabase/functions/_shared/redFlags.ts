@@ -0,0 +1,434 @@
+// Deterministic red-flag screening that runs before any model call.
+// Rules are plain data so they can be reviewed and versioned independently of the prompts;
+// bump RED_FLAG_RULES_VERSION whenever a rule is added, removed or reworded.
+
+import type { ConversationMessage } from "./conversation.ts";
+import { DEFAULT_LANGUAGE, normalizeLanguage } from "./language.ts";
+
+export const RED_FLAG_RULES_VERSION = '2026-01-30.3';
+
+export type RedFlagResponse = 'emergency' | 'crisis';
+
+// Context that, in the same sentence as one of the phrases, shows it is something milder
+// (e.g. "can't breathe through my nose")
+export interface RedFlagException {
+  phrases: string[];
+  context: string[];
+}
+
+export interface RedFlagRule {
+  id: string;
+  label: string;
+  // Phrase groups per consultation language. Every group must have at least one phrase present
+  // (and not negated) in the same turn.
+  match: Record<string, string[][]>;
+  unless?: RedFlagException[];
+  response: RedFlagResponse;
+  advice: string;
+}
+
+export interface RedFlagHit {
+  ruleId: string;
+  label: string;
+  response: RedFlagResponse;
+  advice: string;
+  matched: string[];
+  rulesVersion: string;
+}
+
+// How each language marks negation and clause boundaries
+interface Grammar {
+  // Words that deny what follows them in the clause
+  negations: string[];
+  // Words that deny what comes before them (Hindi puts नहीं after the verb)
+  trailingNegations: string[];
+  // Negation that expresses uncertainty rather than denying a symptom ("not sure if I passed out")
+  pseudoNegations: string[];
+  // Words a negation reaches across without counting towards NEGATION_REACH: auxiliaries,
+  // determiners and intensifiers ("haven't had any kind of chest pain")
+  fillers: string[];
+  // Words that turn a denial into a first-time report ("never had chest pain like this")
+  firstTime: string[];
+  // Words that start a new clause, ending the reach of a negation
+  connectives: string[];
+}
+
+const GRAMMARS: Record<string, Grammar> = {
+  en: {
+    negations: [
+      'no', 'not', 'never', 'without', 'denies', 'nor', 'none',
+      "don't", "doesn't", "didn't", "haven't", "hasn't", "hadn't", "isn't", "wasn't", "aren't", "weren't",
+    ],
+    trailingNegations: [],
+    pseudoNegations: ['not sure', 'not certain', "don't know", "didn't know", 'no idea', 'not only'],
+    fillers: [
+      'have', 'has', 'had', 'having', 'been', 'be', 'get', 'got', 'feel', 'felt', 'experience', 'experienced',
+      'any', 'a', 'an', 'the', 'that', 'this', 'my', 'kind', 'sort', 'of', 'such', 'ever', 'really', 'much', 'real',
+    ],
+    firstTime: ['like this', 'like that', 'this bad', 'so bad', 'this severe', 'so severe', 'before', 'until now', 'in my life'],
+    connectives: ['and', 'but', 'so', 'because', 'then', 'however', 'although', 'though', 'except', 'yet'],
+  },
+  es: {
+    negations: ['no', 'nunca', 'jamás', 'sin', 'ni', 'tampoco', 'niego', 'ningún', 'ninguno', 'ninguna'],
+    trailingNegations: [],
+    pseudoNegations: ['no sé', 'no estoy seguro', 'no estoy segura', 'no sabría'],
+    fillers: [
+      'tengo', 'tenía', 'tuve', 'tenido', 'he', 'ha', 'había', 'hay', 'siento', 'sentí', 'sentido', 'me',
+      'un', 'una', 'el', 'la', 'los', 'las', 'mi', 'ese', 'esa', 'este', 'esta', 'tipo', 'de', 'realmente', 'mucho',
+    ],
+    firstTime: ['así', 'como este', 'como esta', 'tan fuerte', 'tan intenso', 'tan intensa', 'antes', 'en mi vida'],
+    connectives: ['y', 'e', 'pero', 'así que', 'porque', 'luego', 'aunque', 'sin embargo', 'excepto'],
+  },
+  fr: {
+    negations: ['ne', "n'", 'pas', 'jamais', 'sans', 'ni', 'aucun', 'aucune', 'non'],
+    trailingNegations: [],
+    pseudoNegations: ['ne sais pas', 'sais pas', 'pas sûr', 'pas sûre', 'pas certain', 'pas certaine'],
+    fillers: [
+      'ai', 'a', 'eu', 'avais', 'ressens', 'ressenti', 'senti', 'me',
+      'de', 'un', 'une', 'le', 'la', 'les', 'ma', 'mon', 'ce', 'cette', 'vraiment', 'beaucoup',
+    ],
+    firstTime: ['comme ça', 'comme celle-ci', 'aussi forte', 'aussi fort', 'si forte', 'avant', 'auparavant', 'de ma vie'],
+    connectives: ['et', 'mais', 'donc', 'puis', 'parce que', 'car', 'cependant', 'pourtant', 'sauf'],
+  },
+  hi: {
+    negations: ['बिना'],
+    trailingNegations: ['नहीं', 'नही'],
+    pseudoNegations: ['पता नहीं', 'यकीन नहीं', 'याद नहीं'],
+    fillers: ['है', 'हैं', 'था', 'थी', 'थे', 'हुआ', 'हुई', 'हुए', 'हो', 'रहा', 'रही', 'रहे', 'कोई', 'कभी', 'भी', 'ही', 'तो', 'मुझे'],
+    firstTime: ['ऐसा', 'ऐसी', 'इतना', 'इतनी', 'पहले कभी', 'ज़िंदगी में', 'जिंदगी में'],
+    connectives: ['और', 'लेकिन', 'मगर', 'फिर', 'क्योंकि', 'इसलिए', 'परंतु', 'किंतु'],
+  },
+};
+
+// A blocked or stuffy nose is not a breathing emergency
+const NASAL_BREATHING: RedFlagException = {
+  phrases: [
+    "can't breathe", 'cannot breathe', 'difficulty breathing', 'struggling to breathe',
+    'no puedo respirar', 'dificultad para respirar', 'me cuesta mucho respirar',
+    'je ne peux pas respirer', "je n'arrive pas à respirer", 'difficulté à respirer',
+    'सांस नहीं ले पा', 'साँस नहीं ले पा', 'सांस लेने में दिक्कत', 'साँस लेने में दिक्कत', 'सांस लेने में तकलीफ',
+  ],
+  context: [
+    'nose', 'nasal', 'nostril', 'stuffy', 'congested', 'congestion', 'sinus',
+    'nariz', 'congestión', 'congestionado', 'congestionada', 'tapada', 'sinusitis',
+    'nez', 'nasale', 'bouché', 'bouchée', 'sinusite',
+    'नाक', 'जुकाम', 'ज़ुकाम', 'साइनस',
+  ],
+};
+
+// label and advice are the English fallback; the app translates them under emergency.rule.<id> in src/i18n
+export const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'chest_pain_radiating',
+    label: 'Chest pain spreading to the arm, jaw, neck or back',
+    match: {
+      en: [
+        ['chest pain', 'chest pressure', 'chest tightness', 'tight chest', 'crushing chest', 'pain in my chest', 'pressure in my chest'],
+        [
+          'left arm', 'down my arm', 'into my arm', 'to my arm', 'my jaw', 'into my neck', 'to my neck', 'up my neck',
+          'to my shoulder', 'into my shoulder', 'between my shoulder blades', 'into my back', 'to my back', 'through to my back',
+          'spreads', 'spreading', 'radiates', 'radiating', 'cold sweat', 'sweating', 'short of breath', 'shortness of breath',
+        ],
+      ],
+      es: [
+        ['dolor en el pecho', 'dolor de pecho', 'dolor torácico', 'presión en el pecho', 'opresión en el pecho', 'pecho apretado'],
+        [
+          'brazo izquierdo', 'al brazo', 'por el brazo', 'la mandíbula', 'al cuello', 'hacia el cuello', 'a la espalda',
+          'hacia la espalda', 'entre los omóplatos', 'se extiende', 'se irradia', 'irradia', 'sudor frío', 'sudando',
+          'falta de aire', 'me falta el aire',
+        ],
+      ],
+      fr: [
+        ['douleur thoracique', 'douleur à la poitrine', 'douleur dans la poitrine', 'oppression thoracique', 'poitrine serrée', 'pression dans la poitrine'],
+        [
+          'bras gauche', 'dans le bras', 'vers le bras', 'la mâchoire', 'dans le cou', 'vers le cou', 'dans le dos', 'vers le dos',
+          'entre les omoplates', 'irradie', 'se propage', "s'étend", 'sueurs froides', 'je transpire', 'essoufflé', 'essoufflée',
+          'souffle court',
+        ],
+      ],
+      hi: [
+        ['सीने में दर्द', 'छाती में दर्द', 'सीने में दबाव', 'छाती में दबाव', 'सीने में जकड़न', 'छाती में जकड़न'],
+        [
+          'बाएं हाथ', 'बाएँ हाथ', 'हाथ तक', 'बांह तक', 'बाँह तक', 'जबड़े', 'गर्दन तक', 'पीठ तक', 'कंधे तक',
+          'फैल रहा', 'फैल रही', 'फैलता', 'ठंडा पसीना', 'पसीना', 'सांस फूल', 'साँस फूल',
+        ],
+      ],
+    },
+    response: 'emergency',
+    advice: 'Chest pain that spreads to your arm, jaw, neck or back can be a sign of a heart attack. Call emergency services now. Do not drive yourself.',
+  },
+  {
+    id: 'stroke_fast',
+    label: 'Possible stroke (face, arm or speech changes)',
+    match: {
+      en: [[
+        'face drooping', 'face is drooping', 'facial droop', 'drooping face', 'one side of my face',
+        'slurred speech', 'slurring', "can't speak", 'cannot speak', 'trouble speaking',
+        'arm weakness', 'weakness on one side', 'numbness on one side', 'one side of my body', "can't lift my arm",
+      ]],
+      es: [[
+        'cara caída', 'cara torcida', 'boca torcida', 'un lado de la cara', 'habla arrastrada', 'arrastro las palabras',
+        'no puedo hablar', 'dificultad para hablar', 'debilidad en un lado', 'entumecimiento en un lado',
+        'un lado del cuerpo', 'no puedo levantar el brazo',
+      ]],
+      fr: [[
+        'visage affaissé', 'visage qui tombe', 'bouche de travers', 'un côté du visage', 'difficulté à parler',
+        'je ne peux pas parler', "je n'arrive pas à parler", "faiblesse d'un côté", "engourdissement d'un côté",
+        'un côté du corps', 'je ne peux pas lever le bras',
+      ]],
+      hi: [[
+        'चेहरा टेढ़ा', 'चेहरा लटक', 'मुंह टेढ़ा', 'मुँह टेढ़ा', 'बोलने में दिक्कत', 'बोलने में परेशानी', 'बोल नहीं पा',
+        'जुबान लड़खड़ा', 'ज़ुबान लड़खड़ा', 'एक तरफ कमजोरी', 'एक तरफ़ कमज़ोरी', 'एक तरफ सुन्न', 'हाथ नहीं उठा पा',
+      ]],
+    },
+    response: 'emergency',
+    advice: 'Face drooping, arm weakness or speech difficulty can be signs of a stroke. Call emergency services immediately and note the time the symptoms started.',
+  },
+  {
+    id: 'anaphylaxis',
+    label: 'Possible severe allergic reaction',
+    match: {
+      en: [
+        ['throat swelling', 'throat is swelling', 'swollen throat', 'throat closing', 'tongue swelling', 'swollen tongue', 'lips swelling', 'swollen lips', "can't breathe", 'difficulty breathing', 'wheezing'],
+        ['allergic', 'allergy', 'sting', 'peanut', 'nuts', 'shellfish', 'hives', 'after eating', 'new medication'],
+      ],
+      es: [
+        ['garganta hinchada', 'se me hincha la garganta', 'se me cierra la garganta', 'lengua hinchada', 'labios hinchados', 'no puedo respirar', 'dificultad para respirar', 'sibilancias', 'silbido al respirar'],
+        ['alergia', 'alérgico', 'alérgica', 'picadura', 'cacahuete', 'cacahuate', 'maní', 'frutos secos', 'nueces', 'marisco', 'mariscos', 'urticaria', 'ronchas', 'después de comer', 'medicamento nuevo', 'nuevo medicamento'],
+      ],
+      fr: [
+        ['gorge gonflée', 'gorge qui gonfle', 'gorge qui se serre', 'langue gonflée', 'lèvres gonflées', 'je ne peux pas respirer', "je n'arrive pas à respirer", 'difficulté à respirer', 'sifflement'],
+        ['allergie', 'allergique', 'piqûre', 'arachide', 'cacahuète', 'cacahuètes', 'fruits à coque', 'noix', 'fruits de mer', 'crustacés', 'urticaire', 'après avoir mangé', 'nouveau médicament'],
+      ],
+      hi: [
+        ['गला सूज', 'गले में सूजन', 'जीभ सूज', 'जीभ में सूजन', 'होंठ सूज', 'होंठों में सूजन', 'सांस नहीं ले पा', 'साँस नहीं ले पा', 'सांस लेने में दिक्कत', 'साँस लेने में दिक्कत', 'सांस लेने में तकलीफ', 'घरघराहट'],
+        ['एलर्जी', 'डंक', 'मूंगफली', 'मेवे', 'झींगा', 'पित्ती', 'खाने के बाद', 'नई दवा'],
+      ],
+    },
+    unless: [NASAL_BREATHING],
+    response: 'emergency',
+    advice: 'Swelling of the throat, tongue or lips with trouble breathing after an allergen can be anaphylaxis. Use an epinephrine auto-injector if you have one and call emergency services now.',
+  },
+  {
+    id: 'anaphylaxis_named',
+    label: 'Anaphylaxis',
+    match: {
+      en: [['anaphylaxis', 'anaphylactic']],
+      es: [['anafilaxia', 'anafiláctico', 'anafiláctica']],
+      fr: [['anaphylaxie', 'anaphylactique']],
+      hi: [['एनाफिलेक्सिस', 'एनाफिलैक्सिस']],
+    },
+    response: 'emergency',
+    advice: 'Anaphylaxis is life-threatening. Use an epinephrine auto-injector if you have one and call emergency services now.',
+  },
+  {
+    id: 'severe_breathing',
+    label: 'Severe difficulty breathing',
+    match: {
+      en: [["can't breathe", 'cannot breathe', 'struggling to breathe', 'gasping for air', 'lips turning blue', 'lips are blue']],
+      es: [['no puedo respirar', 'me cuesta mucho respirar', 'me ahogo', 'me estoy ahogando', 'labios azules', 'labios morados']],
+      fr: [['je ne peux pas respirer', "je n'arrive pas à respirer", "j'étouffe", 'je suffoque', 'lèvres bleues', 'lèvres violettes']],
+      hi: [['सांस नहीं ले पा', 'साँस नहीं ले पा', 'सांस नहीं आ रही', 'साँस नहीं आ रही', 'दम घुट', 'होंठ नीले']],
+    },
+    unless: [NASAL_BREATHING],
+    response: 'emergency',
+    advice: 'Severe difficulty breathing needs immediate medical help. Call emergency services now.',
+  },
+  {
+    id: 'severe_bleeding',
+    label: 'Severe or uncontrolled bleeding',
+    match: {
+      en: [["bleeding won't stop", 'bleeding will not stop', "won't stop bleeding", 'heavy bleeding', 'coughing up blood', 'vomiting blood', 'throwing up blood']],
+      es: [['no para de sangrar', 'no deja de sangrar', 'sangrado abundante', 'toso sangre', 'tosiendo sangre', 'vomito sangre', 'vomitando sangre']],
+      fr: [["ne s'arrête pas de saigner", 'saignement abondant', 'je saigne beaucoup', 'je tousse du sang', 'crache du sang', 'vomis du sang', 'vomit du sang']],
+      hi: [['खून नहीं रुक', 'खून बंद नहीं', 'बहुत ज़्यादा खून', 'बहुत ज्यादा खून', 'खांसी में खून', 'खाँसी में खून', 'खून की उल्टी', 'उल्टी में खून']],
+    },
+    response: 'emergency',
+    advice: 'Heavy or uncontrolled bleeding needs emergency care. Apply firm pressure to any wound and call emergency services now.',
+  },
+  {
+    id: 'loss_of_consciousness',
+    label: 'Loss of consciousness or seizure',
+    match: {
+      en: [['passed out', 'fainted', 'unconscious', 'unresponsive', 'seizure', 'convulsion']],
+      es: [['me desmayé', 'se desmayó', 'desmayo', 'perdí el conocimiento', 'perdió el conocimiento', 'inconsciente', 'no responde', 'convulsión', 'convulsiones']],
+      fr: [['évanoui', 'évanouie', 'évanouissement', 'perdu connaissance', 'inconscient', 'inconsciente', 'ne répond pas', 'convulsion', 'convulsions', "crise d'épilepsie"]],
+      hi: [['बेहोश', 'होश खो', 'दौरा पड़ा', 'दौरे पड़', 'मिर्गी का दौरा', 'झटके आ']],
+    },
+    response: 'emergency',
+    advice: 'Fainting, unresponsiveness or a seizure should be assessed urgently. Call emergency services, especially if this is the first time or it lasted more than a few minutes.',
+  },
+  {
+    id: 'suicidal_ideation',
+    label: 'Thoughts of suicide or self-harm',
+    // "Hurt myself" alone is usually an injury ("I hurt myself lifting boxes"), so it only counts
+    // with the intent spelled out
+    match: {
+      en: [[
+        'kill myself', 'suicide', 'suicidal', 'end my life', 'want to die', 'better off dead', 'self-harm', 'self harm',
+        'want to hurt myself', 'going to hurt myself', 'urge to hurt myself', 'thoughts of hurting myself',
+        'thinking about hurting myself', 'thinking of hurting myself', 'hurt myself on purpose', 'hurting myself on purpose',
+      ]],
+      es: [[
+        'matarme', 'suicidio', 'suicidarme', 'suicida', 'quitarme la vida', 'acabar con mi vida', 'quiero morir',
+        'quiero morirme', 'autolesión', 'autolesionarme', 'quiero hacerme daño', 'hacerme daño a propósito',
+      ]],
+      fr: [[
+        'me tuer', 'suicide', 'suicidaire', 'en finir avec la vie', 'mettre fin à mes jours', 'envie de mourir', 'veux mourir',
+        'automutilation', 'envie de me faire du mal', 'me faire du mal exprès',
+      ]],
+      hi: [[
+        'आत्महत्या', 'खुद को मार', 'ख़ुद को मार', 'जान देना चाह', 'मरना चाहता', 'मरना चाहती', 'जीना नहीं चाहता',
+        'जीना नहीं चाहती', 'खुद को नुकसान पहुंचाना चाह', 'खुद को चोट पहुंचाना चाह',
+      ]],
+    },
+    response: 'crisis',
+    advice: "You don't have to go through this alone. Please reach out to a crisis line or emergency services right now - talking to someone can help.",
+  },
+];
+
+// Word boundaries that work outside ASCII. The trailing edge lets combining marks through so
+// Hindi stems like "बेहोश" also match "बेहोशी".
+const WORD_START = '(?<![\\p{L}\\p{M}\\p{N}])';
+const WORD_END = '(?![\\p{L}\\p{N}])';
+
+const SENTENCE_BREAK = /[.!?\n;।]+/u;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFC').toLowerCase().replace(/[’‘]/g, "'");
+}
+
+function wordPattern(words: string[], flags = 'u'): RegExp {
+  return new RegExp(`${WORD_START}(?:${words.map(word => escapeRegExp(normalize(word))).join('|')})${WORD_END}`, flags);
+}
+
+function toSentences(text: string): string[] {
+  return normalize(text)
+    .split(SENTENCE_BREAK)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+// How many words other than fillers may sit between a negation and the phrase it denies:
+// "no real chest pain" is denied, "without warning I got crushing chest pain" is not
+const NEGATION_REACH = 1;
+
+function bareWord(word: string): string {
+  return word.replace(/[^\p{L}\p{M}']/gu, '');
+}
+
+function isNegation(word: string, negations: string[]): boolean {
+  const bare = bareWord(word);
+  // French elides "ne" before a vowel: "n'ai", "n'arrive"
+  return negations.some(negation => negation.endsWith("'") ? bare.startsWith(negation) : bare === negation);
+}
+
+function withinReach(between: string[], grammar: Grammar): boolean {
+  return between.filter(word => !grammar.fillers.includes(bareWord(word))).length <= NEGATION_REACH;
+}
+
+// True if the phrase appears in the clause without a negation just before it (or, for languages
+// that negate after the verb, just after it)
+function containsPhrase(clause: string, phrase: string, grammar: Grammar): boolean {
+  const pattern = new RegExp(`${WORD_START}${escapeRegExp(normalize(phrase))}${WORD_END}`, 'gu');
+  const pseudo = grammar.pseudoNegations.length > 0 ? wordPattern(grammar.pseudoNegations, 'gu') : null;
+  const unhedged = (text: string) => pseudo ? text.replace(pseudo, ' ') : text;
+  // "I've never had chest pain like this" reports the symptom rather than denying it
+  if (grammar.firstTime.length > 0 && wordPattern(grammar.firstTime).test(clause)) return pattern.test(clause);
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(clause)) !== null) {
+    const preceding = words(unhedged(clause.slice(0, match.index)));
+    const following = words(unhedged(clause.slice(match.index + match[0].length)));
+    const negated = preceding.some((word, index) =>
+      isNegation(word, grammar.negations) && withinReach(preceding.slice(index + 1), grammar))
+      || following.some((word, index) =>
+        isNegation(word, grammar.trailingNegations) && withinReach(following.slice(0, index), grammar));
+    if (!negated) return true;
+  }
+  return false;
+}
+
+function matchesInSentence(sentence: string, phrase: string, rule: RedFlagRule, grammar: Grammar): boolean {
+  // Where a negation stops applying: "no chest pain, but my arm hurts" negates only the first clause
+  const clauseBreak = new RegExp(`[:,]+|${wordPattern(grammar.connectives).source}`, 'u');
+  if (!sentence.split(clauseBreak).some(clause => containsPhrase(clause, phrase, grammar))) return false;
+  return !rule.unless?.some(exception =>
+    exception.phrases.includes(phrase)
+    && exception.context.some(context => new RegExp(`${WORD_START}${escapeRegExp(normalize(context))}`, 'u').test(sentence))
+  );
+}
+
+// Screens one turn: every group of a rule has to match within this text, in the consultation
+// language or in English (which patients often mix in)
+export function screenText(text: string, language = DEFAULT_LANGUAGE, rules: RedFlagRule[] = RED_FLAG_RULES): RedFlagHit | null {
+  const sentences = toSentences(text);
+  const code = normalizeLanguage(language);
+  const languages = code === DEFAULT_LANGUAGE ? [code] : [code, DEFAULT_LANGUAGE];
+
+  for (const rule of rules) {
+    for (const lang of languages) {
+      const groups = rule.match[lang];
+      if (!groups) continue;
+
+      const grammar = GRAMMARS[lang];
+      const matched: string[] = [];
+      const allGroupsMatch = groups.every(group => {
+        const phrase = group.find(candidate => sentences.some(sentence => matchesInSentence(sentence, candidate, rule, grammar)));
+        if (phrase) matched.push(phrase);
+        return Boolean(phrase);
+      });
+
+      if (allGroupsMatch) {
+        return {
+          ruleId: rule.id,
+          label: rule.label,
+          response: rule.response,
+          advice: rule.advice,
+          matched,
+          rulesVersion: RED_FLAG_RULES_VERSION,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+// Screens each thing the patient has said, one turn at a time so phrases from unrelated
+// answers ("chest pain when I cough", later "a stiff neck") are never combined. Assistant
+// turns are never screened.
+export function screenConversation(messages: ConversationMessage[], language = DEFAULT_LANGUAGE): RedFlagHit | null {
+  for (const message of messages) {
+    if (message.role !== 'user') continue;
+    const hit = screenText(message.content, language);
+    if (hit) return hit;
+  }
+  return null;
+}
+
+// The assessment returned in place of a model analysis when a rule fires
+export function redFlagAnalysis(hit: RedFlagHit) {
+  return {
+    possibleConditions: [
+      {
+        name: hit.label,
+        description: hit.advice,
+        likelihood: 'High',
+      },
+    ],
+    recommendations: hit.response === 'crisis'
+      ? [hit.advice, 'If you are in immediate danger, call your local emergency number now.']
+      : [hit.advice, 'Go to the nearest emergency department if you cannot reach emergency services.'],
+    urgencyLevel: 'Emergency',
+    redFlag: hit,
+  };
+}
@@ -0,0 +1,183 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface DiagnosedCondition {
+  name: string;
+  diagnosed_year: number | null;
+}
+
+export interface Medication {
+  name: string;
+  dose: string | null;
+  frequency: string | null;
+  started_on: string | null;
+}
+
+export interface Allergy {
+  allergen: string;
+  reaction: string | null;
+  severity: 'mild' | 'moderate' | 'severe' | null;
+}
+
+// The person an assessment is about: the account holder, or one of the dependents they care for
+export interface Subject {
+  full_name: string;
+  age: number;
+  sex: 'female' | 'male' | 'intersex' | null;
+  height_cm: number | null;
+  weight_kg: number | null;
+  health_issues: string | null;
+  conditions: DiagnosedCondition[];
+  medications: Medication[];
+  allergies: Allergy[];
+  // Set for dependents only, e.g. "daughter" or "father"
+  relationship: string | null;
+  isDependent: boolean;
+}
+
+type SubjectDetails = Pick<Subject, 'conditions' | 'medications' | 'allergies'>;
+
+interface FilterableQuery<T> {
+  eq(column: string, value: unknown): T;
+  is(column: string, value: null): T;
+}
+
+// Restricts a symptom_history query to the subject's own entries; the account
+// holder's rows are the ones without a dependent_id.
+export function forSubject<T extends FilterableQuery<T>>(query: T, dependentId?: string | null): T {
+  return dependentId ? query.eq('dependent_id', dependentId) : query.is('dependent_id', null);
+}
+
+// Diagnosed conditions, medications and allergies recorded for the subject
+async function loadSubjectDetails(
+  supabase: SupabaseClient,
+  userId: string,
+  dependentId?: string | null,
+): Promise<SubjectDetails> {
+  const [conditions, medications, allergies] = await Promise.all([
+    forSubject(supabase.from('diagnosed_conditions').select('name, diagnosed_year').eq('user_id', userId), dependentId)
+      .order('created_at'),
+    forSubject(supabase.from('medications').select('name, dose, frequency, started_on').eq('user_id', userId), dependentId)
+      .order('created_at'),
+    forSubject(supabase.from('allergies').select('allergen, reaction, severity').eq('user_id', userId), dependentId)
+      .order('created_at'),
+  ]);
+
+  return {
+    conditions: (conditions.data ?? []) as DiagnosedCondition[],
+    medications: (medications.data ?? []) as Medication[],
+    allergies: (allergies.data ?? []) as Allergy[],
+  };
+}
+
+// Whole years since a YYYY-MM-DD date of birth. Profiles don't store an age once they have a
+// date of birth, so it's worked out on every read and never falls behind after a birthday.
+function ageFromBirthDate(dateOfBirth: string): number {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const today = new Date();
+  const hadBirthday = today.getUTCMonth() + 1 > month || (today.getUTCMonth() + 1 === month && today.getUTCDate() >= day);
+  return today.getUTCFullYear() - year - (hadBirthday ? 0 : 1);
+}
+
+// Loads the subject's profile with a service-role client, so ownership of the dependent
+// is checked here rather than by RLS. Returns null when the dependent doesn't belong to
+// the account, or when the account holder hasn't completed their profile yet (rows made
+// at signup without the details only hold placeholders).
+export async function loadSubject(
+  supabase: SupabaseClient,
+  userId: string,
+  dependentId?: string | null,
+): Promise<Subject | null> {
+  if (dependentId) {
+    const { data } = await supabase
+      .from('dependents')
+      .select('full_name, age, sex, height_cm, weight_kg, health_issues, relationship')
+      .eq('id', dependentId)
+      .eq('owner_id', userId)
+      .maybeSingle();
+
+    return data ? { ...data, ...await loadSubjectDetails(supabase, userId, dependentId), isDependent: true } : null;
+  }
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('full_name, age, date_of_birth, sex, height_cm, weight_kg, health_issues, completed_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!data?.completed_at) return null;
+
+  return {
+    full_name: data.full_name,
+    age: data.date_of_birth ? ageFromBirthDate(data.date_of_birth) : data.age,
+    sex: data.sex,
+    height_cm: data.height_cm,
+    weight_kg: data.weight_kg,
+    health_issues: data.health_issues,
+    ...await loadSubjectDetails(supabase, userId),
+    relationship: null,
+    isDependent: false,
+  };
+}
+
+export function describeCondition(condition: DiagnosedCondition): string {
+  return condition.diagnosed_year ? `${condition.name} (diagnosed ${condition.diagnosed_year})` : condition.name;
+}
+
+export function describeMedication(medication: Medication): string {
+  const details = [medication.dose, medication.frequency].filter(Boolean).join(', ');
+  let text = details ? `${medication.name} ${details}` : medication.name;
+  if (medication.started_on) text += ` (since ${medication.started_on})`;
+  return text;
+}
+
+export function describeAllergy(allergy: Allergy): string {
+  let text = allergy.reaction ? `${allergy.allergen}: ${allergy.reaction}` : allergy.allergen;
+  if (allergy.severity) text += ` (${allergy.severity})`;
+  return text;
+}
+
+// Height and weight, with BMI when both are known
+export function describeBody(subject: Subject): string | null {
+  const parts: string[] = [];
+  if (subject.height_cm) parts.push(`${subject.height_cm} cm`);
+  if (subject.weight_kg) parts.push(`${subject.weight_kg} kg`);
+  if (subject.height_cm && subject.weight_kg) {
+    const bmi = subject.weight_kg / (subject.height_cm / 100) ** 2;
+    parts.push(`BMI ${bmi.toFixed(1)}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+// A list section of the patient block; empty lists say nothing was recorded, which is not
+// the same as the patient having none
+function describeList<T>(label: string, items: T[], describe: (item: T) => string): string {
+  if (items.length === 0) return `\n- ${label}: none recorded`;
+  return `\n- ${label}:${items.map((item) => `\n  - ${describe(item)}`).join('')}`;
+}
+
+export function describeSubject(subject: Subject, heading: string): string {
+  let text = `\n\n${heading}:
+- Name: ${subject.full_name}
+- Age: ${subject.age} years old
+- Sex: ${subject.sex ?? 'not recorded'}`;
+
+  const body = describeBody(subject);
+  if (body) text += `\n- Height and weight: ${body}`;
+
+  text += describeList('Diagnosed conditions', subject.conditions, describeCondition);
+  text += describeList('Current medications', subject.medications, describeMedication);
+  text += describeList('Allergies', subject.allergies, describeAllergy);
+  text += `\n- Other health issues (free text): ${subject.health_issues || 'None reported'}`;
+
+  if (subject.isDependent) {
+    text += `\n- Reported by: a caregiver (the patient is their ${subject.relationship || 'dependent'})`;
+  }
+  return text;
+}
+
+// Prompt section for assessments a caregiver completes on someone else's behalf
+export function caregiverInstruction(subject: Subject | null): string {
+  if (!subject?.isDependent) return '';
+  return `CAREGIVER MODE:
+You are talking to a caregiver describing symptoms for ${subject.full_name}, not to the patient. Address the caregiver, refer to the patient in the third person (e.g. "Does ${subject.full_name} have a fever?"), and remember that some things (like pain levels or how the patient feels) are the caregiver's observations rather than first-hand reports.`;
+}
@@ -0,0 +1,196 @@
+// Tool definitions for structured model output. Each schema is both what the model is asked to
+// produce and what its reply is validated against, so it must match the client types:
+// AnalysisResult in src/lib/symptomAnalyzer.ts and ReportAnalysis in src/lib/reportAnalyzer.ts.
+
+import type { ToolDefinition } from "./ai.ts";
+import type { CitedEvidence } from "./evidence.ts";
+
+export const SELF_CARE_TIMEFRAMES = ['now', 'next_24_hours', 'next_few_days', 'ongoing'] as const;
+
+export interface AnalysisResult {
+  possibleConditions: {
+    name: string;
+    // Always English, whatever language name is in, so the condition can be coded
+    englishName: string;
+    description: string;
+    likelihood: 'High' | 'Medium' | 'Low';
+    evidence: CitedEvidence[];
+  }[];
+  recommendations: string[];
+  urgencyLevel: 'Emergency' | 'Urgent' | 'Non-urgent';
+  warningSigns: string[];
+  specialist: { type: string; reason: string };
+  followUpWindow: { amount: number; unit: 'hours' | 'days' | 'weeks' };
+  selfCare: { timeframe: typeof SELF_CARE_TIMEFRAMES[number]; steps: string[] }[];
+}
+
+export interface ReportAnalysis {
+  reportType: string;
+  summary: string;
+  keyFindings: string[];
+  possibleConditions: string[];
+  medicalTermsExplained?: { term: string; explanation: string }[];
+  recommendations: string[];
+  urgencyLevel: 'low' | 'medium' | 'high' | 'critical';
+}
+
+export const ANALYZE_SYMPTOMS_TOOL: ToolDefinition = {
+  name: 'analyze_symptoms',
+  description: 'Analyze symptoms and return structured health assessment',
+  parameters: {
+    type: 'object',
+    properties: {
+      possibleConditions: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            englishName: { type: 'string', description: 'Standard English medical name of the condition, even when name is in another language' },
+            description: { type: 'string' },
+            likelihood: { type: 'string', enum: ['High', 'Medium', 'Low'] },
+            evidence: {
+              type: 'array',
+              minItems: 1,
+              description: 'What supports or argues against this condition',
+              items: {
+                type: 'object',
+                properties: {
+                  source: { type: 'string', description: 'Evidence id, e.g. T2, P1, H3 or O1' },
+                  stance: { type: 'string', enum: ['supports', 'against'] },
+                  quote: { type: 'string', description: 'The exact words from that source that matter, copied verbatim' }
+                },
+                required: ['source', 'stance']
+              }
+            }
+          },
+          required: ['name', 'englishName', 'description', 'likelihood', 'evidence']
+        }
+      },
+      recommendations: {
+        type: 'array',
+        minItems: 1,
+        items: { type: 'string' }
+      },
+      urgencyLevel: {
+        type: 'string',
+        enum: ['Emergency', 'Urgent', 'Non-urgent']
+      },
+      warningSigns: {
+        type: 'array',
+        minItems: 1,
+        items: { type: 'string' },
+        description: 'Signs that mean the patient should seek care immediately'
+      },
+      specialist: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', description: 'Kind of clinician or specialty to see first' },
+          reason: { type: 'string' }
+        },
+        required: ['type', 'reason']
+      },
+      followUpWindow: {
+        type: 'object',
+        description: 'See a doctor if not better within this time',
+        properties: {
+          amount: { type: 'number' },
+          unit: { type: 'string', enum: ['hours', 'days', 'weeks'] }
+        },
+        required: ['amount', 'unit']
+      },
+      selfCare: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            timeframe: { type: 'string', enum: [...SELF_CARE_TIMEFRAMES] },
+            steps: { type: 'array', minItems: 1, items: { type: 'string' } }
+          },
+          required: ['timeframe', 'steps']
+        }
+      }
+    },
+    required: [
+      'possibleConditions', 'recommendations', 'urgencyLevel',
+      'warningSigns', 'specialist', 'followUpWindow', 'selfCare'
+    ]
+  },
+  // Keys are normalised (lowercase, letters and digits only)
+  enumAliases: {
+    moderate: 'Medium',
+    likely: 'High',
+    unlikely: 'Low',
+    possible: 'Medium',
+    critical: 'Emergency',
+    immediate: 'Emergency',
+    soon: 'Urgent',
+    routine: 'Non-urgent',
+    nonemergency: 'Non-urgent',
+    noturgent: 'Non-urgent',
+    today: 'next_24_hours',
+    longterm: 'ongoing',
+    hour: 'hours',
+    day: 'days',
+    week: 'weeks',
+    support: 'supports',
+    for: 'supports',
+    contradicts: 'against',
+    argues: 'against',
+    argumentagainst: 'against',
+  },
+};
+
+export const ANALYZE_REPORT_TOOL: ToolDefinition = {
+  name: 'analyze_medical_report',
+  description: 'Analyze a medical report and return structured findings',
+  parameters: {
+    type: 'object',
+    properties: {
+      reportType: { type: 'string', description: 'Type of medical report' },
+      summary: { type: 'string', description: 'Brief summary of the report' },
+      keyFindings: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Key findings from the report'
+      },
+      possibleConditions: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Possible health conditions based on findings'
+      },
+      medicalTermsExplained: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            term: { type: 'string' },
+            explanation: { type: 'string' }
+          },
+          required: ['term', 'explanation']
+        },
+        description: 'Medical terms with simple explanations'
+      },
+      recommendations: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Recommendations or next steps'
+      },
+      urgencyLevel: {
+        type: 'string',
+        enum: ['low', 'medium', 'high', 'critical'],
+        description: 'Urgency level of the findings'
+      }
+    },
+    required: ['reportType', 'summary', 'keyFindings', 'possibleConditions', 'recommendations', 'urgencyLevel']
+  },
+  enumAliases: {
+    normal: 'low',
+    moderate: 'medium',
+    urgent: 'high',
+    severe: 'high',
+    emergency: 'critical',
+  },
+};
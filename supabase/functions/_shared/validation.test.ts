@@ -0,0 +1,118 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { ANALYZE_SYMPTOMS_TOOL } from "./tools.ts";
+import { normalizeEnumKey, validateSchema, type JsonSchema } from "./validation.ts";
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    amount: { type: 'number' },
+    done: { type: 'boolean' },
+    level: { type: 'string', enum: ['Low', 'Non-urgent'] },
+    tags: { type: 'array', minItems: 1, items: { type: 'string' } },
+  },
+  required: ['title', 'tags'],
+};
+
+Deno.test('validateSchema normalises values on the way through', () => {
+  const cases: { name: string; input: Record<string, unknown>; value: Record<string, unknown> }[] = [
+    {
+      name: 'strings are trimmed',
+      input: { title: '  Headache ', tags: [' a '] },
+      value: { title: 'Headache', tags: ['a'] },
+    },
+    {
+      name: 'numbers and booleans sent as strings',
+      input: { title: 'x', amount: '10', done: 'false', tags: ['a'] },
+      value: { title: 'x', amount: 10, done: false, tags: ['a'] },
+    },
+    {
+      name: 'a number where a string was expected',
+      input: { title: 42, tags: ['a'] },
+      value: { title: '42', tags: ['a'] },
+    },
+    {
+      name: 'a lone item where a list was expected',
+      input: { title: 'x', tags: 'a' },
+      value: { title: 'x', tags: ['a'] },
+    },
+    {
+      name: 'enums match loosely',
+      input: { title: 'x', level: 'non urgent', tags: ['a'] },
+      value: { title: 'x', level: 'Non-urgent', tags: ['a'] },
+    },
+    {
+      name: 'unknown properties are dropped and missing optional ones skipped',
+      input: { title: 'x', tags: ['a'], extra: true, amount: null },
+      value: { title: 'x', tags: ['a'] },
+    },
+  ];
+
+  for (const { name, input, value } of cases) {
+    const result = validateSchema(SCHEMA, input);
+    assertEquals(result.errors, [], name);
+    assertEquals(result.value, value, name);
+  }
+});
+
+Deno.test('validateSchema reports each problem with its path', () => {
+  const cases: { input: unknown; errors: string[] }[] = [
+    { input: 'nope', errors: ['$: expected an object, got string'] },
+    { input: {}, errors: ['$.title: is required', '$.tags: is required'] },
+    { input: { title: '   ', tags: [] }, errors: ['$.title: expected a non-empty string, got string', '$.tags: expected at least 1 item(s), got 0'] },
+    { input: { title: 'x', tags: ['a', {}] }, errors: ['$.tags[1]: expected a non-empty string, got object'] },
+    { input: { title: 'x', tags: ['a'], amount: 'ten' }, errors: ['$.amount: expected a number, got string'] },
+    { input: { title: 'x', tags: ['a'], done: 'yes' }, errors: ['$.done: expected a boolean, got string'] },
+    { input: { title: 'x', tags: ['a'], level: 'High' }, errors: ['$.level: expected one of Low, Non-urgent, got "High"'] },
+  ];
+
+  for (const { input, errors } of cases) {
+    assertEquals(validateSchema(SCHEMA, input).errors, errors, JSON.stringify(input));
+  }
+});
+
+Deno.test('validateSchema maps enum aliases onto allowed values only', () => {
+  const aliases = { routine: 'Non-urgent', mild: 'Moderate' };
+  const cases: { level: string; value: string | null }[] = [
+    { level: 'Routine', value: 'Non-urgent' },
+    { level: 'LOW', value: 'Low' },
+    // An alias pointing outside the enum is ignored
+    { level: 'mild', value: null },
+  ];
+
+  for (const { level, value } of cases) {
+    const result = validateSchema<{ level?: string | null }>(SCHEMA, { title: 'x', tags: ['a'], level }, aliases);
+    assertEquals(result.value.level, value, level);
+  }
+});
+
+Deno.test('validateSchema accepts a loose analyze_symptoms reply', () => {
+  const result = validateSchema<{ possibleConditions: { likelihood: string }[]; urgencyLevel: string }>(
+    ANALYZE_SYMPTOMS_TOOL.parameters,
+    {
+      possibleConditions: {
+        name: 'Resfriado común',
+        englishName: 'Common cold',
+        description: 'Una infección viral leve.',
+        likelihood: 'moderate',
+        evidence: { source: 'T1', stance: 'Supports' },
+      },
+      recommendations: 'Descansa',
+      urgencyLevel: 'routine',
+      warningSigns: ['Dificultad para respirar'],
+      specialist: { type: 'Médico de cabecera', reason: 'Solo si no mejora.' },
+      followUpWindow: { amount: '10', unit: 'Days' },
+      selfCare: [{ timeframe: 'Now', steps: ['Descansa'] }],
+    },
+    ANALYZE_SYMPTOMS_TOOL.enumAliases,
+  );
+
+  assertEquals(result.errors, []);
+  assertEquals(result.value.possibleConditions[0].likelihood, 'Medium');
+  assertEquals(result.value.urgencyLevel, 'Non-urgent');
+});
+
+Deno.test('normalizeEnumKey ignores case, spacing and punctuation', () => {
+  assertEquals(normalizeEnumKey('Non-urgent'), 'nonurgent');
+  assertEquals(normalizeEnumKey(' next 24 hours '), 'next24hours');
+});
@@ -0,0 +1,118 @@
+// Validation of model output against the same JSON schema the model was given as tool parameters.
+// Only the subset of JSON schema our tools use is understood: object, array, string, number,
+// boolean, enum, required and minItems. Values are normalised on the way through: strings are
+// trimmed, enums matched loosely and mapped through aliases, and unknown properties dropped.
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: string[];
+}
+
+export interface ValidationResult<T = unknown> {
+  value: T;
+  // Human-readable problems, each prefixed with the path of the offending value
+  errors: string[];
+}
+
+// Lowercase with punctuation and spacing removed, so "Non urgent" and "non-urgent" compare equal
+export function normalizeEnumKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// `aliases` maps normalised synonyms the model tends to use onto allowed enum values
+function coerceEnum(value: string, allowed: string[], aliases: Record<string, string>): string | null {
+  const key = normalizeEnumKey(value);
+  const direct = allowed.find((option) => normalizeEnumKey(option) === key);
+  if (direct) return direct;
+  const alias = aliases[key];
+  return alias && allowed.includes(alias) ? alias : null;
+}
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+function validateNode(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  aliases: Record<string, string>,
+  errors: string[],
+): unknown {
+  if (schema.enum) {
+    const coerced = typeof value === 'string' ? coerceEnum(value, schema.enum, aliases) : null;
+    if (coerced === null) errors.push(`${path}: expected one of ${schema.enum.join(', ')}, got ${JSON.stringify(value)}`);
+    return coerced;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value === 'number') return String(value);
+      if (typeof value !== 'string' || !value.trim()) {
+        errors.push(`${path}: expected a non-empty string, got ${describe(value)}`);
+        return value;
+      }
+      return value.trim();
+
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        errors.push(`${path}: expected a number, got ${describe(value)}`);
+      }
+      return number;
+    }
+
+    case 'boolean':
+      if (value === 'true' || value === 'false') return value === 'true';
+      if (typeof value !== 'boolean') errors.push(`${path}: expected a boolean, got ${describe(value)}`);
+      return value;
+
+    case 'array': {
+      // A lone item where a list was expected is a common slip; treat it as a list of one
+      const list = Array.isArray(value) ? value : value === undefined || value === null ? null : [value];
+      if (!list) {
+        errors.push(`${path}: expected an array, got ${describe(value)}`);
+        return value;
+      }
+      if (schema.minItems !== undefined && list.length < schema.minItems) {
+        errors.push(`${path}: expected at least ${schema.minItems} item(s), got ${list.length}`);
+      }
+      return schema.items
+        ? list.map((item, index) => validateNode(schema.items!, item, `${path}[${index}]`, aliases, errors))
+        : list;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path}: expected an object, got ${describe(value)}`);
+        return value;
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (input[key] === undefined || input[key] === null) {
+          if (schema.required?.includes(key)) errors.push(`${path}.${key}: is required`);
+          continue;
+        }
+        output[key] = validateNode(propertySchema, input[key], `${path}.${key}`, aliases, errors);
+      }
+      return output;
+    }
+
+    default:
+      return value;
+  }
+}
+
+export function validateSchema<T>(
+  schema: JsonSchema,
+  value: unknown,
+  aliases: Record<string, string> = {},
+): ValidationResult<T> {
+  const errors: string[] = [];
+  const validated = validateNode(schema, value, '$', aliases, errors);
+  return { value: validated as T, errors };
+}
@@ -1,17 +1,23 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { photoContentParts, toTranscript } from "../_shared/conversation.ts";
+import { languageInstruction, normalizeLanguage } from "../_shared/language.ts";
+import { redFlagAnalysis, screenConversation, screenText } from "../_shared/redFlags.ts";
+import { loadConversationPhotos } from "../_shared/photos.ts";
+import { describeSubject, forSubject, loadSubject, type Subject } from "../_shared/subject.ts";
+import { AIError, SCENARIO_HEADER, aiErrorResponse, createAIClient, type ChatMessage } from "../_shared/ai.ts";
+import { ANALYZE_SYMPTOMS_TOOL, type AnalysisResult } from "../_shared/tools.ts";
+import { buildEvidenceSources, describeEvidenceSources, evidenceTranscript, resolveEvidence } from "../_shared/evidence.ts";
+import { CLINICAL_CODES_VERSION, codeConditions } from "../_shared/clinicalCodes.ts";
+import { AuthError, authErrorResponse, authenticate } from "../_shared/auth.ts";
+import { QuotaError, quotaErrorResponse, withQuota } from "../_shared/quota.ts";
+import { auditRecorder } from "../_shared/audit.ts";
+import { selectPrompt } from "../_shared/prompts.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-ai-scenario',
 };
 
-interface UserProfile {
-  full_name: string;
-  age: number;
-  health_issues: string | null;
-}
-
 interface SymptomHistoryEntry {
   symptoms: string;
   possible_conditions: any[];
@@ -25,13 +31,11 @@ serve(async (req) => {
   }
 
   try {
-    const { symptoms, conversationHistory, userId } = await req.json();
+    const caller = await authenticate(req);
+    const { symptoms, conversationHistory, dependentId, uncuredSymptoms, language } = await req.json();
     
     // Support both direct symptoms string and conversation history
-    const symptomsText = symptoms || (conversationHistory ? 
-      conversationHistory.map((m: { role: string; content: string }) => 
-        `${m.role === 'user' ? 'Patient' : 'Assistant'}: ${m.content}`
-      ).join('\n') : null);
+    const symptomsText = symptoms || (conversationHistory ? toTranscript(conversationHistory) : null);
     
     if (!symptomsText) {
       return new Response(
@@ -40,36 +44,57 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
+    // Deterministic red-flag screen: an emergency never waits on the model's judgement
+    const redFlag = symptoms ? screenText(symptoms, language) : screenConversation(conversationHistory, language);
+    if (redFlag) {
+      console.log('Red flag rule fired:', redFlag.ruleId, 'rules version', redFlag.rulesVersion);
+      const analysis = redFlagAnalysis(redFlag);
+      return new Response(
+        JSON.stringify({
+          ...analysis,
+          possibleConditions: codeConditions(analysis.possibleConditions),
+          codingVersion: CLINICAL_CODES_VERSION,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Fetch user profile and symptom history if userId provided
-    let userProfile: UserProfile | null = null;
+    const prompt = selectPrompt('analyze-symptoms', caller);
+    const ai = createAIClient('analyze-symptoms', {
+      scenario: req.headers.get(SCENARIO_HEADER),
+      onRecord: auditRecorder(caller, prompt.version),
+    });
+
+    // Fetch the subject's profile and symptom history for signed-in callers; anonymous
+    // analyses use only what's in the request
+    let subject: Subject | null = null;
     let symptomHistory: SymptomHistoryEntry[] = [];
+    let photos: Record<string, string> = {};
     
-    if (userId) {
-      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-      const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-      const supabase = createClient(supabaseUrl, supabaseServiceKey);
-      
-      // Fetch user profile
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('full_name, age, health_issues')
-        .eq('user_id', userId)
-        .single();
+    if (caller.mode === 'user') {
+      const { supabase, userId } = caller;
       
-      if (profileData) {
-        userProfile = profileData as UserProfile;
+      // Fetch the profile of whoever the assessment is for (the user or one of their dependents)
+      subject = await loadSubject(supabase, userId, dependentId);
+      if (dependentId && !subject) {
+        return new Response(
+          JSON.stringify({ error: 'Dependent not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
       }
       
-      // Fetch recent symptom history (last 10 entries)
-      const { data: historyData } = await supabase
-        .from('symptom_history')
-        .select('symptoms, possible_conditions, urgency_level, created_at')
-        .eq('user_id', userId)
+      if (Array.isArray(conversationHistory)) {
+        photos = await loadConversationPhotos(supabase, userId, conversationHistory);
+      }
+
+      // Fetch recent symptom history (last 10 entries) for the same person
+      const { data: historyData } = await forSubject(
+        supabase
+          .from('symptom_history')
+          .select('symptoms, possible_conditions, urgency_level, created_at')
+          .eq('user_id', userId),
+        dependentId,
+      )
         .order('created_at', { ascending: false })
         .limit(10);
       
@@ -78,152 +103,91 @@ serve(async (req) => {
       }
     }
 
-    // Build context from user profile and history
-    let userContext = '';
-    
-    if (userProfile) {
-      userContext += `\n\nPATIENT PROFILE:
-- Name: ${userProfile.full_name}
-- Age: ${userProfile.age} years old
-- Known Health Issues: ${userProfile.health_issues || 'None reported'}`;
-    }
-    
+    // Build context from the subject's profile and history
+    const profileContext = subject ? describeSubject(subject, 'PATIENT PROFILE') : '';
+
+    let historyContext = '';
     if (symptomHistory.length > 0) {
-      userContext += `\n\nPREVIOUS SYMPTOM HISTORY (most recent first):`;
+      historyContext += `\n\nPREVIOUS SYMPTOM HISTORY (most recent first):`;
       symptomHistory.forEach((entry, index) => {
         const date = new Date(entry.created_at).toLocaleDateString();
-        userContext += `\n${index + 1}. [${date}] Symptoms: ${entry.symptoms} | Urgency: ${entry.urgency_level}`;
+        historyContext += `\n${index + 1}. [${date}] Symptoms: ${entry.symptoms} | Urgency: ${entry.urgency_level}`;
       });
     }
 
-const systemPrompt = `You are a medical AI assistant that helps analyze symptoms. You should:
-1. Analyze the described symptoms carefully
-2. Consider the patient's age, known health issues, and symptom history when available
-3. Suggest possible conditions (not diagnoses) based on all available information
-4. Provide helpful lifestyle and care recommendations
-5. Assess the urgency level
-
-IMPORTANT GUIDELINES:
-- Always remind users that this is not a medical diagnosis and they should consult a healthcare professional
-- If the patient has a history of similar symptoms, note any patterns
-- Be extra cautious with elderly patients (age > 65) or very young patients (age < 12)
-- DO NOT suggest specific medications - only provide general care recommendations
-
-You must respond with a valid JSON object in this exact format:
-{
-  "possibleConditions": [
-    {
-      "name": "Condition Name",
-      "description": "Brief description of the condition and how it relates to the symptoms",
-      "likelihood": "High" | "Medium" | "Low"
+    let ongoingContext = '';
+    if (Array.isArray(uncuredSymptoms) && uncuredSymptoms.length > 0) {
+      ongoingContext += `\n\nCONFIRMED ONGOING SYMPTOMS (the patient confirmed these are not yet cured - treat them as active and consider how they relate to the current complaint):`;
+      uncuredSymptoms.forEach((symptom: string, index: number) => {
+        ongoingContext += `\n${index + 1}. ${symptom}`;
+      });
     }
-  ],
-  "recommendations": [
-    "Recommendation 1",
-    "Recommendation 2"
-  ],
-  "urgencyLevel": "Emergency" | "Urgent" | "Non-urgent"
-}
 
-Guidelines for urgency:
-- Emergency: Chest pain, difficulty breathing, severe bleeding, signs of stroke, severe allergic reactions
-- Urgent: High fever, persistent vomiting, severe pain, symptoms worsening rapidly
-- Non-urgent: Mild symptoms, common cold symptoms, minor aches`;
+    const systemPrompt = prompt.render('system', {
+      language: languageInstruction(normalizeLanguage(language), ['likelihood', 'urgencyLevel', 'followUpWindow.unit', 'selfCare.timeframe', 'evidence.source', 'evidence.stance']),
+    });
 
-    const userMessage = `Please analyze this patient consultation and provide your assessment:
+    // Everything a condition can cite, with the patient's own turns tagged in the transcript
+    const conversation = Array.isArray(conversationHistory) && !symptoms ? conversationHistory : undefined;
+    const evidenceSources = buildEvidenceSources({
+      messages: conversation,
+      symptoms: conversation ? undefined : symptomsText,
+      subject,
+      history: symptomHistory,
+      ongoing: Array.isArray(uncuredSymptoms) ? uncuredSymptoms : [],
+    });
 
-${userContext}
+    const userMessage = prompt.render('user', {
+      profile: profileContext,
+      history: historyContext,
+      ongoing: ongoingContext,
+      evidence: describeEvidenceSources(evidenceSources),
+      symptoms: conversation ? evidenceTranscript(conversation) : `[T1] ${symptomsText}`,
+    });
 
-CURRENT SYMPTOMS:
-${symptomsText}`;
+    // Photos go alongside the transcript as extra content parts, labelled with the numbers it cites
+    const imageParts = Array.isArray(conversationHistory) ? photoContentParts(conversationHistory, photos) : [];
+    const userContent: ChatMessage['content'] = imageParts.length > 0
+      ? [{ type: 'text', text: userMessage }, ...imageParts]
+      : userMessage;
 
-    console.log('Sending to AI with user context:', userContext ? 'Yes' : 'No');
+    console.log('Sending to AI with user context:', profileContext || historyContext || ongoingContext ? 'Yes' : 'No', '| photos:', imageParts.length / 2, '| prompt', prompt.version);
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
+    const analysisResult = await withQuota(caller, 'analyze-symptoms', () => ai.callTool<AnalysisResult>(
+      {
         messages: [
           { role: 'system', content: systemPrompt },
-          { role: 'user', content: userMessage }
-        ],
-        tools: [
-          {
-            type: 'function',
-            function: {
-              name: 'analyze_symptoms',
-              description: 'Analyze symptoms and return structured health assessment',
-              parameters: {
-                type: 'object',
-                properties: {
-                  possibleConditions: {
-                    type: 'array',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        name: { type: 'string' },
-                        description: { type: 'string' },
-                        likelihood: { type: 'string', enum: ['High', 'Medium', 'Low'] }
-                      },
-                      required: ['name', 'description', 'likelihood']
-                    }
-                  },
-                  recommendations: {
-                    type: 'array',
-                    items: { type: 'string' }
-                  },
-                  urgencyLevel: {
-                    type: 'string',
-                    enum: ['Emergency', 'Urgent', 'Non-urgent']
-                  }
-                },
-                required: ['possibleConditions', 'recommendations', 'urgencyLevel']
-              }
-            }
-          }
+          { role: 'user', content: userContent }
         ],
-        tool_choice: { type: 'function', function: { name: 'analyze_symptoms' } }
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI service requires payment. Please add credits.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      const errorText = await response.text();
-      console.error('AI gateway error:', response.status, errorText);
-      throw new Error('Failed to analyze symptoms');
-    }
-
-    const data = await response.json();
-    
-    // Extract the function call arguments
-    const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
-    if (!toolCall || toolCall.function.name !== 'analyze_symptoms') {
-      throw new Error('Invalid response from AI');
-    }
+      },
+      ANALYZE_SYMPTOMS_TOOL
+    ));
 
-    const analysisResult = JSON.parse(toolCall.function.arguments);
+    const possibleConditions = codeConditions(analysisResult.possibleConditions.map((condition) => ({
+      ...condition,
+      evidence: resolveEvidence(condition.evidence, evidenceSources),
+    })));
 
     return new Response(
-      JSON.stringify(analysisResult),
+      JSON.stringify({
+        ...analysisResult,
+        possibleConditions,
+        codingVersion: CLINICAL_CODES_VERSION,
+        promptVersion: prompt.version,
+      }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
     console.error('Error in analyze-symptoms function:', error);
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof QuotaError) {
+      return quotaErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof AIError) {
+      return aiErrorResponse(error, corsHeaders);
+    }
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -1,17 +1,30 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parseAnswerFormat, toChatMessages, type ConversationMessage } from "../_shared/conversation.ts";
+import { redFlagAnalysis, screenConversation } from "../_shared/redFlags.ts";
+import { CLINICAL_CODES_VERSION, codeConditions } from "../_shared/clinicalCodes.ts";
+import { languageInstruction, normalizeLanguage } from "../_shared/language.ts";
+import {
+  coverageInstruction,
+  isAssessmentComplete,
+  parseCoverage,
+  previousCoverage,
+  toCoverage,
+  type AssessmentCoverage,
+  type CoverageDimension,
+} from "../_shared/coverage.ts";
+import { loadConversationPhotos } from "../_shared/photos.ts";
+import { caregiverInstruction, describeSubject, forSubject, loadSubject, type Subject } from "../_shared/subject.ts";
+import { AIError, SCENARIO_HEADER, STREAM_COMPLETE, aiErrorResponse, createAIClient, type ChatRequest } from "../_shared/ai.ts";
+import { AuthError, authErrorResponse, authenticate } from "../_shared/auth.ts";
+import { QuotaError, quotaErrorResponse, withQuota } from "../_shared/quota.ts";
+import { auditRecorder } from "../_shared/audit.ts";
+import { selectPrompt } from "../_shared/prompts.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-ai-scenario',
 };
 
-interface UserProfile {
-  full_name: string;
-  age: number;
-  health_issues: string | null;
-}
-
 interface SymptomHistoryEntry {
   symptoms: string;
   possible_conditions: any;
@@ -20,13 +33,190 @@ interface SymptomHistoryEntry {
   is_cured: boolean;
 }
 
+const COVERAGE = '[COVERAGE]';
+const ANSWER_FORMAT = '[ANSWER_FORMAT]';
+const COVERAGE_LINE = /^\[COVERAGE\]\s*(\[[^\]]*\])/;
+// A coverage line that still hasn't closed after this many characters is treated as malformed
+const MAX_COVERAGE_LINE = 400;
+
+const sseEvent = (payload: Record<string, unknown>) => `data: ${JSON.stringify(payload)}\n\n`;
+
+interface CoverageProgress {
+  coverage: AssessmentCoverage;
+  isComplete: boolean;
+}
+
+type CoverageResolver = (reported: CoverageDimension[] | null) => CoverageProgress;
+
+// Length of the longest suffix of `text` that could be the start of [ANSWER_FORMAT],
+// so a "[ANSWER_" split across chunks is never shown to the user.
+function markerPrefixLength(text: string): number {
+  for (let n = Math.min(text.length, ANSWER_FORMAT.length - 1); n > 0; n--) {
+    if (ANSWER_FORMAT.startsWith(text.slice(-n))) return n;
+  }
+  return 0;
+}
+
+// Splits the leading "[COVERAGE] [...]" line off a reply. Returns null while the text could
+// still be the start of that line, so a half-written coverage list is never shown either.
+function splitCoverageLine(text: string): { reported: CoverageDimension[] | null; rest: string } | null {
+  const trimmed = text.trimStart();
+  const match = trimmed.match(COVERAGE_LINE);
+  if (match) {
+    return { reported: parseCoverage(match[1]), rest: trimmed.slice(match[0].length).trimStart() };
+  }
+
+  const couldBeCoverage = trimmed.length < COVERAGE.length
+    ? COVERAGE.startsWith(trimmed)
+    : trimmed.startsWith(COVERAGE);
+  if (!couldBeCoverage) {
+    return { reported: null, rest: text };
+  }
+  if (trimmed.length > MAX_COVERAGE_LINE) {
+    return { reported: null, rest: trimmed.replace(/^[^\n]*\n?/, '') };
+  }
+  return null;
+}
+
+// Splits a full model reply into its reported coverage, the question text and its answer format
+function parseFollowupReply(reply: string) {
+  const { reported, rest } = splitCoverageLine(reply) ?? { reported: null, rest: '' };
+  const [question, formatPart] = rest.split(ANSWER_FORMAT);
+  return {
+    reported,
+    question: question.trim(),
+    format: formatPart !== undefined ? parseAnswerFormat(formatPart) : { kind: 'text' },
+  };
+}
+
+// Relays the model's content deltas as our own SSE events:
+//   data: {"delta": "..."}                                          partial question text
+//   data: {"done": true, "question": "...", "format": {...}, "isComplete": bool, "coverage": {...}, "promptVersion": "..."}
+//   data: {"error": "..."}                                          upstream failure mid-stream
+// The opening [COVERAGE] line is held back until it is complete; if that coverage finishes the
+// assessment, reading stops there and the question the model went on to write is never shown.
+// Text after [ANSWER_FORMAT] is buffered rather than forwarded and parsed once the stream ends.
+function relayFollowupStream(
+  upstream: ReadableStream<string>,
+  resolveCoverage: CoverageResolver,
+  promptVersion: string,
+): Response {
+  const encoder = new TextEncoder();
+  const reader = upstream.getReader();
+  let cancelled = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let head = '';
+      let pending = '';
+      let question = '';
+      let formatText: string | null = null;
+      // Set once the coverage line has been read (or ruled out)
+      let progress = null as CoverageProgress | null;
+
+      const emitText = (text: string) => {
+        if (!text || cancelled) return;
+        question += text;
+        controller.enqueue(encoder.encode(sseEvent({ delta: text })));
+      };
+
+      const pushQuestionText = (text: string) => {
+        if (formatText !== null) {
+          formatText += text;
+          return;
+        }
+        pending += text;
+        const formatIndex = pending.indexOf(ANSWER_FORMAT);
+        if (formatIndex !== -1) {
+          emitText(pending.slice(0, formatIndex));
+          formatText = pending.slice(formatIndex + ANSWER_FORMAT.length);
+          pending = '';
+          return;
+        }
+        const keep = markerPrefixLength(pending);
+        emitText(pending.slice(0, pending.length - keep));
+        pending = pending.slice(pending.length - keep);
+      };
+
+      const settleCoverage = (split: { reported: CoverageDimension[] | null; rest: string }) => {
+        progress = resolveCoverage(split.reported);
+        if (!progress.isComplete) pushQuestionText(split.rest);
+      };
+
+      const pushContent = (text: string) => {
+        if (progress) {
+          pushQuestionText(text);
+          return;
+        }
+        head += text;
+        const split = splitCoverageLine(head);
+        if (split) settleCoverage(split);
+      };
+
+      try {
+        while (!progress?.isComplete && !cancelled) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          pushContent(value);
+        }
+
+        // The stream ended while the reply could still have been a coverage line
+        if (!progress) {
+          settleCoverage(splitCoverageLine(head) ?? { reported: null, rest: '' });
+        }
+
+        if (progress!.isComplete) {
+          await reader.cancel(STREAM_COMPLETE);
+        } else {
+          emitText(pending);
+        }
+
+        if (!cancelled) {
+          const { coverage, isComplete } = progress!;
+          controller.enqueue(encoder.encode(sseEvent({
+            done: true,
+            question: isComplete ? '' : question.trim(),
+            format: formatText !== null ? parseAnswerFormat(formatText) : { kind: 'text' },
+            isComplete,
+            coverage,
+            promptVersion,
+          })));
+        }
+      } catch (error) {
+        console.error('Error relaying follow-up stream:', error);
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(sseEvent({ error: 'Follow-up stream interrupted' })));
+        }
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      // Client went away (e.g. the user pressed stop): stop pulling from the model too
+      cancelled = true;
+      reader.cancel();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { messages, userId, uncuredSymptoms } = await req.json();
+    const caller = await authenticate(req);
+    const { messages, dependentId, uncuredSymptoms, stream, language } = await req.json() as {
+      messages: ConversationMessage[];
+      dependentId?: string | null;
+      uncuredSymptoms?: string[];
+      stream?: boolean;
+      language?: string;
+    };
     
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
       return new Response(
@@ -35,149 +225,174 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
+    // Red flags end the conversation before the model is ever asked another question
+    const redFlag = screenConversation(messages, language);
+    if (redFlag) {
+      console.log('Red flag rule fired:', redFlag.ruleId, 'rules version', redFlag.rulesVersion);
+      const analysis = redFlagAnalysis(redFlag);
+      return new Response(
+        JSON.stringify({
+          question: redFlag.advice,
+          format: { kind: 'text' },
+          isComplete: true,
+          redFlag,
+          analysis: {
+            ...analysis,
+            possibleConditions: codeConditions(analysis.possibleConditions),
+            codingVersion: CLINICAL_CODES_VERSION,
+          },
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Fetch user profile and symptom history if userId is provided
-    let userContext = '';
+    // The server, not the model, decides when enough has been asked
+    const questionsAsked = messages.filter(message => message.role === 'assistant').length;
+    const knownCoverage = toCoverage(previousCoverage(messages));
+    if (isAssessmentComplete(knownCoverage, questionsAsked)) {
+      return new Response(
+        JSON.stringify({ question: '', format: { kind: 'text' }, isComplete: true, coverage: knownCoverage }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const resolveCoverage: CoverageResolver = (reported) => {
+      const coverage = toCoverage([...knownCoverage.covered, ...(reported ?? [])]);
+      return { coverage, isComplete: isAssessmentComplete(coverage, questionsAsked) };
+    };
+
+    const prompt = selectPrompt('symptom-followup', caller);
+    const ai = createAIClient('symptom-followup', {
+      scenario: req.headers.get(SCENARIO_HEADER),
+      onRecord: auditRecorder(caller, prompt.version),
+    });
+
+    // Fetch the subject's profile and symptom history for signed-in callers; anonymous
+    // conversations use only what's in the request
+    let profileContext = '';
+    let historyContext = '';
     let recentHistory: SymptomHistoryEntry[] = [];
+    let subject: Subject | null = null;
+    let photos: Record<string, string> = {};
     
-    if (userId) {
-      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-      const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-      const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-      // Fetch user profile
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('full_name, age, health_issues')
-        .eq('user_id', userId)
-        .single();
-
-      // Fetch recent symptom history (last 10 entries that are NOT cured)
-      const { data: history } = await supabase
-        .from('symptom_history')
-        .select('symptoms, possible_conditions, urgency_level, created_at, is_cured')
-        .eq('user_id', userId)
+    if (caller.mode === 'user') {
+      const { supabase, userId } = caller;
+
+      // Fetch the profile of whoever the assessment is for (the user or one of their dependents)
+      subject = await loadSubject(supabase, userId, dependentId);
+      if (dependentId && !subject) {
+        return new Response(
+          JSON.stringify({ error: 'Dependent not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      photos = await loadConversationPhotos(supabase, userId, messages);
+
+      // Fetch recent symptom history (last 10 entries) for the same person
+      const { data: history } = await forSubject(
+        supabase
+          .from('symptom_history')
+          .select('symptoms, possible_conditions, urgency_level, created_at, is_cured')
+          .eq('user_id', userId),
+        dependentId,
+      )
         .order('created_at', { ascending: false })
         .limit(10);
 
-      if (profile) {
-        userContext += `\n\nUSER PROFILE:
-- Name: ${profile.full_name}
-- Age: ${profile.age} years old
-- Known Health Issues: ${profile.health_issues || 'None reported'}`;
+      if (subject) {
+        profileContext = describeSubject(subject, 'USER PROFILE');
       }
 
       if (history && history.length > 0) {
         recentHistory = history;
-        const uncuredHistory = history.filter(h => !h.is_cured);
+        // After the pre-chat check the ticked rows arrive in uncuredSymptoms; the rest are background only
+        const hasConfirmation = Array.isArray(uncuredSymptoms);
+        const uncuredHistory = history.filter(h => !h.is_cured && !hasConfirmation);
+        const unconfirmedHistory = history.filter(h => !h.is_cured && hasConfirmation && !uncuredSymptoms.includes(h.symptoms));
         const curedHistory = history.filter(h => h.is_cured);
         
         if (uncuredHistory.length > 0) {
-          userContext += `\n\nRECENT UNCURED SYMPTOMS (consider these in your assessment):`;
+          historyContext += `\n\nRECENT UNCURED SYMPTOMS (consider these in your assessment):`;
           uncuredHistory.forEach((entry, idx) => {
             const date = new Date(entry.created_at).toLocaleDateString();
-            userContext += `\n${idx + 1}. [${date}] ${entry.symptoms} - Urgency: ${entry.urgency_level}`;
+            historyContext += `\n${idx + 1}. [${date}] ${entry.symptoms} - Urgency: ${entry.urgency_level}`;
+          });
+        }
+
+        if (unconfirmedHistory.length > 0) {
+          historyContext += `\n\nOLDER SYMPTOMS THE USER DID NOT CONFIRM AS ONGOING (only mention if clearly relevant):`;
+          unconfirmedHistory.forEach((entry, idx) => {
+            const date = new Date(entry.created_at).toLocaleDateString();
+            historyContext += `\n${idx + 1}. [${date}] ${entry.symptoms}`;
           });
         }
         
         if (curedHistory.length > 0) {
-          userContext += `\n\nPREVIOUSLY CURED SYMPTOMS (do NOT include in current assessment):`;
+          historyContext += `\n\nPREVIOUSLY CURED SYMPTOMS (do NOT include in current assessment):`;
           curedHistory.forEach((entry, idx) => {
             const date = new Date(entry.created_at).toLocaleDateString();
-            userContext += `\n${idx + 1}. [${date}] ${entry.symptoms} - (CURED)`;
+            historyContext += `\n${idx + 1}. [${date}] ${entry.symptoms} - (CURED)`;
           });
         }
       }
     }
 
-    // Include uncured symptoms from the frontend if provided
-    let uncuredContext = '';
+    // Include uncured symptoms the user confirmed as still ongoing before the chat started
+    let ongoingContext = '';
     if (uncuredSymptoms && uncuredSymptoms.length > 0) {
-      uncuredContext = `\n\nNOTE: User has confirmed these previous symptoms are NOT yet cured and should be considered: ${uncuredSymptoms.join(', ')}`;
+      ongoingContext = `\n\nCONFIRMED ONGOING: The user has confirmed these previous symptoms are NOT yet cured and are still active:`;
+      uncuredSymptoms.forEach((symptom, idx) => {
+        ongoingContext += `\n${idx + 1}. ${symptom}`;
+      });
     }
 
-    const systemPrompt = `You are a medical AI assistant conducting a thorough symptom assessment. Your role is to ask relevant follow-up questions to better understand the patient's condition.
-${userContext}${uncuredContext}
-
-Based on the symptoms described, you should ask about:
-- Duration (How long have you had these symptoms?)
-- Severity (On a scale of 1-10, how severe is the pain/discomfort?)
-- Progression (Are the symptoms getting better, worse, or staying the same?)
-- Associated symptoms (Do you have any other symptoms like fever, nausea, fatigue?)
-- Triggers (Does anything make it better or worse?)
-- Previous treatments tried (Have you taken any medications?)
-- Impact on daily life (How are these symptoms affecting your daily activities?)
-
-IMPORTANT RULES:
-1. Ask only ONE question at a time
-2. Be empathetic, warm, and professional
-3. Keep questions short, clear, and easy to understand
-4. Don't repeat questions already asked
-5. Base your question on the context of the conversation AND the user's health profile
-6. If the user has known health issues, ask if current symptoms might be related
-7. If user has previous uncured symptoms, ask if current symptoms are related to or a continuation of those
-8. Count the exchanges - after asking 5-7 meaningful questions that cover duration, severity, progression, and key details, respond with EXACTLY "[ANALYSIS_READY]" to signal the assessment is complete
-9. If the user's initial description is very detailed and comprehensive (covers duration, severity, associated symptoms), you may ask fewer questions before signaling completion
-10. Always be compassionate - remember you're talking to someone who isn't feeling well
-
-Respond with just the question (or [ANALYSIS_READY] when done), no preamble.`;
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-3-flash-preview',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...messages
-        ],
-      }),
+    const systemPrompt = prompt.render('system', {
+      profile: profileContext,
+      history: historyContext,
+      ongoing: ongoingContext,
+      coverage: coverageInstruction(knownCoverage.covered),
+      language: languageInstruction(normalizeLanguage(language)),
+      caregiver: subject?.isDependent ? `\n${caregiverInstruction(subject)}\n` : '',
     });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI service requires payment. Please add credits.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      const errorText = await response.text();
-      console.error('AI gateway error:', response.status, errorText);
-      throw new Error('Failed to get follow-up question');
+    const chatRequest: ChatRequest = {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...toChatMessages(messages, photos)
+      ],
+    };
+
+    if (stream) {
+      const upstream = await withQuota(caller, 'symptom-followup', () => ai.chatStream(chatRequest));
+      return relayFollowupStream(upstream, resolveCoverage, prompt.version);
     }
 
-    const data = await response.json();
-    const question = data.choices?.[0]?.message?.content;
+    const { content: reply } = await withQuota(caller, 'symptom-followup', () => ai.chat(chatRequest));
 
-    if (!question) {
+    if (!reply) {
       throw new Error('No question generated');
     }
 
-    // Check if the AI signals analysis is ready
-    const isComplete = question.includes('[ANALYSIS_READY]');
+    // Separates the coverage and answer format from the question, then checks whether that coverage completes the assessment
+    const { reported, question, format } = parseFollowupReply(reply);
+    const { coverage, isComplete } = resolveCoverage(reported);
 
     return new Response(
-      JSON.stringify({ 
-        question: isComplete ? question.replace('[ANALYSIS_READY]', '').trim() : question,
-        isComplete 
-      }),
+      JSON.stringify({ question: isComplete ? '' : question, format, isComplete, coverage, promptVersion: prompt.version }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
     console.error('Error in symptom-followup function:', error);
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof QuotaError) {
+      return quotaErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof AIError) {
+      return aiErrorResponse(error, corsHeaders);
+    }
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -0,0 +1,56 @@
+-- Create symptom_sessions table to keep every chat turn of an assessment
+CREATE TABLE public.symptom_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  messages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ongoing_symptoms JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'abandoned')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.symptom_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own symptom sessions" 
+ON public.symptom_sessions 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own symptom sessions" 
+ON public.symptom_sessions 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own symptom sessions" 
+ON public.symptom_sessions 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own symptom sessions" 
+ON public.symptom_sessions 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create index for finding a user's unfinished session
+CREATE INDEX idx_symptom_sessions_user_status ON public.symptom_sessions(user_id, status, updated_at DESC);
+
+-- Create function to update timestamps
+CREATE OR REPLACE FUNCTION public.update_symptom_sessions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_symptom_sessions_updated_at
+BEFORE UPDATE ON public.symptom_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_symptom_sessions_updated_at();
+
+-- Link each history entry to the conversation that produced it
+ALTER TABLE public.symptom_history 
+ADD COLUMN session_id uuid REFERENCES public.symptom_sessions(id) ON DELETE SET NULL;
\ No newline at end of file
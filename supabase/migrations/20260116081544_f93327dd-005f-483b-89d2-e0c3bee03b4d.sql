@@ -0,0 +1,6 @@
+-- Record which deterministic red-flag rule (if any) produced an entry
+ALTER TABLE public.symptom_history 
+ADD COLUMN red_flag_rule text DEFAULT NULL;
+
+ALTER TABLE public.symptom_history 
+ADD COLUMN red_flag_rules_version text DEFAULT NULL;
\ No newline at end of file
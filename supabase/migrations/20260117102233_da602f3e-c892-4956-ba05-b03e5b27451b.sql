@@ -0,0 +1,3 @@
+-- Per-user preference for reading assistant questions aloud in the symptom chat
+ALTER TABLE public.profiles 
+ADD COLUMN read_questions_aloud boolean NOT NULL DEFAULT false;
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Preferred language for the app and AI consultations; NULL means follow the browser
+ALTER TABLE public.profiles 
+ADD COLUMN locale text CHECK (locale IN ('en', 'es', 'fr', 'hi'));
@@ -0,0 +1,3 @@
+-- Regions marked on the body map during the assessment: [{ region, view, intensity }]
+ALTER TABLE public.symptom_history 
+ADD COLUMN body_map jsonb;
@@ -0,0 +1,96 @@
+-- Create dependents table for people an account holder assesses symptoms on behalf of
+CREATE TABLE public.dependents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL,
+  age INTEGER NOT NULL,
+  relationship TEXT,
+  health_issues TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.dependents ENABLE ROW LEVEL SECURITY;
+
+-- Create policies so caregivers manage all of their dependents
+CREATE POLICY "Users can view their own dependents" 
+ON public.dependents 
+FOR SELECT 
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can create their own dependents" 
+ON public.dependents 
+FOR INSERT 
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Users can update their own dependents" 
+ON public.dependents 
+FOR UPDATE 
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can delete their own dependents" 
+ON public.dependents 
+FOR DELETE 
+USING (auth.uid() = owner_id);
+
+-- Create index for faster queries
+CREATE INDEX idx_dependents_owner_id ON public.dependents(owner_id);
+
+-- Create function to update timestamps
+CREATE OR REPLACE FUNCTION public.update_dependents_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_dependents_updated_at
+BEFORE UPDATE ON public.dependents
+FOR EACH ROW
+EXECUTE FUNCTION public.update_dependents_updated_at();
+
+-- The subject of an assessment: NULL means the account holder, otherwise one of their dependents.
+-- user_id stays the account that owns the row, so existing policies keep working for caregivers.
+ALTER TABLE public.symptom_history 
+ADD COLUMN dependent_id uuid REFERENCES public.dependents(id) ON DELETE CASCADE;
+
+ALTER TABLE public.symptom_sessions 
+ADD COLUMN dependent_id uuid REFERENCES public.dependents(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_symptom_history_dependent_id ON public.symptom_history(dependent_id);
+
+-- Only allow rows about the account holder or a dependent they own
+DROP POLICY "Users can create their own symptom history" ON public.symptom_history;
+
+CREATE POLICY "Users can create their own symptom history" 
+ON public.symptom_history 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    dependent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.dependents d WHERE d.id = dependent_id AND d.owner_id = auth.uid())
+  )
+);
+
+DROP POLICY "Users can create their own symptom sessions" ON public.symptom_sessions;
+
+CREATE POLICY "Users can create their own symptom sessions" 
+ON public.symptom_sessions 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    dependent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.dependents d WHERE d.id = dependent_id AND d.owner_id = auth.uid())
+  )
+);
+
+-- Caregivers mark their own and their dependents' entries as cured
+CREATE POLICY "Users can update their own symptom history" 
+ON public.symptom_history 
+FOR UPDATE 
+USING (auth.uid() = user_id);
@@ -0,0 +1,31 @@
+-- Create append-only log of edits and retractions made to a symptom session's answers
+CREATE TABLE public.symptom_session_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.symptom_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_index INTEGER NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'retract')),
+  removed_messages JSONB NOT NULL,
+  replacement TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.symptom_session_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions can be read and added but never changed or removed
+CREATE POLICY "Users can view their own session revisions" 
+ON public.symptom_session_revisions 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own session revisions" 
+ON public.symptom_session_revisions 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.symptom_sessions s WHERE s.id = session_id AND s.user_id = auth.uid())
+);
+
+-- Create index for faster queries
+CREATE INDEX idx_symptom_session_revisions_session_id ON public.symptom_session_revisions(session_id, created_at);
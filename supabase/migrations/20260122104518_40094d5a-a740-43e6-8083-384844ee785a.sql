@@ -0,0 +1,23 @@
+-- Create private bucket for photos attached to symptom conversations (compressed to JPEG client-side)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('symptom-photos', 'symptom-photos', false, 5242880, ARRAY['image/jpeg']);
+
+-- Photos live under a folder named after the owner's user id
+CREATE POLICY "Users can view their own symptom photos" 
+ON storage.objects 
+FOR SELECT 
+USING (bucket_id = 'symptom-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own symptom photos" 
+ON storage.objects 
+FOR INSERT 
+WITH CHECK (bucket_id = 'symptom-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own symptom photos" 
+ON storage.objects 
+FOR DELETE 
+USING (bucket_id = 'symptom-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Storage paths of the photos attached during the assessment
+ALTER TABLE public.symptom_history 
+ADD COLUMN photo_paths text[];
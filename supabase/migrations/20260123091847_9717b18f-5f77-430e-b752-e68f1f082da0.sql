@@ -0,0 +1,6 @@
+-- Richer analysis detail: warning signs, who to see, when to escalate and self-care by timeframe
+ALTER TABLE public.symptom_history 
+ADD COLUMN warning_signs jsonb,
+ADD COLUMN specialist jsonb,
+ADD COLUMN follow_up_window jsonb,
+ADD COLUMN self_care jsonb;
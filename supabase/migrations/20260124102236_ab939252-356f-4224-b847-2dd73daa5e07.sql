@@ -0,0 +1,10 @@
+-- Standard codes for suggested conditions. Each entry in possible_conditions carries its own
+-- coding; the ICD-10-CM codes are repeated here so history can be aggregated, and names the
+-- code table couldn't match are kept for review
+ALTER TABLE public.symptom_history 
+ADD COLUMN icd10_codes text[],
+ADD COLUMN uncoded_conditions text[],
+ADD COLUMN clinical_codes_version text;
+
+CREATE INDEX idx_symptom_history_icd10_codes ON public.symptom_history USING gin(icd10_codes);
+CREATE INDEX idx_symptom_history_uncoded ON public.symptom_history(created_at DESC) WHERE uncoded_conditions IS NOT NULL;
@@ -0,0 +1,149 @@
+-- Usage quotas for AI calls. Each plan sets how many requests a user may make to each edge
+-- function per time window; the functions consume quota through consume_ai_quota before
+-- calling the model, and the app shows what's left through get_ai_quota.
+CREATE TABLE public.ai_plans (
+  id TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.ai_plan_limits (
+  plan_id TEXT NOT NULL REFERENCES public.ai_plans(id) ON DELETE CASCADE,
+  function_name TEXT NOT NULL,
+  window_seconds INTEGER NOT NULL CHECK (window_seconds > 0),
+  max_requests INTEGER NOT NULL CHECK (max_requests >= 0),
+  PRIMARY KEY (plan_id, function_name, window_seconds)
+);
+
+-- Users without a row are on the free plan. Only the service role assigns plans.
+CREATE TABLE public.user_plans (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id TEXT NOT NULL DEFAULT 'free' REFERENCES public.ai_plans(id),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Requests per user, function and fixed window (windows are aligned to the epoch, so daily
+-- windows reset at midnight UTC)
+CREATE TABLE public.ai_usage (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  function_name TEXT NOT NULL,
+  window_seconds INTEGER NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, function_name, window_seconds, window_start)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.ai_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_plan_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Plans are public; assignments and usage are readable by their owner and written only by the server
+CREATE POLICY "Anyone can view plans" 
+ON public.ai_plans 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Anyone can view plan limits" 
+ON public.ai_plan_limits 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can view their own plan" 
+ON public.user_plans 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own AI usage" 
+ON public.ai_usage 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+INSERT INTO public.ai_plans (id, name) VALUES
+  ('free', 'Free'),
+  ('plus', 'Plus');
+
+-- One follow-up call per question (up to 10 per assessment), one analysis per assessment
+INSERT INTO public.ai_plan_limits (plan_id, function_name, window_seconds, max_requests) VALUES
+  ('free', 'symptom-followup', 3600, 40),
+  ('free', 'symptom-followup', 86400, 150),
+  ('free', 'analyze-symptoms', 3600, 10),
+  ('free', 'analyze-symptoms', 86400, 25),
+  ('free', 'analyze-report', 3600, 5),
+  ('free', 'analyze-report', 86400, 15),
+  ('plus', 'symptom-followup', 3600, 120),
+  ('plus', 'symptom-followup', 86400, 600),
+  ('plus', 'analyze-symptoms', 3600, 30),
+  ('plus', 'analyze-symptoms', 86400, 100),
+  ('plus', 'analyze-report', 3600, 20),
+  ('plus', 'analyze-report', 86400, 60);
+
+-- Takes one request from every window the user's plan sets for the function. When any window is
+-- already full nothing is taken, and the longest full window is returned with the seconds
+-- until it resets. Functions without limits on the plan are not metered.
+CREATE OR REPLACE FUNCTION public.consume_ai_quota(p_user_id UUID, p_function TEXT)
+RETURNS TABLE (allowed BOOLEAN, limit_requests INTEGER, limit_window_seconds INTEGER, retry_after_seconds INTEGER) AS $$
+DECLARE
+  v_now TIMESTAMP WITH TIME ZONE := now();
+  v_plan TEXT;
+  v_limit RECORD;
+BEGIN
+  -- Serialise requests per user and function so two of them can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_function));
+
+  SELECT COALESCE((SELECT p.plan_id FROM public.user_plans p WHERE p.user_id = p_user_id), 'free') INTO v_plan;
+
+  FOR v_limit IN
+    SELECT l.window_seconds, l.max_requests,
+           to_timestamp(floor(extract(epoch FROM v_now) / l.window_seconds) * l.window_seconds) AS window_start,
+           COALESCE(u.request_count, 0) AS used
+    FROM public.ai_plan_limits l
+    LEFT JOIN public.ai_usage u
+      ON u.user_id = p_user_id
+     AND u.function_name = l.function_name
+     AND u.window_seconds = l.window_seconds
+     AND u.window_start = to_timestamp(floor(extract(epoch FROM v_now) / l.window_seconds) * l.window_seconds)
+    WHERE l.plan_id = v_plan AND l.function_name = p_function
+    ORDER BY l.window_seconds DESC
+  LOOP
+    IF v_limit.used >= v_limit.max_requests THEN
+      RETURN QUERY SELECT false, v_limit.max_requests, v_limit.window_seconds,
+        CEIL(EXTRACT(epoch FROM v_limit.window_start + make_interval(secs => v_limit.window_seconds) - v_now))::INTEGER;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.ai_usage AS u (user_id, function_name, window_seconds, window_start, request_count)
+  SELECT p_user_id, p_function, l.window_seconds,
+         to_timestamp(floor(extract(epoch FROM v_now) / l.window_seconds) * l.window_seconds), 1
+  FROM public.ai_plan_limits l
+  WHERE l.plan_id = v_plan AND l.function_name = p_function
+  ON CONFLICT ON CONSTRAINT ai_usage_pkey
+  DO UPDATE SET request_count = u.request_count + 1;
+
+  RETURN QUERY SELECT true, NULL::INTEGER, NULL::INTEGER, NULL::INTEGER;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consume_ai_quota(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The signed-in user's plan and what's left of each limit in the current windows
+CREATE OR REPLACE FUNCTION public.get_ai_quota()
+RETURNS TABLE (plan_id TEXT, function_name TEXT, window_seconds INTEGER, max_requests INTEGER, used INTEGER, resets_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT l.plan_id, l.function_name, l.window_seconds, l.max_requests,
+         COALESCE(u.request_count, 0),
+         w.window_start + make_interval(secs => l.window_seconds)
+  FROM public.ai_plan_limits l
+  CROSS JOIN LATERAL (
+    SELECT to_timestamp(floor(extract(epoch FROM now()) / l.window_seconds) * l.window_seconds) AS window_start
+  ) w
+  LEFT JOIN public.ai_usage u
+    ON u.user_id = auth.uid()
+   AND u.function_name = l.function_name
+   AND u.window_seconds = l.window_seconds
+   AND u.window_start = w.window_start
+  WHERE auth.uid() IS NOT NULL
+    AND l.plan_id = COALESCE((SELECT p.plan_id FROM public.user_plans p WHERE p.user_id = auth.uid()), 'free')
+  ORDER BY l.function_name, l.window_seconds;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
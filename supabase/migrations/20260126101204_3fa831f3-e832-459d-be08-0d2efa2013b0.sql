@@ -0,0 +1,97 @@
+-- Append-only log of every AI call made for a signed-in user: what was sent, what came back,
+-- how long it took and what it cost. The edge functions write it with the service role; users
+-- can read their own records but nobody can change them. Old records are purged nightly after
+-- the retention period in ai_audit_settings.
+CREATE TABLE public.ai_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  function_name TEXT NOT NULL,
+  call_kind TEXT NOT NULL CHECK (call_kind IN ('chat', 'stream', 'tool')),
+  backend TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  -- SHA-256 of the messages as sent, photos included
+  input_hash TEXT NOT NULL,
+  -- The messages with photos replaced by a placeholder
+  input JSONB NOT NULL,
+  -- Reply text or tool arguments; NULL when the call failed
+  output JSONB,
+  -- 'success', 'cancelled', or the kind of error the call failed with
+  outcome TEXT NOT NULL,
+  latency_ms INTEGER NOT NULL,
+  attempts INTEGER NOT NULL,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  total_tokens INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_audit_log_user_created ON public.ai_audit_log (user_id, created_at DESC);
+CREATE INDEX idx_ai_audit_log_created ON public.ai_audit_log (created_at);
+
+-- A single row holding how long audit records are kept
+CREATE TABLE public.ai_audit_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  retention_days INTEGER NOT NULL DEFAULT 365 CHECK (retention_days > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.ai_audit_settings (id) VALUES (true);
+
+-- Enable Row Level Security
+ALTER TABLE public.ai_audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_audit_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI audit log" 
+ON public.ai_audit_log 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Anyone can view AI audit settings" 
+ON public.ai_audit_settings 
+FOR SELECT 
+USING (true);
+
+-- Records can't be changed, even by the service role. Deletes are only let through for the
+-- retention purge and for accounts that are being deleted (the cascade from auth.users).
+CREATE OR REPLACE FUNCTION public.protect_ai_audit_log()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND (
+    current_setting('app.ai_audit_purge', true) = 'on'
+    OR NOT EXISTS (SELECT 1 FROM auth.users u WHERE u.id = OLD.user_id)
+  ) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'ai_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_ai_audit_log
+BEFORE UPDATE OR DELETE ON public.ai_audit_log
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_ai_audit_log();
+
+-- Deletes records older than the retention period and returns how many were removed
+CREATE OR REPLACE FUNCTION public.purge_ai_audit_log()
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  PERFORM set_config('app.ai_audit_purge', 'on', true);
+
+  DELETE FROM public.ai_audit_log
+  WHERE created_at < now() - make_interval(days => (SELECT s.retention_days FROM public.ai_audit_settings s));
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  PERFORM set_config('app.ai_audit_purge', 'off', true);
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.purge_ai_audit_log() FROM PUBLIC, anon, authenticated;
+
+-- Purge nightly
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('purge-ai-audit-log', '30 3 * * *', 'SELECT public.purge_ai_audit_log()');
@@ -0,0 +1,58 @@
+-- The prompt versions an assessment was produced with (see supabase/functions/_shared/prompts.ts):
+-- the follow-up prompt that asked the last question and the prompt the analysis ran on. Both are
+-- NULL when no model was involved, e.g. when a red-flag rule ended the assessment.
+ALTER TABLE public.symptom_history 
+ADD COLUMN followup_prompt_version text,
+ADD COLUMN analysis_prompt_version text;
+
+-- Outcome metrics per prompt version, for comparing the variants of an experiment. Both views are
+-- for analysis with the service role only: they run with the caller's permissions and are not
+-- granted to app users.
+CREATE VIEW public.prompt_version_outcomes
+WITH (security_invoker = true) AS
+SELECT
+  v.function_name,
+  v.prompt_version,
+  count(*) AS assessments,
+  round(avg((h.urgency_level = 'Emergency')::int), 3) AS emergency_rate,
+  round(avg((h.urgency_level = 'Urgent')::int), 3) AS urgent_rate,
+  round(avg(CASE WHEN jsonb_typeof(h.possible_conditions) = 'array' THEN jsonb_array_length(h.possible_conditions) END), 2) AS avg_conditions,
+  round(avg((h.uncoded_conditions IS NOT NULL)::int), 3) AS uncoded_rate,
+  round(avg(q.questions), 2) AS avg_questions,
+  round(avg(h.is_cured::int), 3) AS cured_rate,
+  min(h.created_at) AS first_seen,
+  max(h.created_at) AS last_seen
+FROM public.symptom_history h
+CROSS JOIN LATERAL (
+  VALUES ('symptom-followup', h.followup_prompt_version), ('analyze-symptoms', h.analysis_prompt_version)
+) AS v(function_name, prompt_version)
+LEFT JOIN LATERAL (
+  SELECT count(*) FILTER (WHERE m->>'role' = 'assistant') AS questions
+  FROM public.symptom_sessions s
+  CROSS JOIN LATERAL jsonb_array_elements(s.messages) m
+  WHERE s.id = h.session_id
+) q ON h.session_id IS NOT NULL
+WHERE v.prompt_version IS NOT NULL
+GROUP BY v.function_name, v.prompt_version;
+
+-- Reliability, speed and cost of every call made with each prompt version
+CREATE VIEW public.prompt_version_performance
+WITH (security_invoker = true) AS
+SELECT
+  function_name,
+  prompt_version,
+  model,
+  count(*) AS calls,
+  round(avg((outcome NOT IN ('success', 'cancelled'))::int), 3) AS failure_rate,
+  round(avg((attempts > 1)::int), 3) AS retry_rate,
+  round(avg(latency_ms)) AS avg_latency_ms,
+  percentile_cont(0.95) WITHIN GROUP (ORDER BY latency_ms) AS p95_latency_ms,
+  round(avg(prompt_tokens)) AS avg_prompt_tokens,
+  round(avg(completion_tokens)) AS avg_completion_tokens,
+  min(created_at) AS first_seen,
+  max(created_at) AS last_seen
+FROM public.ai_audit_log
+GROUP BY function_name, prompt_version, model;
+
+REVOKE ALL ON public.prompt_version_outcomes FROM anon, authenticated;
+REVOKE ALL ON public.prompt_version_performance FROM anon, authenticated;
@@ -0,0 +1,154 @@
+-- Structured health details for the account holder and their dependents. Demographics live on
+-- the profile rows; diagnosed conditions, medications and allergies get a row each so the edge
+-- functions can reason about them (side effects, interactions, sex-specific conditions).
+ALTER TABLE public.profiles 
+ADD COLUMN sex text CHECK (sex IN ('female', 'male', 'intersex')),
+ADD COLUMN height_cm numeric CHECK (height_cm > 0 AND height_cm < 300),
+ADD COLUMN weight_kg numeric CHECK (weight_kg > 0 AND weight_kg < 700);
+
+ALTER TABLE public.dependents 
+ADD COLUMN sex text CHECK (sex IN ('female', 'male', 'intersex')),
+ADD COLUMN height_cm numeric CHECK (height_cm > 0 AND height_cm < 300),
+ADD COLUMN weight_kg numeric CHECK (weight_kg > 0 AND weight_kg < 700);
+
+-- Like symptom_history, user_id is the account that owns the row and dependent_id the person it
+-- is about (NULL for the account holder)
+CREATE TABLE public.diagnosed_conditions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  dependent_id UUID REFERENCES public.dependents(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  diagnosed_year INTEGER CHECK (diagnosed_year BETWEEN 1900 AND 2100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.medications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  dependent_id UUID REFERENCES public.dependents(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Free text, e.g. "500 mg" and "twice a day"
+  dose TEXT,
+  frequency TEXT,
+  started_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.allergies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  dependent_id UUID REFERENCES public.dependents(id) ON DELETE CASCADE,
+  allergen TEXT NOT NULL,
+  reaction TEXT,
+  severity TEXT CHECK (severity IN ('mild', 'moderate', 'severe')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_diagnosed_conditions_user_dependent ON public.diagnosed_conditions(user_id, dependent_id);
+CREATE INDEX idx_medications_user_dependent ON public.medications(user_id, dependent_id);
+CREATE INDEX idx_allergies_user_dependent ON public.allergies(user_id, dependent_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.diagnosed_conditions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.medications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.allergies ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own records and their dependents'; rows can only point at a dependent they own
+CREATE POLICY "Users can view their own diagnosed conditions" 
+ON public.diagnosed_conditions 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own diagnosed conditions" 
+ON public.diagnosed_conditions 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    dependent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.dependents d WHERE d.id = dependent_id AND d.owner_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can update their own diagnosed conditions" 
+ON public.diagnosed_conditions 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    dependent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.dependents d WHERE d.id = dependent_id AND d.owner_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can delete their own diagnosed conditions" 
+ON public.diagnosed_conditions 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own medications" 
+ON public.medications 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own medications" 
+ON public.medications 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    dependent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.dependents d WHERE d.id = dependent_id AND d.owner_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can update their own medications" 
+ON public.medications 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    dependent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.dependents d WHERE d.id = dependent_id AND d.owner_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can delete their own medications" 
+ON public.medications 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own allergies" 
+ON public.allergies 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own allergies" 
+ON public.allergies 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    dependent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.dependents d WHERE d.id = dependent_id AND d.owner_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can update their own allergies" 
+ON public.allergies 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    dependent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.dependents d WHERE d.id = dependent_id AND d.owner_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can delete their own allergies" 
+ON public.allergies 
+FOR DELETE 
+USING (auth.uid() = user_id);
@@ -0,0 +1,86 @@
+-- Profiles are created from the signup metadata by a trigger on auth.users rather than from the
+-- browser, which has no session to insert with until the email address is confirmed
+ALTER TABLE public.profiles 
+ADD COLUMN date_of_birth date,
+ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Everyone with a profile so far filled it in at signup
+UPDATE public.profiles 
+SET completed_at = created_at;
+
+-- Keep age in step with the date of birth whenever the profile is written
+CREATE OR REPLACE FUNCTION public.sync_profile_age()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.date_of_birth IS NOT NULL THEN
+    NEW.age = date_part('year', pg_catalog.age(current_date, NEW.date_of_birth))::INTEGER;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER sync_profile_age
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_profile_age();
+
+-- Creates the profile row for a user from their signup metadata (full_name, date_of_birth,
+-- health_issues, locale). Anything missing or malformed is left for the completion step in the
+-- app: the row is still created, but completed_at stays NULL until the user fills it in.
+CREATE OR REPLACE FUNCTION public.create_profile_from_metadata(p_user_id UUID, p_email TEXT, p_metadata JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_full_name TEXT := left(nullif(trim(p_metadata->>'full_name'), ''), 200);
+  v_date_of_birth DATE;
+  v_locale TEXT := p_metadata->>'locale';
+BEGIN
+  IF p_metadata->>'date_of_birth' ~ '^\d{4}-\d{2}-\d{2}$' THEN
+    BEGIN
+      v_date_of_birth := (p_metadata->>'date_of_birth')::DATE;
+    EXCEPTION WHEN datetime_field_overflow OR invalid_datetime_format THEN
+      v_date_of_birth := NULL;
+    END;
+  END IF;
+  IF v_date_of_birth > current_date OR v_date_of_birth <= current_date - INTERVAL '150 years' THEN
+    v_date_of_birth := NULL;
+  END IF;
+  IF v_locale NOT IN ('en', 'es', 'fr', 'hi') THEN
+    v_locale := NULL;
+  END IF;
+
+  -- age 0 is a placeholder; sync_profile_age replaces it when the date of birth is known
+  INSERT INTO public.profiles (user_id, full_name, age, date_of_birth, health_issues, locale, completed_at)
+  VALUES (
+    p_user_id,
+    coalesce(v_full_name, split_part(p_email, '@', 1), ''),
+    0,
+    v_date_of_birth,
+    left(nullif(trim(p_metadata->>'health_issues'), ''), 2000),
+    v_locale,
+    CASE WHEN v_full_name IS NOT NULL AND v_date_of_birth IS NOT NULL THEN now() END
+  )
+  ON CONFLICT (user_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_profile_from_metadata(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.create_profile_from_metadata(NEW.id, NEW.email, coalesce(NEW.raw_user_meta_data, '{}'::JSONB));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.handle_new_user() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user();
+
+-- Backfill users whose profile insert never happened; they go through the completion step
+SELECT public.create_profile_from_metadata(u.id, u.email, coalesce(u.raw_user_meta_data, '{}'::JSONB))
+FROM auth.users u
+WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.user_id = u.id);
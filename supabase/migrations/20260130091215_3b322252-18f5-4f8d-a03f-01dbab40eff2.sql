@@ -0,0 +1,28 @@
+-- An update must not move a row to another user or to someone else's dependent
+DROP POLICY "Users can update their own symptom history" ON public.symptom_history;
+
+CREATE POLICY "Users can update their own symptom history" 
+ON public.symptom_history 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    dependent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.dependents d WHERE d.id = dependent_id AND d.owner_id = auth.uid())
+  )
+);
+
+DROP POLICY "Users can update their own symptom sessions" ON public.symptom_sessions;
+
+CREATE POLICY "Users can update their own symptom sessions" 
+ON public.symptom_sessions 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    dependent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.dependents d WHERE d.id = dependent_id AND d.owner_id = auth.uid())
+  )
+);
@@ -0,0 +1,70 @@
+-- Anonymous callers are metered too, per client (a hash of their IP address) against the limits
+-- of the 'anonymous' plan, so the publishable key can't be used for unmetered model calls.
+INSERT INTO public.ai_plans (id, name) VALUES
+  ('anonymous', 'Anonymous');
+
+-- Enough for a couple of assessments; signing in gets the free plan's limits
+INSERT INTO public.ai_plan_limits (plan_id, function_name, window_seconds, max_requests) VALUES
+  ('anonymous', 'symptom-followup', 3600, 20),
+  ('anonymous', 'symptom-followup', 86400, 40),
+  ('anonymous', 'analyze-symptoms', 3600, 3),
+  ('anonymous', 'analyze-symptoms', 86400, 6),
+  ('anonymous', 'analyze-report', 3600, 2),
+  ('anonymous', 'analyze-report', 86400, 4);
+
+-- Requests per anonymous client, function and fixed window, laid out like ai_usage
+CREATE TABLE public.ai_anonymous_usage (
+  client_key TEXT NOT NULL,
+  function_name TEXT NOT NULL,
+  window_seconds INTEGER NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (client_key, function_name, window_seconds, window_start)
+);
+
+-- No policies: only the server reads or writes it
+ALTER TABLE public.ai_anonymous_usage ENABLE ROW LEVEL SECURITY;
+
+-- consume_ai_quota for an anonymous client: takes one request from every window the anonymous
+-- plan sets for the function, or nothing when any of them is already full
+CREATE OR REPLACE FUNCTION public.consume_anonymous_ai_quota(p_client_key TEXT, p_function TEXT)
+RETURNS TABLE (allowed BOOLEAN, limit_requests INTEGER, limit_window_seconds INTEGER, retry_after_seconds INTEGER) AS $$
+DECLARE
+  v_now TIMESTAMP WITH TIME ZONE := now();
+  v_limit RECORD;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('anonymous:' || p_client_key || ':' || p_function));
+
+  FOR v_limit IN
+    SELECT l.window_seconds, l.max_requests,
+           to_timestamp(floor(extract(epoch FROM v_now) / l.window_seconds) * l.window_seconds) AS window_start,
+           COALESCE(u.request_count, 0) AS used
+    FROM public.ai_plan_limits l
+    LEFT JOIN public.ai_anonymous_usage u
+      ON u.client_key = p_client_key
+     AND u.function_name = l.function_name
+     AND u.window_seconds = l.window_seconds
+     AND u.window_start = to_timestamp(floor(extract(epoch FROM v_now) / l.window_seconds) * l.window_seconds)
+    WHERE l.plan_id = 'anonymous' AND l.function_name = p_function
+    ORDER BY l.window_seconds DESC
+  LOOP
+    IF v_limit.used >= v_limit.max_requests THEN
+      RETURN QUERY SELECT false, v_limit.max_requests, v_limit.window_seconds,
+        CEIL(EXTRACT(epoch FROM v_limit.window_start + make_interval(secs => v_limit.window_seconds) - v_now))::INTEGER;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.ai_anonymous_usage AS u (client_key, function_name, window_seconds, window_start, request_count)
+  SELECT p_client_key, p_function, l.window_seconds,
+         to_timestamp(floor(extract(epoch FROM v_now) / l.window_seconds) * l.window_seconds), 1
+  FROM public.ai_plan_limits l
+  WHERE l.plan_id = 'anonymous' AND l.function_name = p_function
+  ON CONFLICT ON CONSTRAINT ai_anonymous_usage_pkey
+  DO UPDATE SET request_count = u.request_count + 1;
+
+  RETURN QUERY SELECT true, NULL::INTEGER, NULL::INTEGER, NULL::INTEGER;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consume_anonymous_ai_quota(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,50 @@
+-- Age is worked out from date_of_birth whenever a profile is read, so it can't fall behind after a
+-- birthday the way a stored copy does. The column is kept only for profiles made before
+-- date_of_birth was collected.
+DROP TRIGGER sync_profile_age ON public.profiles;
+
+DROP FUNCTION public.sync_profile_age();
+
+ALTER TABLE public.profiles 
+ALTER COLUMN age DROP NOT NULL;
+
+UPDATE public.profiles 
+SET age = NULL
+WHERE date_of_birth IS NOT NULL;
+
+-- Same as before, without the placeholder age
+CREATE OR REPLACE FUNCTION public.create_profile_from_metadata(p_user_id UUID, p_email TEXT, p_metadata JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_full_name TEXT := left(nullif(trim(p_metadata->>'full_name'), ''), 200);
+  v_date_of_birth DATE;
+  v_locale TEXT := p_metadata->>'locale';
+BEGIN
+  IF p_metadata->>'date_of_birth' ~ '^\d{4}-\d{2}-\d{2}$' THEN
+    BEGIN
+      v_date_of_birth := (p_metadata->>'date_of_birth')::DATE;
+    EXCEPTION WHEN datetime_field_overflow OR invalid_datetime_format THEN
+      v_date_of_birth := NULL;
+    END;
+  END IF;
+  IF v_date_of_birth > current_date OR v_date_of_birth <= current_date - INTERVAL '150 years' THEN
+    v_date_of_birth := NULL;
+  END IF;
+  IF v_locale NOT IN ('en', 'es', 'fr', 'hi') THEN
+    v_locale := NULL;
+  END IF;
+
+  INSERT INTO public.profiles (user_id, full_name, date_of_birth, health_issues, locale, completed_at)
+  VALUES (
+    p_user_id,
+    coalesce(v_full_name, split_part(p_email, '@', 1), ''),
+    v_date_of_birth,
+    left(nullif(trim(p_metadata->>'health_issues'), ''), 2000),
+    v_locale,
+    CASE WHEN v_full_name IS NOT NULL AND v_date_of_birth IS NOT NULL THEN now() END
+  )
+  ON CONFLICT (user_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_profile_from_metadata(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,35 @@
+-- Gives back a request taken by consume_ai_quota when the model call it paid for failed on the
+-- provider's side (unavailable or timed out), so outages don't eat into anyone's quota. Only the
+-- current windows are touched: a window that rolled over since the request started is left alone.
+CREATE OR REPLACE FUNCTION public.refund_ai_quota(p_user_id UUID, p_function TEXT)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_function));
+
+  UPDATE public.ai_usage
+  SET request_count = request_count - 1
+  WHERE user_id = p_user_id
+    AND function_name = p_function
+    AND request_count > 0
+    AND window_start = to_timestamp(floor(extract(epoch FROM now()) / window_seconds) * window_seconds);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refund_ai_quota(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- refund_ai_quota for an anonymous client
+CREATE OR REPLACE FUNCTION public.refund_anonymous_ai_quota(p_client_key TEXT, p_function TEXT)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('anonymous:' || p_client_key || ':' || p_function));
+
+  UPDATE public.ai_anonymous_usage
+  SET request_count = request_count - 1
+  WHERE client_key = p_client_key
+    AND function_name = p_function
+    AND request_count > 0
+    AND window_start = to_timestamp(floor(extract(epoch FROM now()) / window_seconds) * window_seconds);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refund_anonymous_ai_quota(TEXT, TEXT) FROM PUBLIC, anon, authenticated;